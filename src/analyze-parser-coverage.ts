@@ -1,4 +1,5 @@
-import { CodebaseParser } from './codebase-parser';
+import { CodebaseParser } from './codebase-parser.js';
+import { KnowledgeGraph, KnowledgeGraphCollection, getKnowledgeGraphStats } from './knowledge-graph.js';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -12,10 +13,9 @@ async function analyzeParserCoverage() {
   const parsed = await parser.parseCodebase(srcPath);
   
   console.log('📊 Parser Results:');
-  console.log(`- Components: ${parsed.components.length}`);
-  console.log(`- Services: ${parsed.services.length}`);
-  console.log(`- Interfaces: ${parsed.interfaces.length}`);
-  console.log(`- Models: ${parsed.models.length}`);
+  Object.entries(getKnowledgeGraphStats(parsed)).forEach(([collection, count]) => {
+    console.log(`- ${collection}: ${count}`);
+  });
   
   console.log('\n🔍 Checking for missing patterns...\n');
 
@@ -32,7 +32,7 @@ async function analyzeParserCoverage() {
     try {
       const content = readFileSync(fullPath, 'utf-8');
       if (!content.includes('@Injectable')) {
-        console.log(`   ❌ ${file} - Service without @Injectable`);
+        console.log(`   ${capturedIcon(parsed, 'services', fullPath)} ${file} - Service without @Injectable`);
       }
     } catch (e) {
       // File doesn't exist
@@ -54,7 +54,8 @@ async function analyzeParserCoverage() {
     try {
       const content = readFileSync(fullPath, 'utf-8');
       if (content.includes('export const') && content.includes(': ' + (type === 'Guard' ? 'CanActivateFn' : 'HttpInterceptorFn'))) {
-        console.log(`   ⚠️  ${path} - Function-based ${type} (not captured)`);
+        const collection = type === 'Guard' ? 'guards' : 'interceptors';
+        console.log(`   ${capturedIcon(parsed, collection, fullPath)} ${path} - Function-based ${type}`);
         foundFunctionBased = true;
       }
     } catch (e) {
@@ -80,7 +81,7 @@ async function analyzeParserCoverage() {
       const functionMatches = content.match(/export\s+function\s+\w+/g);
       if (functionMatches) {
         utilFunctionCount += functionMatches.length;
-        console.log(`   ⚠️  ${file} - ${functionMatches.length} utility functions (not captured)`);
+        console.log(`   ${capturedIcon(parsed, 'utilityFunctions', fullPath)} ${file} - ${functionMatches.length} utility functions`);
       }
     } catch (e) {
       // File doesn't exist
@@ -99,7 +100,7 @@ async function analyzeParserCoverage() {
       const content = readFileSync(fullPath, 'utf-8');
       const staticMatches = content.match(/static\s+\w+\s*\(/g);
       if (staticMatches) {
-        console.log(`   ⚠️  ${file} - Class with ${staticMatches.length} static methods (not captured)`);
+        console.log(`   ${capturedIcon(parsed, 'models', fullPath)} ${file} - Class with ${staticMatches.length} static methods`);
       }
     } catch (e) {
       // File doesn't exist
@@ -117,7 +118,7 @@ async function analyzeParserCoverage() {
     try {
       const content = readFileSync(fullPath, 'utf-8');
       if (content.includes('abstract class')) {
-        console.log(`   ⚠️  ${file} - Abstract class (not captured)`);
+        console.log(`   ${capturedIcon(parsed, 'abstractClasses', fullPath)} ${file} - Abstract class`);
       }
       if (content.includes('export function') && content.includes('extends')) {
         console.log(`   ⚠️  ${file} - Contains mixin function (not captured)`);
@@ -138,7 +139,7 @@ async function analyzeParserCoverage() {
     try {
       const content = readFileSync(fullPath, 'utf-8');
       if (content.includes('@Directive')) {
-        console.log(`   ⚠️  ${file} - Directive (not captured)`);
+        console.log(`   ${capturedIcon(parsed, 'directives', fullPath)} ${file} - Directive`);
       }
     } catch (e) {
       // File doesn't exist
@@ -171,7 +172,7 @@ async function analyzeParserCoverage() {
   }
   
   if (typeCount > 0 || enumCount > 0) {
-    console.log(`   ⚠️  Found ${typeCount} type definitions and ${enumCount} enums (not captured)`);
+    console.log(`   Found ${typeCount} type definitions and ${enumCount} enums (graph has ${parsed.types.length} types, ${parsed.enums.length} enums)`);
   }
 
   // Check 8: Providers in app.config.ts
@@ -180,25 +181,21 @@ async function analyzeParserCoverage() {
   try {
     const content = readFileSync(configPath, 'utf-8');
     if (content.includes('provide:') && content.includes('useFactory:')) {
-      console.log(`   ⚠️  app.config.ts - Contains custom providers with factories (not captured)`);
+      console.log(`   ${capturedIcon(parsed, 'providers', configPath)} app.config.ts - Contains custom providers with factories`);
     }
   } catch (e) {
     // File doesn't exist
   }
 
   console.log('\n📋 Summary of Parser Gaps:');
-  console.log('- ❌ Function-based guards and interceptors');
-  console.log('- ❌ Utility functions and standalone functions');
-  console.log('- ❌ Static methods and helper classes');
-  console.log('- ❌ Abstract classes and mixins');
-  console.log('- ❌ Directives');
-  console.log('- ❌ Type definitions and enums');
-  console.log('- ❌ Custom providers and factories');
-  console.log('- ❌ Services without @Injectable decorator');
-  console.log('- ❌ Pipes');
-  console.log('- ❌ Standalone components/directives');
-  console.log('- ❌ Route configurations');
+  console.log('- ❌ Mixin functions');
   console.log('- ❌ Module declarations and imports');
 }
 
+// ✅ when the graph has at least one entity of the collection from the given file
+function capturedIcon(parsed: KnowledgeGraph, collection: KnowledgeGraphCollection, filePath: string): string {
+  const captured = (parsed[collection] as Array<{ filePath: string }>).some(entity => entity.filePath === filePath);
+  return captured ? '✅' : '⚠️  (not captured)';
+}
+
 analyzeParserCoverage().catch(console.error);
\ No newline at end of file
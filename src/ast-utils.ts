@@ -0,0 +1,357 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { MethodInfo, MethodSignature, ParameterInfo, PropertyInfo, SourceRange, TypeParameterInfo } from './knowledge-graph.js';
+
+// Shared AST helpers used by the parser core and every extractor
+
+// Keys that hold positions or the program's token and comment lists rather than child nodes
+const NON_CHILD_KEYS = new Set(['parent', 'loc', 'range', 'tokens', 'comments']);
+
+// Depth-first, calling `callback` on the way down and `leave` (if given) once a node's children
+// are done. Both get the node's parent, null for the root.
+export function walkAST(
+  node: any,
+  callback: (node: any, parent: any) => void,
+  leave?: (node: any, parent: any) => void,
+  parent: any = null
+): void {
+  callback(node, parent);
+
+  for (const key in node) {
+    if (NON_CHILD_KEYS.has(key)) continue;
+    if (node[key] && typeof node[key] === 'object') {
+      if (Array.isArray(node[key])) {
+        node[key].forEach((child: any) => {
+          if (child && typeof child === 'object') {
+            walkAST(child, callback, leave, node);
+          }
+        });
+      } else {
+        walkAST(node[key], callback, leave, node);
+      }
+    }
+  }
+
+  leave?.(node, parent);
+}
+
+// Requires the AST to have been parsed with loc: true, as every parse in this repo is
+export function getSourceRange(node: any): SourceRange | undefined {
+  if (!node?.loc) return undefined;
+  return {
+    start: { line: node.loc.start.line, column: node.loc.start.column },
+    end: { line: node.loc.end.line, column: node.loc.end.column }
+  };
+}
+
+export function findDecorator(node: any, name: string): any | undefined {
+  return node.decorators?.find((d: any) => d.expression?.callee?.name === name);
+}
+
+// Returns the object literal passed to a decorator such as @Component({...})
+export function getDecoratorMetadata(decorator: any): any | undefined {
+  const metadata = decorator?.expression?.arguments?.[0];
+  return metadata?.type === AST_NODE_TYPES.ObjectExpression ? metadata : undefined;
+}
+
+export function findObjectProperty(objectNode: any, name: string): any | undefined {
+  return objectNode?.properties?.find((p: any) => p.key?.name === name);
+}
+
+export interface TypedFunctionDeclaration {
+  name: string;
+  typeName: string;
+  // Returns the typed function rather than being one, e.g. `roleGuard('admin')`
+  factory: boolean;
+}
+
+// Functions declared with a function type such as CanActivateFn: `const authGuard: CanActivateFn = ...`,
+// and factories returning one: `const roleGuard = (role: string): CanActivateFn => ...` or
+// `function roleGuard(role: string): CanActivateFn { ... }`. Pass a VariableDeclaration or FunctionDeclaration.
+export function getTypedFunctionDeclarations(node: any): TypedFunctionDeclaration[] {
+  if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+    const returnType = getTypeString(node.returnType?.typeAnnotation);
+    return node.id && returnType ? [{ name: node.id.name, typeName: returnType, factory: true }] : [];
+  }
+
+  if (node.type !== AST_NODE_TYPES.VariableDeclaration) return [];
+
+  return node.declarations.flatMap((decl: any) => {
+    if (!decl.id?.name || !decl.init) return [];
+
+    const annotated = getTypeString(decl.id.typeAnnotation?.typeAnnotation);
+    if (annotated) {
+      return [{ name: decl.id.name, typeName: annotated, factory: false }];
+    }
+
+    const isFunction = decl.init.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+      decl.init.type === AST_NODE_TYPES.FunctionExpression;
+    const returnType = isFunction ? getTypeString(decl.init.returnType?.typeAnnotation) : undefined;
+    return returnType ? [{ name: decl.id.name, typeName: returnType, factory: true }] : [];
+  });
+}
+
+export function extractParameters(params: any[], source?: string): ParameterInfo[] {
+  return params.map((param: any) => {
+    // Parameter properties wrap the parameter, and defaults wrap it in an AssignmentPattern
+    const declared = param.type === AST_NODE_TYPES.TSParameterProperty ? param.parameter : param;
+    const binding = declared.type === AST_NODE_TYPES.AssignmentPattern ? declared.left : declared;
+    const target = binding.type === AST_NODE_TYPES.RestElement ? binding.argument : binding;
+
+    const info: ParameterInfo = {
+      name: getPatternText(target),
+      type: getTypeString((binding.typeAnnotation || target.typeAnnotation)?.typeAnnotation, source),
+      // Callers may leave out parameters with a default as well as `?` ones
+      optional: binding.optional || declared.type === AST_NODE_TYPES.AssignmentPattern,
+      // The default as written, so `{}` or `inject(Config)` survive as well as literals
+      defaultValue: declared.right
+        ? getSourceText(declared.right, source) ?? (declared.right.value != null ? String(declared.right.value) : undefined)
+        : undefined
+    };
+    if (binding.type === AST_NODE_TYPES.RestElement) {
+      info.rest = true;
+    }
+    if (target.type === AST_NODE_TYPES.ObjectPattern || target.type === AST_NODE_TYPES.ArrayPattern) {
+      info.destructured = getBoundNames(target);
+    }
+    return info;
+  });
+}
+
+// `{ id, name }`, `[first, ...others]` or just the name, without types and defaults
+function getPatternText(node: any): string {
+  switch (node?.type) {
+    case AST_NODE_TYPES.Identifier:
+      return node.name;
+    case AST_NODE_TYPES.AssignmentPattern:
+      return getPatternText(node.left);
+    case AST_NODE_TYPES.RestElement:
+      return `...${getPatternText(node.argument)}`;
+    case AST_NODE_TYPES.ObjectPattern:
+      return `{ ${node.properties.map((prop: any) => prop.type === AST_NODE_TYPES.RestElement || prop.shorthand
+        ? getPatternText(prop.type === AST_NODE_TYPES.RestElement ? prop : prop.value)
+        : `${prop.key?.name ?? prop.key?.value}: ${getPatternText(prop.value)}`).join(', ')} }`;
+    case AST_NODE_TYPES.ArrayPattern:
+      return `[${node.elements.map((element: any) => element ? getPatternText(element) : '').join(', ')}]`;
+    default:
+      return 'unknown';
+  }
+}
+
+// Names a binding pattern declares: `{ apiUrl, debug: isDebug, ...rest }` gives apiUrl, isDebug, rest
+export function getBoundNames(node: any): string[] {
+  switch (node?.type) {
+    case AST_NODE_TYPES.Identifier:
+      return [node.name];
+    case AST_NODE_TYPES.AssignmentPattern:
+      return getBoundNames(node.left);
+    case AST_NODE_TYPES.RestElement:
+      return getBoundNames(node.argument);
+    case AST_NODE_TYPES.ObjectPattern:
+      return node.properties.flatMap((prop: any) => getBoundNames(prop.type === AST_NODE_TYPES.RestElement ? prop : prop.value));
+    case AST_NODE_TYPES.ArrayPattern:
+      return node.elements.flatMap((element: any) => getBoundNames(element));
+    default:
+      return [];
+  }
+}
+
+// `<T extends Entity = Project>` of a function, method or class
+export function getTypeParameters(node: any, source?: string): TypeParameterInfo[] | undefined {
+  const params = node?.typeParameters?.params;
+  if (!params?.length) return undefined;
+
+  return params.map((param: any) => ({
+    // Older typescript-estree versions give the name as a string
+    name: param.name?.name ?? param.name,
+    constraint: getTypeString(param.constraint, source),
+    default: getTypeString(param.default, source)
+  }));
+}
+
+// The signature of a function node: a method's value, an arrow function or a function expression
+export function extractSignature(fn: any, source?: string): MethodSignature {
+  return {
+    typeParameters: getTypeParameters(fn, source),
+    // Function types name them `parameters` in older typescript-estree versions
+    parameters: extractParameters(fn.params || fn.parameters || [], source),
+    returnType: getTypeString(fn.returnType?.typeAnnotation, source)
+  };
+}
+
+export function extractMethodInfo(node: any, source?: string): MethodInfo {
+  const method: MethodInfo = {
+    name: node.key.name,
+    ...extractSignature(node.value, source),
+    isAsync: node.value.async || false,
+    visibility: node.accessibility || 'public',
+    isStatic: node.static || false,
+    isAbstract: node.type === AST_NODE_TYPES.TSAbstractMethodDefinition || node.abstract || false
+  };
+  if (node.kind === 'get' || node.kind === 'set') {
+    method.accessor = node.kind;
+  }
+  return method;
+}
+
+// A field initialised with a function is called like a method: `save = async (p: Project) => ...`.
+// A function type on the field is what callers see, so it wins over the initialiser's signature.
+export function extractFieldMethodInfo(node: any, source?: string): MethodInfo {
+  const declaredType = node.typeAnnotation?.typeAnnotation;
+  return {
+    name: node.key.name,
+    ...extractSignature(declaredType?.type === AST_NODE_TYPES.TSFunctionType ? declaredType : node.value, source),
+    isField: true,
+    isAsync: node.value.async || false,
+    visibility: node.accessibility || 'public',
+    isStatic: node.static || false
+  };
+}
+
+// The callable members of a class body, constructor excluded. The bodiless signatures before an
+// implementation are its overloads; they are merged into one entry with the implementation.
+export function extractMethods(members: any[], source?: string): MethodInfo[] {
+  const methods: MethodInfo[] = [];
+  let signatures: any[] = [];
+
+  members.forEach((member: any, index: number) => {
+    if (isFieldMethodMember(member)) {
+      methods.push(extractFieldMethodInfo(member, source));
+      return;
+    }
+    if (!isMethodMember(member) || member.key?.name === 'constructor') return;
+
+    if (member.kind === 'method') {
+      signatures.push(member);
+      const next = members[index + 1];
+      // Overloads are declared back to back under one name, ending with the implementation
+      if (member.value?.type === AST_NODE_TYPES.TSEmptyBodyFunctionExpression && isMethodMember(next) && next.kind === 'method' &&
+          next.key?.name === member.key?.name && !!next.static === !!member.static) {
+        return;
+      }
+    } else {
+      signatures = [member];
+    }
+
+    const method = extractMethodInfo(signatures[signatures.length - 1], source);
+    if (signatures.length > 1) {
+      // Ambient and abstract overloads have no implementation to leave out
+      const overloads = member.value?.type === AST_NODE_TYPES.TSEmptyBodyFunctionExpression ? signatures : signatures.slice(0, -1);
+      method.overloads = overloads.map((signature: any) => extractSignature(signature.value, source));
+    }
+    methods.push(method);
+    signatures = [];
+  });
+
+  return methods;
+}
+
+export function extractPropertyInfo(node: any, source?: string): PropertyInfo {
+  return {
+    name: node.key.name,
+    type: getTypeString(node.typeAnnotation?.typeAnnotation, source),
+    visibility: node.accessibility || 'public',
+    readonly: node.readonly || false,
+    isStatic: node.static || false
+  };
+}
+
+export function isMethodMember(member: any): boolean {
+  return member?.type === AST_NODE_TYPES.MethodDefinition ||
+    member?.type === AST_NODE_TYPES.TSAbstractMethodDefinition;
+}
+
+export function isPropertyMember(member: any): boolean {
+  return member.type === AST_NODE_TYPES.PropertyDefinition ||
+    member.type === AST_NODE_TYPES.TSAbstractPropertyDefinition;
+}
+
+// Fields holding a function are recorded as methods rather than properties
+export function isFieldMethodMember(member: any): boolean {
+  return member?.type === AST_NODE_TYPES.PropertyDefinition && !!member.key?.name &&
+    (member.value?.type === AST_NODE_TYPES.ArrowFunctionExpression || member.value?.type === AST_NODE_TYPES.FunctionExpression);
+}
+
+// Type annotations as written. Given the file's source, type syntax without a case of its own
+// (`keyof T`, tuples, function types, ...) is recorded as its source text rather than a placeholder.
+export function getTypeString(typeNode: any, source?: string): string | undefined {
+  if (!typeNode) return undefined;
+
+  switch (typeNode.type) {
+    case AST_NODE_TYPES.TSStringKeyword:
+      return 'string';
+    case AST_NODE_TYPES.TSNumberKeyword:
+      return 'number';
+    case AST_NODE_TYPES.TSBooleanKeyword:
+      return 'boolean';
+    case AST_NODE_TYPES.TSAnyKeyword:
+      return 'any';
+    case AST_NODE_TYPES.TSUnknownKeyword:
+      return 'unknown';
+    case AST_NODE_TYPES.TSVoidKeyword:
+      return 'void';
+    case AST_NODE_TYPES.TSNullKeyword:
+      return 'null';
+    case AST_NODE_TYPES.TSUndefinedKeyword:
+      return 'undefined';
+    case AST_NODE_TYPES.TSTypeReference: {
+      const baseType = getEntityName(typeNode.typeName);
+      const typeArguments = typeNode.typeArguments || typeNode.typeParameters;
+      if (typeArguments) {
+        const typeParams = typeArguments.params
+          .map((p: any) => getTypeString(p, source))
+          .join(', ');
+        return `${baseType}<${typeParams}>`;
+      }
+      return baseType;
+    }
+    case AST_NODE_TYPES.TSArrayType:
+      return `${getTypeString(typeNode.elementType, source)}[]`;
+    case AST_NODE_TYPES.TSUnionType:
+      return typeNode.types.map((t: any) => getTypeString(t, source)).join(' | ');
+    case AST_NODE_TYPES.TSIntersectionType:
+      return typeNode.types.map((t: any) => getTypeString(t, source)).join(' & ');
+    case AST_NODE_TYPES.TSLiteralType:
+      return typeNode.literal.value?.toString() || typeNode.literal.raw;
+    case AST_NODE_TYPES.TSFunctionType:
+      return getSourceText(typeNode, source) ?? 'Function';
+    case AST_NODE_TYPES.TSTypeLiteral: {
+      const members = typeNode.members
+        .filter((m: any) => m.type === AST_NODE_TYPES.TSPropertySignature)
+        .map((m: any) => `${getEntityName(m.key)}${m.optional ? '?' : ''}: ${getTypeString(m.typeAnnotation?.typeAnnotation, source) ?? 'any'}`);
+      return `{ ${members.join('; ')} }`;
+    }
+    default:
+      return getSourceText(typeNode, source) ?? 'unknown';
+  }
+}
+
+// Needs the AST to be parsed with `range: true`
+function getSourceText(node: any, source?: string): string | undefined {
+  return source !== undefined && node.range ? source.slice(node.range[0], node.range[1]) : undefined;
+}
+
+// Qualified names such as `firebase.User` are TSQualifiedName chains
+export function getEntityName(node: any): string {
+  if (!node) return 'unknown';
+  if (node.type === AST_NODE_TYPES.Identifier) return node.name;
+  if (node.type === AST_NODE_TYPES.TSQualifiedName) {
+    return `${getEntityName(node.left)}.${getEntityName(node.right)}`;
+  }
+  return 'unknown';
+}
+
+// The object literal a `(...) => ({ ... })` or `(...) => { return { ... }; }` function returns
+export function getReturnedObject(fn: any): any {
+  let body = fn?.body;
+  if (body?.type === AST_NODE_TYPES.BlockStatement) {
+    body = body.body.find((statement: any) => statement.type === AST_NODE_TYPES.ReturnStatement)?.argument;
+  }
+  return body?.type === AST_NODE_TYPES.ObjectExpression ? body : undefined;
+}
+
+export function getObjectKeys(node: any): string[] {
+  if (node?.type !== AST_NODE_TYPES.ObjectExpression) return [];
+  return node.properties
+    .map((prop: any) => prop.key?.name ?? prop.key?.value)
+    .filter((key: any): key is string => typeof key === 'string');
+}
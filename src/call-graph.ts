@@ -0,0 +1,141 @@
+import { resolve } from 'path';
+import { getEntityId } from './entity-ids.js';
+import { CallSite, KnowledgeGraph, MemberOwner, MethodInfo, ModuleInfo, UtilityFunction, getCollectionEntities } from './knowledge-graph.js';
+import { ModuleResolver, findDeclaringFile } from './module-resolver.js';
+
+// Collections of classes whose methods can be called
+const CLASS_COLLECTIONS = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'abstractClasses'
+] as const;
+
+// Methods Angular calls itself, which are never unused even without call sites
+const FRAMEWORK_CALLBACKS = new Set([
+  'constructor', 'transform', 'intercept', 'resolve', 'validate',
+  'canActivate', 'canActivateChild', 'canDeactivate', 'canMatch', 'canLoad',
+  'writeValue', 'registerOnChange', 'registerOnTouched', 'setDisabledState'
+]);
+
+interface ClassMembers {
+  methods: MethodInfo[];
+  properties: Array<{ name: string }>;
+}
+
+// Matches every call site with the method or function it calls and counts the usages of each
+// method and utility function. Component methods referenced from templates count as used.
+// Callees are found through the import of the calling file, following barrels, or in the
+// calling file itself, so a class or function of the same name elsewhere is never counted.
+// Runs after resolveModuleExports() and flattenInheritedMembers() so calls of inherited methods resolve.
+export function linkCallGraph(graph: KnowledgeGraph, resolver: ModuleResolver): KnowledgeGraph {
+  // Keyed by entity id, like the classes of flattenInheritedMembers()
+  const classes = new Map<string, ClassMembers>();
+  for (const collection of CLASS_COLLECTIONS) {
+    const entities: Array<MemberOwner & { filePath: string }> = getCollectionEntities(graph, collection);
+    for (const entity of entities) {
+      const methods: MethodInfo[] = [...(entity.methods || []), ...(entity.staticMethods || [])];
+      methods.forEach(method => delete method.usageCount);
+
+      const key = getEntityId(graph.rootPath, entity.filePath, entity.name);
+      if (!classes.has(key)) {
+        classes.set(key, { methods, properties: entity.properties || [] });
+      }
+    }
+  }
+
+  const functions = new Map<string, UtilityFunction>();
+  graph.utilityFunctions.forEach(fn => {
+    delete fn.usageCount;
+    functions.set(getEntityId(graph.rootPath, fn.filePath, fn.name), fn);
+  });
+  // Guard and resolver factories such as `roleGuard('admin')` are called from route configs
+  const routerFunctions = new Set([...graph.guards, ...graph.resolvers, ...graph.interceptors]
+    .filter(entity => entity.type === 'function')
+    .map(entity => getEntityId(graph.rootPath, entity.filePath, entity.name)));
+
+  const modulesByPath = new Map<string, ModuleInfo>();
+  graph.modules.forEach(module => modulesByPath.set(resolve(module.filePath), module));
+
+  // Entity id of the class or function a call site calls, undefined when its import does not resolve
+  const findCallee = (site: CallSite, name: string): string | undefined => {
+    if (!site.calleeImport) {
+      return getEntityId(graph.rootPath, site.filePath, name);
+    }
+    const importedFile = resolver.resolve(site.calleeImport.from, site.filePath);
+    const declaringFile = importedFile && findDeclaringFile(modulesByPath, importedFile, site.calleeImport.name, new Set());
+    return declaringFile ? getEntityId(graph.rootPath, declaringFile, name) : undefined;
+  };
+
+  const countUsage = (target: { usageCount?: number } | undefined) => {
+    if (target) {
+      target.usageCount = (target.usageCount ?? 0) + 1;
+    }
+  };
+
+  for (const site of graph.callSites) {
+    delete site.declaredBy;
+
+    if (!site.className) {
+      const key = findCallee(site, site.member);
+      const fn = key ? functions.get(key) : undefined;
+      site.resolved = !!fn || (!!key && routerFunctions.has(key));
+      countUsage(fn);
+      continue;
+    }
+
+    const key = findCallee(site, site.className);
+    const owner = key ? classes.get(key) : undefined;
+    const method = owner?.methods.find(m => m.name === site.member);
+    // Signals and function-valued properties are called too
+    site.resolved = !!method || !!owner?.properties.some(p => p.name === site.member);
+    countUsage(method);
+
+    if (method?.inheritedFrom) {
+      site.declaredBy = method.inheritedFrom;
+      if (method.inheritedFromFile) {
+        const base = classes.get(getEntityId(graph.rootPath, method.inheritedFromFile, method.inheritedFrom));
+        countUsage(base?.methods.find(m => m.name === site.member));
+      }
+    }
+  }
+
+  for (const component of graph.components) {
+    component.template?.referencedMethods.forEach(name => countUsage(component.methods.find(m => m.name === name)));
+  }
+
+  return graph;
+}
+
+// Call sites of 'ProjectService.getAll' (including calls through subclasses that inherit it),
+// or of every method or function called 'getAll'
+export function findUsages(graph: KnowledgeGraph, name: string): CallSite[] {
+  return graph.callSites.filter(site => name.includes('.')
+    ? site.callee === name || `${site.declaredBy}.${site.member}` === name
+    : site.member === name);
+}
+
+// Public methods and exported functions that nothing in the codebase calls, as
+// 'ProjectService.archive' / 'formatLegacyDate'. Lifecycle hooks and framework callbacks are left out.
+export function findUnusedMembers(graph: KnowledgeGraph): string[] {
+  const unused: string[] = [];
+
+  for (const collection of ['components', 'services', 'directives', 'abstractClasses'] as const) {
+    for (const entity of graph[collection]) {
+      entity.methods
+        .filter(method => !method.inheritedFrom && method.visibility === 'public' && !method.usageCount)
+        .filter(method => !FRAMEWORK_CALLBACKS.has(method.name) && !/^ng[A-Z]/.test(method.name))
+        .forEach(method => unused.push(`${entity.name}.${method.name}`));
+    }
+  }
+
+  graph.utilityFunctions
+    .filter(fn => fn.isExported && !fn.usageCount)
+    .forEach(fn => unused.push(fn.name));
+
+  return unused;
+}
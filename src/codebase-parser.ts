@@ -1,8 +1,41 @@
-import { parse } from '@typescript-eslint/parser';
-import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
-import { readFileSync, readdirSync, statSync } from 'fs';
-import { join, extname } from 'path';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { cpus } from 'os';
+import { dirname, extname, join, relative, resolve, sep } from 'path';
 import winston from 'winston';
+import {
+  KnowledgeGraph,
+  createEmptyKnowledgeGraph,
+  mergeKnowledgeGraphs,
+  getKnowledgeGraphStats,
+  removeFileEntities
+} from './knowledge-graph.js';
+import { CodebaseExtractor, DEFAULT_EXTRACTORS } from './extractors/index.js';
+import { TypeResolver } from './type-resolver.js';
+import { flattenInheritedMembers } from './inheritance.js';
+import { linkTemplateUsages } from './template-parser.js';
+import { ModuleResolver, resolveModuleExports } from './module-resolver.js';
+import { PackageExportIndexer } from './package-export-indexer.js';
+import { linkFirestoreCollections } from './firestore-catalog.js';
+import { linkEnvironmentKeys } from './environment-catalog.js';
+import { isTranslationJsonFile, isXliffFile } from './translation-catalog.js';
+import { isStylesheetFile } from './stylesheet-parser.js';
+import { ExtractedFile, createDiagnostic, extractSourceFile } from './file-extraction.js';
+import { ParserPool } from './parser-pool.js';
+import { linkCallGraph } from './call-graph.js';
+import { linkDependencyInjection } from './dependency-injection.js';
+import { assignEntityIds } from './entity-ids.js';
+import { linkRouteHandlers, resolveRouteTree } from './route-tree.js';
+import { linkHttpInterceptors } from './http-interceptors.js';
+import { linkWorkspaceProjects, loadWorkspaceProjects } from './workspace.js';
+import { ProjectConfig, ProjectFileFilter, isEnabled, loadProjectConfig } from './project-config.js';
+import {
+  FileManifestEntry,
+  ParseManifest,
+  ParseSnapshot,
+  createParseManifest,
+  hashContent,
+  summarizeFileEntities
+} from './parse-manifest.js';
 
 const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
@@ -15,430 +48,420 @@ const logger = winston.createLogger({
   ]
 });
 
-export interface AngularComponent {
-  name: string;
-  selector?: string;
-  templateUrl?: string;
-  styleUrls?: string[];
-  inputs: string[];
-  outputs: string[];
-  methods: MethodInfo[];
-  filePath: string;
+export interface CodebaseParserOptions {
+  // Replaces the built-in extractor set; use registerExtractor() to add to it instead
+  extractors?: CodebaseExtractor[];
+  // Resolve member types with the TypeScript TypeChecker (slower; loads the whole program)
+  resolveTypes?: boolean;
+  // tsconfig.json to load when resolving types (default: nearest one at or above the root)
+  tsconfigPath?: string;
+  // Build export tables for installed dependencies from their .d.ts files (default: true)
+  indexPackages?: boolean;
+  // Worker threads that extract files in parallel (default: one per CPU core but one, for parses
+  // of PARALLEL_PARSE_THRESHOLD files or more; 0 extracts on the main thread). Workers load the
+  // built-in extractors themselves, so a parser with custom extractors always runs on the main thread.
+  workers?: number;
+  // File selection and extractor switches (default: the nearest .antihallrc at or above the root)
+  config?: ProjectConfig;
 }
 
-export interface AngularService {
-  name: string;
-  injectable: boolean;
-  providedIn?: string;
-  methods: MethodInfo[];
-  properties: PropertyInfo[];
-  dependencies: string[];
-  filePath: string;
+// Below this many files to extract, starting workers costs more than it saves
+const PARALLEL_PARSE_THRESHOLD = 200;
+
+export interface IncrementalParseResult {
+  graph: KnowledgeGraph;
+  manifest: ParseManifest;
+  // The previous graph was patched; otherwise every file was parsed and counts as added
+  incremental: boolean;
+  // Paths relative to the root
+  changes: {
+    added: string[];
+    changed: string[];
+    deleted: string[];
+    unchanged: number;
+  };
 }
 
-export interface MethodInfo {
-  name: string;
-  parameters: ParameterInfo[];
-  returnType?: string;
-  isAsync: boolean;
-  visibility: 'public' | 'private' | 'protected';
-}
+export class CodebaseParser {
+  private extractors: CodebaseExtractor[];
+  private typeResolver: TypeResolver | null = null;
+  private moduleResolver: ModuleResolver | null = null;
+  private project: { rootPath: string; config: ProjectConfig; fileFilter: ProjectFileFilter } | null = null;
 
-export interface ParameterInfo {
-  name: string;
-  type?: string;
-  optional: boolean;
-  defaultValue?: string;
-}
+  constructor(private options: CodebaseParserOptions = {}) {
+    this.extractors = [...(options.extractors ?? DEFAULT_EXTRACTORS)];
+  }
 
-export interface PropertyInfo {
-  name: string;
-  type?: string;
-  visibility: 'public' | 'private' | 'protected';
-  readonly: boolean;
-}
+  registerExtractor(extractor: CodebaseExtractor): void {
+    if (this.extractors.some(e => e.name === extractor.name)) {
+      throw new Error(`Extractor '${extractor.name}' is already registered`);
+    }
+    this.extractors.push(extractor);
+  }
 
-export interface ParsedCodebase {
-  components: AngularComponent[];
-  services: AngularService[];
-  interfaces: InterfaceInfo[];
-  models: ModelInfo[];
-}
+  getExtractors(): CodebaseExtractor[] {
+    return [...this.extractors];
+  }
 
-export interface InterfaceInfo {
-  name: string;
-  properties: PropertyInfo[];
-  filePath: string;
-  extends?: string[];
-}
+  async parseCodebase(rootPath: string): Promise<KnowledgeGraph> {
+    const { graph } = await this.parseCodebaseIncremental(rootPath);
+    return graph;
+  }
 
-export interface ModelInfo {
-  name: string;
-  properties: PropertyInfo[];
-  filePath: string;
-}
+  // Re-parses only files whose content hash differs from the previous manifest and patches
+  // the previous graph in place. Without a usable previous result every file is parsed.
+  async parseCodebaseIncremental(
+    rootPath: string,
+    previous?: ParseSnapshot
+  ): Promise<IncrementalParseResult> {
+    const resolveTypes = !!this.options.resolveTypes;
+    const reusable = previous &&
+      previous.manifest.rootPath === rootPath &&
+      previous.manifest.schemaVersion === previous.graph.schemaVersion &&
+      !!previous.manifest.resolvedTypes === resolveTypes;
+
+    logger.info(`Parsing codebase at: ${rootPath}${reusable ? ' (incremental)' : ''}`);
+
+    const graph = reusable ? previous.graph : createEmptyKnowledgeGraph(rootPath);
+    const previousFiles = reusable ? previous.manifest.files : {};
+    const manifest = createParseManifest(rootPath, resolveTypes);
+    // Re-read the project config on every parse so edits to it take effect
+    this.project = null;
+    const projectJsonFiles: string[] = [];
+    const sourceFiles = this.collectSourceFiles(rootPath, rootPath, [], projectJsonFiles);
+    const { config } = this.getProject(rootPath);
+    this.typeResolver = resolveTypes
+      ? TypeResolver.fromProject(rootPath, sourceFiles.filter(file => CodebaseParser.isSourceFile(file, config.extensions)), this.options.tsconfigPath)
+      : null;
+    this.moduleResolver = ModuleResolver.fromProject(rootPath, this.options.tsconfigPath);
+    const changes: IncrementalParseResult['changes'] = { added: [], changed: [], deleted: [], unchanged: 0 };
+
+    const fragments: KnowledgeGraph[] = [];
+    const staleFiles = new Set<string>();
+
+    // Files to extract, decided before extracting so they can be fanned out to workers
+    const pending: Array<{ filePath: string; relativePath: string; content: string; hash: string; size: number; mtimeMs: number; previousEntry?: FileManifestEntry }> = [];
+
+    for (const filePath of sourceFiles) {
+      const relativePath = relative(rootPath, filePath);
+      const previousEntry = previousFiles[relativePath];
+      const stat = statSync(filePath);
+
+      // A changed template or stylesheet means re-parsing the component that uses it
+      const resourcesChanged = previousEntry ? this.resourcesChanged(filePath, previousEntry) : false;
+
+      // Size and mtime match: trust the previous entry without reading the file
+      if (previousEntry && !resourcesChanged && previousEntry.size === stat.size && previousEntry.mtimeMs === stat.mtimeMs) {
+        manifest.files[relativePath] = previousEntry;
+        changes.unchanged++;
+        continue;
+      }
 
-export class CodebaseParser {
-  private components: AngularComponent[] = [];
-  private services: AngularService[] = [];
-  private interfaces: InterfaceInfo[] = [];
-  private models: ModelInfo[] = [];
-
-  async parseCodebase(rootPath: string): Promise<ParsedCodebase> {
-    logger.info(`Parsing codebase at: ${rootPath}`);
-    
-    this.components = [];
-    this.services = [];
-    this.interfaces = [];
-    this.models = [];
-
-    await this.walkDirectory(rootPath);
-
-    logger.info(`Parsed: ${this.components.length} components, ${this.services.length} services`);
-
-    return {
-      components: this.components,
-      services: this.services,
-      interfaces: this.interfaces,
-      models: this.models
-    };
-  }
+      const content = readFileSync(filePath, 'utf-8');
+      const hash = hashContent(content);
 
-  private async walkDirectory(dir: string): Promise<void> {
-    const files = readdirSync(dir);
+      if (previousEntry?.hash === hash && !resourcesChanged) {
+        manifest.files[relativePath] = { ...previousEntry, size: stat.size, mtimeMs: stat.mtimeMs };
+        changes.unchanged++;
+        continue;
+      }
 
-    for (const file of files) {
-      const fullPath = join(dir, file);
-      const stat = statSync(fullPath);
+      pending.push({ filePath, relativePath, content, hash, size: stat.size, mtimeMs: stat.mtimeMs, previousEntry });
+    }
 
-      if (stat.isDirectory()) {
-        // Skip node_modules and other non-source directories
-        if (!file.startsWith('.') && file !== 'node_modules' && file !== 'dist') {
-          await this.walkDirectory(fullPath);
-        }
-      } else if (file.endsWith('.ts') && !file.endsWith('.spec.ts')) {
-        await this.parseFile(fullPath);
+    const extracted = await this.extractFiles(rootPath, pending);
+    pending.forEach(({ filePath, relativePath, hash, size, mtimeMs, previousEntry }, index) => {
+      const { fragment, resources } = extracted[index];
+      fragments.push(fragment);
+      manifest.files[relativePath] = {
+        hash,
+        size,
+        mtimeMs,
+        entities: summarizeFileEntities(fragment),
+        resources
+      };
+
+      if (previousEntry) {
+        staleFiles.add(filePath);
+        changes.changed.push(relativePath);
+      } else {
+        changes.added.push(relativePath);
+      }
+    });
+
+    for (const relativePath of Object.keys(previousFiles)) {
+      if (!manifest.files[relativePath]) {
+        staleFiles.add(join(rootPath, relativePath));
+        changes.deleted.push(relativePath);
       }
     }
+
+    removeFileEntities(graph, staleFiles);
+    fragments.forEach(fragment => mergeKnowledgeGraphs(graph, fragment));
+    // Projects are kept in the manifest until a workspace file changes; the graph gets copies
+    // because linkWorkspaceProjects() fills in their dependencies
+    manifest.workspace = loadWorkspaceProjects(rootPath, projectJsonFiles, reusable ? previous.manifest.workspace : undefined);
+    graph.workspaceProjects = manifest.workspace.projects.map(project => ({ ...project, dependencies: [] }));
+    // Packages are indexed before linking so they get ids along with everything else
+    if (this.options.indexPackages !== false) {
+      this.updatePackageExports(rootPath, graph, manifest, reusable ? previous.manifest : undefined);
+    }
+    this.linkGraph(graph);
+    graph.generatedAt = manifest.updatedAt;
+
+    const stats = getKnowledgeGraphStats(graph);
+    logger.info(`Parsed: ${Object.entries(stats).map(([collection, count]) => `${count} ${collection}`).join(', ')}`);
+    if (reusable) {
+      logger.info(`Incremental parse: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.deleted.length} deleted, ${changes.unchanged} unchanged`);
+    }
+
+    return { graph, manifest, incremental: !!reusable, changes };
   }
 
-  private async parseFile(filePath: string): Promise<void> {
-    try {
+  // Re-parses the given files unconditionally and patches the previous graph in place.
+  // Files that no longer exist are removed. Used by watch mode, which already knows what changed.
+  async updateFiles(
+    previous: ParseSnapshot,
+    filePaths: string[]
+  ): Promise<IncrementalParseResult> {
+    const { graph } = previous;
+    const rootPath = previous.manifest.rootPath;
+    const manifest: ParseManifest = {
+      ...previous.manifest,
+      updatedAt: new Date().toISOString(),
+      files: { ...previous.manifest.files }
+    };
+    const changes: IncrementalParseResult['changes'] = { added: [], changed: [], deleted: [], unchanged: 0 };
+
+    const fragments: KnowledgeGraph[] = [];
+    const staleFiles = new Set<string>();
+
+    // Only the changed files are re-annotated; types they export may also shift in unchanged
+    // dependents, which pick that up on their next change or full parse
+    this.typeResolver?.refresh(filePaths.filter(file => CodebaseParser.isSourceFile(file, this.project?.config.extensions)));
+
+    for (const filePath of new Set(filePaths)) {
+      const relativePath = relative(rootPath, filePath);
+      const previousEntry = manifest.files[relativePath];
+
+      if (!existsSync(filePath)) {
+        if (previousEntry) {
+          delete manifest.files[relativePath];
+          staleFiles.add(filePath);
+          changes.deleted.push(relativePath);
+        }
+        continue;
+      }
+
+      if (!this.isProjectFile(filePath, rootPath)) continue;
+
       const content = readFileSync(filePath, 'utf-8');
-      
-      // Quick checks to determine file type
-      if (content.includes('@Component')) {
-        await this.parseComponent(filePath, content);
-      } else if (content.includes('@Injectable')) {
-        await this.parseService(filePath, content);
-      } else if (content.includes('interface ') || content.includes('export interface')) {
-        await this.parseInterfaces(filePath, content);
-      } else if (content.includes('class ') && (content.includes('model') || content.includes('Model'))) {
-        await this.parseModels(filePath, content);
+      const stat = statSync(filePath);
+      const { fragment, resources } = this.extractFile(filePath, content);
+      fragments.push(fragment);
+      manifest.files[relativePath] = {
+        hash: hashContent(content),
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        entities: summarizeFileEntities(fragment),
+        resources
+      };
+
+      if (previousEntry) {
+        staleFiles.add(filePath);
+        changes.changed.push(relativePath);
+      } else {
+        changes.added.push(relativePath);
       }
-    } catch (error) {
-      logger.warn(`Failed to parse ${filePath}: ${error}`);
     }
+
+    changes.unchanged = Object.keys(manifest.files).length - changes.added.length - changes.changed.length;
+
+    removeFileEntities(graph, staleFiles);
+    fragments.forEach(fragment => mergeKnowledgeGraphs(graph, fragment));
+    this.linkGraph(graph);
+    graph.generatedAt = manifest.updatedAt;
+
+    return { graph, manifest, incremental: true, changes };
   }
 
-  private async parseComponent(filePath: string, content: string): Promise<void> {
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        tokens: true,
-        comment: true,
-        jsx: false
-      });
-
-      const component: AngularComponent = {
-        name: '',
-        inputs: [],
-        outputs: [],
-        methods: [],
-        filePath
-      };
+  // Cross-file passes over the whole graph. Entities in unchanged files can depend on files
+  // that did change (base classes, rendered components, barrels), so these always re-run.
+  private linkGraph(graph: KnowledgeGraph): void {
+    this.moduleResolver = this.moduleResolver ?? ModuleResolver.fromProject(graph.rootPath, this.options.tsconfigPath);
+
+    resolveModuleExports(graph, this.moduleResolver);
+    flattenInheritedMembers(graph, this.moduleResolver);
+    linkTemplateUsages(graph);
+    linkWorkspaceProjects(graph);
+    resolveRouteTree(graph, this.moduleResolver);
+    linkRouteHandlers(graph);
+    linkHttpInterceptors(graph);
+    linkFirestoreCollections(graph);
+    linkEnvironmentKeys(graph);
+    linkCallGraph(graph, this.moduleResolver);
+    linkDependencyInjection(graph);
+    assignEntityIds(graph);
+  }
 
-      // Find the component class
-      this.walkAST(ast, (node: any) => {
-        if (node.type === AST_NODE_TYPES.ClassDeclaration && node.decorators) {
-          const componentDecorator = node.decorators.find((d: any) => 
-            d.expression?.callee?.name === 'Component'
-          );
-
-          if (componentDecorator) {
-            component.name = node.id.name;
-
-            // Parse decorator metadata
-            if (componentDecorator.expression.arguments?.[0]) {
-              const metadata = componentDecorator.expression.arguments[0];
-              this.extractComponentMetadata(metadata, component);
-            }
-
-            // Parse class members
-            node.body.body.forEach((member: any) => {
-              if (member.type === AST_NODE_TYPES.PropertyDefinition) {
-                // Check for @Input and @Output decorators
-                if (member.decorators) {
-                  member.decorators.forEach((decorator: any) => {
-                    if (decorator.expression?.callee?.name === 'Input') {
-                      component.inputs.push(member.key.name);
-                    } else if (decorator.expression?.callee?.name === 'Output') {
-                      component.outputs.push(member.key.name);
-                    }
-                  });
-                }
-              } else if (member.type === AST_NODE_TYPES.MethodDefinition) {
-                component.methods.push(this.extractMethodInfo(member));
-              }
-            });
-          }
-        }
-      });
+  // Export tables only depend on what is installed, so they are rebuilt only when the lockfile changes
+  private updatePackageExports(rootPath: string, graph: KnowledgeGraph, manifest: ParseManifest, previousManifest?: ParseManifest): void {
+    const projectRoot = PackageExportIndexer.findProjectRoot(rootPath);
+    if (!projectRoot) return;
 
-      if (component.name) {
-        this.components.push(component);
-        logger.debug(`Parsed component: ${component.name}`);
-      }
+    const indexer = new PackageExportIndexer(projectRoot);
+    manifest.lockfileHash = indexer.getLockfileHash();
+    if (manifest.lockfileHash && manifest.lockfileHash === previousManifest?.lockfileHash && graph.packages.length > 0) {
+      return;
+    }
+
+    try {
+      graph.packages = indexer.indexDependencies();
     } catch (error) {
-      logger.warn(`Failed to parse component in ${filePath}: ${error}`);
+      logger.warn(`Failed to index package exports: ${error}`);
     }
   }
 
-  private async parseService(filePath: string, content: string): Promise<void> {
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        tokens: true,
-        comment: true,
-        jsx: false
-      });
-
-      const service: AngularService = {
-        name: '',
-        injectable: false,
-        methods: [],
-        properties: [],
-        dependencies: [],
-        filePath
-      };
+  // Spec files are left out by the default exclude globs rather than here, so a config can include them
+  static isSourceFile(fileName: string, extensions: string[] = []): boolean {
+    return ['.ts', ...extensions].includes(extname(fileName)) && !/\.d\.[cm]?ts$/.test(fileName);
+  }
 
-      this.walkAST(ast, (node: any) => {
-        if (node.type === AST_NODE_TYPES.ClassDeclaration && node.decorators) {
-          const injectableDecorator = node.decorators.find((d: any) => 
-            d.expression?.callee?.name === 'Injectable'
-          );
-
-          if (injectableDecorator) {
-            service.name = node.id.name;
-            service.injectable = true;
-
-            // Extract providedIn
-            if (injectableDecorator.expression.arguments?.[0]) {
-              const metadata = injectableDecorator.expression.arguments[0];
-              if (metadata.properties) {
-                const providedInProp = metadata.properties.find((p: any) => 
-                  p.key?.name === 'providedIn'
-                );
-                if (providedInProp) {
-                  service.providedIn = providedInProp.value?.value || 'root';
-                }
-              }
-            }
-
-            // Parse constructor for dependencies
-            const constructor = node.body.body.find((member: any) => 
-              member.type === AST_NODE_TYPES.MethodDefinition && member.key.name === 'constructor'
-            );
-            
-            if (constructor?.value?.params) {
-              constructor.value.params.forEach((param: any) => {
-                if (param.typeAnnotation?.typeAnnotation?.typeName?.name) {
-                  service.dependencies.push(param.typeAnnotation.typeAnnotation.typeName.name);
-                }
-              });
-            }
-
-            // Parse class members
-            node.body.body.forEach((member: any) => {
-              if (member.type === AST_NODE_TYPES.PropertyDefinition) {
-                service.properties.push(this.extractPropertyInfo(member));
-              } else if (member.type === AST_NODE_TYPES.MethodDefinition && member.key.name !== 'constructor') {
-                service.methods.push(this.extractMethodInfo(member));
-              }
-            });
-          }
-        }
-      });
+  // XLIFF files and ngx-translate/Transloco JSON files, parsed into translation catalogs
+  static isTranslationFile(filePath: string): boolean {
+    return isXliffFile(filePath) || isTranslationJsonFile(filePath);
+  }
+
+  // Whether the parser reads the file when parsing rootPath: a source, translation or stylesheet
+  // file that the project config selects
+  isProjectFile(filePath: string, rootPath: string): boolean {
+    const { config, fileFilter } = this.getProject(rootPath);
+    return (CodebaseParser.isSourceFile(filePath, config.extensions) ||
+      CodebaseParser.isTranslationFile(filePath) ||
+      isStylesheetFile(filePath)) &&
+      fileFilter.includesFile(filePath);
+  }
+
+  // Whether no directory between rootPath and the file is excluded, for templates and other
+  // files that are only read through the components using them
+  isInProjectDirectory(filePath: string, rootPath: string): boolean {
+    return this.isProjectDirectory(dirname(resolve(filePath)), rootPath);
+  }
 
-      if (service.name) {
-        this.services.push(service);
-        logger.debug(`Parsed service: ${service.name}`);
+  // Whether neither the directory nor any directory between it and rootPath is excluded
+  isProjectDirectory(dirPath: string, rootPath: string): boolean {
+    const { fileFilter } = this.getProject(rootPath);
+    const root = resolve(rootPath);
+    for (let dir = resolve(dirPath); dir.startsWith(root + sep); dir = dirname(dir)) {
+      if (!fileFilter.includesDirectory(dir)) return false;
+    }
+    return true;
+  }
+
+  // Loads the project config for a root once; parsing another root loads its own
+  private getProject(rootPath: string): { config: ProjectConfig; fileFilter: ProjectFileFilter } {
+    if (this.project?.rootPath !== rootPath) {
+      const config = this.options.config ?? loadProjectConfig(rootPath);
+      if (config.configPath) {
+        logger.info(`Using project config ${config.configPath}`);
       }
-    } catch (error) {
-      logger.warn(`Failed to parse service in ${filePath}: ${error}`);
+      Object.keys(config.extractors)
+        .filter(name => !this.extractors.some(extractor => extractor.name === name))
+        .forEach(name => logger.warn(`Project config names unknown extractor '${name}'`));
+
+      this.project = { rootPath, config, fileFilter: new ProjectFileFilter(rootPath, config) };
     }
+    return this.project;
+  }
+
+  // The registered extractors the project config of the last parsed root leaves on
+  private getEnabledExtractors(): CodebaseExtractor[] {
+    const switches = this.project?.config.extractors ?? {};
+    return this.extractors.filter(extractor => isEnabled(switches, extractor.name));
+  }
+
+  // Parses a single file into a graph fragment containing only the entities it declares
+  async parseFile(filePath: string, content?: string): Promise<KnowledgeGraph> {
+    return this.extractFile(filePath, content).fragment;
   }
 
-  private async parseInterfaces(filePath: string, content: string): Promise<void> {
+  // Extracts the files on a worker pool when there are enough of them, otherwise one by one.
+  // Results are in the order of the files either way.
+  private async extractFiles(rootPath: string, files: Array<{ filePath: string; content: string }>): Promise<ExtractedFile[]> {
+    const workers = this.options.workers ?? (files.length >= PARALLEL_PARSE_THRESHOLD ? cpus().length - 1 : 0);
+    const customExtractors = this.extractors.length !== DEFAULT_EXTRACTORS.length ||
+      this.extractors.some((extractor, index) => extractor !== DEFAULT_EXTRACTORS[index]);
+
+    if (workers < 1 || files.length === 0 || customExtractors) {
+      return files.map(({ filePath, content }) => this.extractFile(filePath, content));
+    }
+
+    logger.info(`Extracting ${files.length} files on ${workers} worker threads`);
+    const extractors = this.getEnabledExtractors().map(extractor => extractor.name);
+    const pool = new ParserPool(workers, { rootPath, tsconfigPath: this.options.tsconfigPath, extractors });
     try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        tokens: true,
-        comment: true,
-        jsx: false
-      });
-
-      this.walkAST(ast, (node: any) => {
-        if (node.type === AST_NODE_TYPES.TSInterfaceDeclaration) {
-          const interfaceInfo: InterfaceInfo = {
-            name: node.id.name,
-            properties: [],
-            filePath
-          };
-
-          if (node.extends) {
-            interfaceInfo.extends = node.extends.map((e: any) => e.expression.name);
-          }
-
-          node.body.body.forEach((member: any) => {
-            if (member.type === AST_NODE_TYPES.TSPropertySignature) {
-              interfaceInfo.properties.push({
-                name: member.key.name,
-                type: this.getTypeString(member.typeAnnotation?.typeAnnotation),
-                visibility: 'public',
-                readonly: member.readonly || false
-              });
-            }
-          });
-
-          this.interfaces.push(interfaceInfo);
-          logger.debug(`Parsed interface: ${interfaceInfo.name}`);
-        }
-      });
-    } catch (error) {
-      logger.warn(`Failed to parse interfaces in ${filePath}: ${error}`);
+      const results = await Promise.all(files.map(({ filePath, content }) => pool.extract(filePath, content)));
+      // Type resolution needs the whole program, which only the main thread loads
+      results.forEach((result, index) => this.annotateTypes(files[index].filePath, result.fragment));
+      return results;
+    } finally {
+      await pool.close();
     }
   }
 
-  private async parseModels(filePath: string, content: string): Promise<void> {
+  private extractFile(filePath: string, content?: string): ExtractedFile {
     try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        tokens: true,
-        comment: true,
-        jsx: false
-      });
-
-      this.walkAST(ast, (node: any) => {
-        if (node.type === AST_NODE_TYPES.ClassDeclaration && 
-            (node.id.name.includes('Model') || filePath.includes('model'))) {
-          const model: ModelInfo = {
-            name: node.id.name,
-            properties: [],
-            filePath
-          };
-
-          node.body.body.forEach((member: any) => {
-            if (member.type === AST_NODE_TYPES.PropertyDefinition) {
-              model.properties.push(this.extractPropertyInfo(member));
-            }
-          });
-
-          this.models.push(model);
-          logger.debug(`Parsed model: ${model.name}`);
-        }
-      });
+      content = content ?? readFileSync(filePath, 'utf-8');
     } catch (error) {
-      logger.warn(`Failed to parse models in ${filePath}: ${error}`);
+      logger.warn(`Failed to parse ${filePath}: ${error}`);
+      const fragment = createEmptyKnowledgeGraph();
+      fragment.diagnostics.push(createDiagnostic(filePath, 'read-error', String(error)));
+      return { fragment };
     }
-  }
 
-  private extractComponentMetadata(metadata: any, component: AngularComponent): void {
-    if (metadata.properties) {
-      metadata.properties.forEach((prop: any) => {
-        switch (prop.key?.name) {
-          case 'selector':
-            component.selector = prop.value?.value;
-            break;
-          case 'templateUrl':
-            component.templateUrl = prop.value?.value;
-            break;
-          case 'styleUrls':
-            if (prop.value?.elements) {
-              component.styleUrls = prop.value.elements.map((e: any) => e.value);
-            }
-            break;
-        }
-      });
-    }
+    const result = extractSourceFile(filePath, content, this.getEnabledExtractors(), () => {
+      this.moduleResolver = this.moduleResolver ?? ModuleResolver.fromProject(dirname(filePath), this.options.tsconfigPath);
+      return this.moduleResolver;
+    });
+    this.annotateTypes(filePath, result.fragment);
+    return result;
   }
 
-  private extractMethodInfo(node: any): MethodInfo {
-    return {
-      name: node.key.name,
-      parameters: node.value.params.map((param: any) => ({
-        name: param.name,
-        type: this.getTypeString(param.typeAnnotation?.typeAnnotation),
-        optional: param.optional || false,
-        defaultValue: param.right?.value
-      })),
-      returnType: this.getTypeString(node.value.returnType?.typeAnnotation),
-      isAsync: node.value.async || false,
-      visibility: node.accessibility || 'public'
-    };
+  private annotateTypes(filePath: string, fragment: KnowledgeGraph): void {
+    if (!this.typeResolver || !CodebaseParser.isSourceFile(filePath, this.project?.config.extensions)) return;
+    try {
+      this.typeResolver.annotate(filePath, fragment);
+    } catch (error) {
+      logger.warn(`Type resolution failed on ${filePath}: ${error}`);
+      fragment.diagnostics.push(createDiagnostic(filePath, 'type-error', String(error)));
+    }
   }
 
-  private extractPropertyInfo(node: any): PropertyInfo {
-    return {
-      name: node.key.name,
-      type: this.getTypeString(node.typeAnnotation?.typeAnnotation),
-      visibility: node.accessibility || 'public',
-      readonly: node.readonly || false
-    };
+  private resourcesChanged(filePath: string, entry: FileManifestEntry): boolean {
+    return Object.entries(entry.resources || {}).some(([resourcePath, hash]) => {
+      const fullPath = join(dirname(filePath), resourcePath);
+      return !existsSync(fullPath) || hashContent(readFileSync(fullPath, 'utf-8')) !== hash;
+    });
   }
 
-  private getTypeString(typeNode: any): string | undefined {
-    if (!typeNode) return undefined;
-
-    switch (typeNode.type) {
-      case AST_NODE_TYPES.TSStringKeyword:
-        return 'string';
-      case AST_NODE_TYPES.TSNumberKeyword:
-        return 'number';
-      case AST_NODE_TYPES.TSBooleanKeyword:
-        return 'boolean';
-      case AST_NODE_TYPES.TSAnyKeyword:
-        return 'any';
-      case AST_NODE_TYPES.TSVoidKeyword:
-        return 'void';
-      case AST_NODE_TYPES.TSTypeReference:
-        return typeNode.typeName.name;
-      case AST_NODE_TYPES.TSArrayType:
-        return `${this.getTypeString(typeNode.elementType)}[]`;
-      default:
-        return 'unknown';
-    }
-  }
+  // Excluded and git-ignored directories are skipped without being read. Nx project.json files
+  // met on the way are collected too, so finding workspace projects needs no walk of its own.
+  private collectSourceFiles(rootPath: string, dir: string = rootPath, files: string[] = [], projectJsonFiles: string[] = []): string[] {
+    const { fileFilter } = this.getProject(rootPath);
+    for (const file of readdirSync(dir)) {
+      const fullPath = join(dir, file);
+      const stat = statSync(fullPath);
 
-  private walkAST(node: any, callback: (node: any) => void): void {
-    callback(node);
-    
-    for (const key in node) {
-      if (node[key] && typeof node[key] === 'object') {
-        if (Array.isArray(node[key])) {
-          node[key].forEach((child: any) => {
-            if (child && typeof child === 'object') {
-              this.walkAST(child, callback);
-            }
-          });
-        } else {
-          this.walkAST(node[key], callback);
+      if (stat.isDirectory()) {
+        if (fileFilter.includesDirectory(fullPath)) {
+          this.collectSourceFiles(rootPath, fullPath, files, projectJsonFiles);
         }
+      } else if (this.isProjectFile(fullPath, rootPath)) {
+        files.push(fullPath);
+      } else if (file === 'project.json') {
+        projectJsonFiles.push(fullPath);
       }
     }
+    return files;
   }
-}
\ No newline at end of file
+}
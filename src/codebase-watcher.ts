@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { existsSync, readdirSync, statSync, watch, FSWatcher } from 'fs';
+import { dirname, extname, join, relative, resolve, sep } from 'path';
+import winston from 'winston';
+import { CodebaseParser } from './codebase-parser.js';
+import { isStylesheetFile } from './stylesheet-parser.js';
+import { KnowledgeGraph } from './knowledge-graph.js';
+import { ParseSnapshot } from './parse-manifest.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+// Read through the components that use them, so watched even when the config only selects .ts files
+const RESOURCE_EXTENSIONS = ['.html', '.scss'];
+
+export interface CodebaseWatcherOptions {
+  // Changes arriving within this window are re-parsed together (default: 300ms)
+  debounceMs?: number;
+}
+
+// Keeps a parsed knowledge graph live by re-parsing files as they change on disk.
+// Emits 'updated' with the IncrementalParseResult after every batch of changes and 'error'
+// when a batch fails. Template and stylesheet changes re-parse the component that uses them.
+export class CodebaseWatcher extends EventEmitter {
+  // One recursive watcher on the root, or one per directory where recursive watching is unavailable
+  private fsWatchers = new Map<string, FSWatcher>();
+  private pendingFiles = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private updateChain: Promise<void> = Promise.resolve();
+  private readonly debounceMs: number;
+
+  constructor(
+    private parser: CodebaseParser,
+    private state: ParseSnapshot,
+    options: CodebaseWatcherOptions = {}
+  ) {
+    super();
+    this.debounceMs = options.debounceMs ?? 300;
+  }
+
+  get rootPath(): string {
+    return this.state.manifest.rootPath;
+  }
+
+  getGraph(): KnowledgeGraph {
+    return this.state.graph;
+  }
+
+  start(): void {
+    if (this.fsWatchers.size > 0) return;
+
+    try {
+      this.watchDirectory(this.rootPath, true);
+    } catch (error: any) {
+      // Recursive watching on Linux needs Node 20
+      if (error?.code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+
+      logger.warn(`Recursive file watching is unavailable on Node ${process.version}, watching each directory instead`);
+      this.watchDirectoryTree(resolve(this.rootPath));
+    }
+
+    logger.info(`Watching ${this.rootPath} for changes`);
+  }
+
+  async stop(): Promise<void> {
+    this.fsWatchers.forEach(fsWatcher => fsWatcher.close());
+    this.fsWatchers.clear();
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingFiles.clear();
+
+    // Let an in-flight update finish so the graph is not left half patched
+    await this.updateChain;
+  }
+
+  private watchDirectory(directory: string, recursive: boolean): void {
+    const fsWatcher = watch(directory, { recursive }, (_event, fileName) => {
+      if (!fileName) return;
+
+      const filePath = resolve(directory, fileName.toString());
+      if (!recursive) {
+        this.syncDirectoryWatchers(filePath);
+      }
+      this.handleChange(filePath);
+    });
+
+    fsWatcher.on('error', error => {
+      // A watched directory that is deleted closes its watcher; the root going away is an error
+      if (!recursive && directory !== resolve(this.rootPath) && !existsSync(directory)) {
+        fsWatcher.close();
+        this.fsWatchers.delete(directory);
+        return;
+      }
+      this.emit('error', error);
+    });
+    this.fsWatchers.set(directory, fsWatcher);
+  }
+
+  // Watches a directory and the project directories below it. Files already in a directory that
+  // appeared while watching are queued, as they may have been written before its watcher existed.
+  private watchDirectoryTree(directory: string, queueFiles = false): void {
+    if (this.fsWatchers.has(directory) || !this.parser.isProjectDirectory(directory, this.rootPath)) return;
+
+    try {
+      this.watchDirectory(directory, false);
+      for (const entry of readdirSync(directory, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          this.watchDirectoryTree(join(directory, entry.name), queueFiles);
+        } else if (queueFiles) {
+          this.handleChange(join(directory, entry.name));
+        }
+      }
+    } catch (error) {
+      // Deleted before it could be watched
+      logger.warn(`Failed to watch ${directory}: ${error}`);
+    }
+  }
+
+  // Per-directory watchers only hear about their own entries: a directory that was created gets
+  // watched, and the files of one that was removed are re-parsed as deleted
+  private syncDirectoryWatchers(path: string): void {
+    const stat = statSync(path, { throwIfNoEntry: false });
+    if (stat) {
+      if (stat.isDirectory()) {
+        this.watchDirectoryTree(path, true);
+      }
+      return;
+    }
+
+    const prefix = path + sep;
+    for (const [directory, fsWatcher] of this.fsWatchers) {
+      if (directory === path || directory.startsWith(prefix)) {
+        fsWatcher.close();
+        this.fsWatchers.delete(directory);
+      }
+    }
+    Object.keys(this.state.manifest.files)
+      .map(relativePath => resolve(this.rootPath, relativePath))
+      .filter(filePath => filePath.startsWith(prefix))
+      .forEach(filePath => this.handleChange(filePath));
+  }
+
+  private handleChange(fileName: string): void {
+    const filePath = resolve(this.rootPath, fileName);
+    const watched = RESOURCE_EXTENSIONS.includes(extname(fileName))
+      ? this.parser.isInProjectDirectory(filePath, this.rootPath)
+      : this.parser.isProjectFile(filePath, this.rootPath);
+    if (!watched) return;
+
+    this.pendingFiles.add(filePath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.debounceTimer = null;
+    const changedFiles = [...this.pendingFiles];
+    this.pendingFiles.clear();
+
+    this.updateChain = this.updateChain.then(async () => {
+      try {
+        const result = await this.parser.updateFiles(this.state, this.resolveSourceFiles(changedFiles));
+        this.state = { graph: result.graph, manifest: result.manifest };
+
+        logger.info(`Knowledge graph updated: ${result.changes.added.length} added, ${result.changes.changed.length} changed, ${result.changes.deleted.length} deleted`);
+        this.emit('updated', result);
+      } catch (error) {
+        logger.error('Failed to update knowledge graph:', error);
+        this.emit('error', error);
+      }
+    });
+  }
+
+  // Maps .html/.scss files to the component source that references them
+  private resolveSourceFiles(changedFiles: string[]): string[] {
+    const resourceOwners = new Map<string, string>();
+
+    for (const component of this.state.graph.components) {
+      const componentDir = dirname(resolve(component.filePath));
+      for (const resource of [component.templateUrl, ...(component.styleUrls || [])]) {
+        if (resource) {
+          resourceOwners.set(join(componentDir, resource), component.filePath);
+        }
+      }
+    }
+
+    const sourceFiles: string[] = [];
+    for (const file of changedFiles) {
+      if (!RESOURCE_EXTENSIONS.includes(extname(file))) {
+        sourceFiles.push(this.toParserPath(file));
+        continue;
+      }
+
+      // Stylesheets are parsed for their theme declarations as well as re-parsing their component
+      if (isStylesheetFile(file)) {
+        sourceFiles.push(this.toParserPath(file));
+      }
+
+      const owner = resourceOwners.get(file);
+      const sibling = file.slice(0, -extname(file).length) + '.ts';
+      if (owner) {
+        sourceFiles.push(owner);
+      } else if (existsSync(sibling)) {
+        sourceFiles.push(this.toParserPath(sibling));
+      }
+    }
+    return sourceFiles;
+  }
+
+  // Entities are keyed by paths joined onto the configured root, which may be relative
+  private toParserPath(absolutePath: string): string {
+    return join(this.rootPath, relative(resolve(this.rootPath), absolutePath));
+  }
+}
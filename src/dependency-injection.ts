@@ -0,0 +1,213 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getEntityName, walkAST } from './ast-utils.js';
+import { InjectionDependency, Injecting, KnowledgeGraph, ProviderRegistration, ProviderScope, RouteConfig } from './knowledge-graph.js';
+
+// Collections whose entities can request dependencies
+export const INJECTING_COLLECTIONS = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'abstractClasses'
+] as const;
+
+// Resolution modifiers, as parameter decorators and as inject() options
+const INJECT_FLAGS = {
+  Optional: 'optional',
+  Self: 'self',
+  SkipSelf: 'skipSelf',
+  Host: 'host'
+} as const;
+
+// Scopes that make a token injectable everywhere in the application
+const APPLICATION_SCOPES: ProviderScope[] = ['root', 'platform', 'any', 'environment'];
+
+// Dependencies of a class: constructor parameters (typed or `@Inject(TOKEN)`) and every
+// inject() call in its body, with the field that holds the instance where there is one
+export function collectClassInjections(classNode: any): InjectionDependency[] {
+  const injections: InjectionDependency[] = [];
+  const fieldInjections = new Set<any>();
+
+  classNode.body.body.forEach((member: any) => {
+    if (member.kind === 'constructor') {
+      member.value.params.forEach((param: any) => {
+        const injection = getParameterInjection(param);
+        if (injection) injections.push(injection);
+      });
+    }
+
+    if (member.type === AST_NODE_TYPES.PropertyDefinition && isInjectCall(member.value)) {
+      fieldInjections.add(member.value);
+      injections.push({ ...getInjectCallDependency(member.value), name: member.key?.name });
+    }
+  });
+
+  walkAST(classNode.body, (node: any) => {
+    if (isInjectCall(node) && !fieldInjections.has(node)) {
+      injections.push(getInjectCallDependency(node));
+    }
+  });
+
+  return injections.filter(injection => injection.token);
+}
+
+// inject() calls in the body of a function: `const auth = inject(AuthService)`
+export function collectFunctionInjections(functionNode: any): InjectionDependency[] {
+  const injections: InjectionDependency[] = [];
+  const assigned = new Set<any>();
+
+  walkAST(functionNode, (node: any) => {
+    if (node.type === AST_NODE_TYPES.VariableDeclarator && isInjectCall(node.init) && node.id.name) {
+      assigned.add(node.init);
+      injections.push({ ...getInjectCallDependency(node.init), name: node.id.name });
+    } else if (isInjectCall(node) && !assigned.has(node)) {
+      injections.push(getInjectCallDependency(node));
+    }
+  });
+
+  return injections.filter(injection => injection.token);
+}
+
+export function isInjectCall(node: any): boolean {
+  return node?.type === AST_NODE_TYPES.CallExpression &&
+    node.callee.type === AST_NODE_TYPES.Identifier &&
+    node.callee.name === 'inject' &&
+    node.arguments.length > 0;
+}
+
+// `inject(TOKEN, { optional: true, skipSelf: true })`
+function getInjectCallDependency(node: any): InjectionDependency {
+  const injection: InjectionDependency = { token: getTokenName(node.arguments[0]) ?? '', via: 'inject' };
+  const options = node.arguments[1];
+  if (options?.type === AST_NODE_TYPES.ObjectExpression) {
+    options.properties.forEach((prop: any) => {
+      const flag = Object.values(INJECT_FLAGS).find(value => value === prop.key?.name);
+      if (flag && prop.value?.value === true) {
+        injection[flag] = true;
+      }
+    });
+  }
+  return injection;
+}
+
+// `private auth: AuthService`, `@Optional() logger?: Logger` or `@Inject(API_URL) url: string`
+function getParameterInjection(param: any): InjectionDependency | undefined {
+  // Parameter properties wrap the identifier; defaults wrap it again
+  const identifier = param.parameter?.left ?? param.parameter ?? param.left ?? param;
+  const decorators = [...(param.decorators || []), ...(identifier.decorators || [])];
+
+  const injection: InjectionDependency = {
+    token: getTypeToken(identifier.typeAnnotation?.typeAnnotation) ?? '',
+    via: 'constructor',
+    name: identifier.name
+  };
+
+  decorators.forEach((decorator: any) => {
+    const name = decorator.expression?.callee?.name;
+    if (name === 'Inject') {
+      injection.token = getTokenName(decorator.expression.arguments[0]) ?? injection.token;
+    } else if (name in INJECT_FLAGS) {
+      injection[INJECT_FLAGS[name as keyof typeof INJECT_FLAGS]] = true;
+    }
+  });
+
+  return injection.token ? injection : undefined;
+}
+
+// Only plain type references identify a token; `string` or `Observable<T>` need @Inject()
+function getTypeToken(typeNode: any): string | undefined {
+  if (typeNode?.type !== AST_NODE_TYPES.TSTypeReference || typeNode.typeArguments || typeNode.typeParameters) {
+    return undefined;
+  }
+  return getEntityName(typeNode.typeName);
+}
+
+// AuthService, API_URL or Tokens.API_URL
+export function getTokenName(node: any): string | undefined {
+  if (node?.type === AST_NODE_TYPES.Identifier) return node.name;
+  if (node?.type === AST_NODE_TYPES.MemberExpression && !node.computed) {
+    const object = getTokenName(node.object);
+    return object && `${object}.${node.property.name}`;
+  }
+  return undefined;
+}
+
+// Records on every service, injection token and signal store which classes and functions inject it.
+// Registrations are extracted per file, so this is the only cross-file step.
+export function linkDependencyInjection(graph: KnowledgeGraph): KnowledgeGraph {
+  const targets = new Map<string, { injectedBy?: string[] }>();
+  [...graph.services, ...graph.injectionTokens, ...graph.signalStores].forEach(target => {
+    delete target.injectedBy;
+    targets.set(target.name, target);
+  });
+
+  for (const collection of INJECTING_COLLECTIONS) {
+    for (const consumer of graph[collection] as Array<Injecting & { name: string }>) {
+      consumer.injections?.forEach(injection => {
+        const target = targets.get(injection.token);
+        if (target && !target.injectedBy?.includes(consumer.name)) {
+          target.injectedBy = [...(target.injectedBy || []), consumer.name];
+        }
+      });
+    }
+  }
+
+  return graph;
+}
+
+// Where a token is provided. Services, signal stores and InjectionTokens that only record their
+// `providedIn` (hand-built graphs, graphs stored before registrations were extracted) count as
+// registered there. provideX() calls the extractor could not see into are left out.
+export function getProviderRegistrations(graph: KnowledgeGraph, token: string): ProviderRegistration[] {
+  const registrations = graph.providerRegistrations.filter(registration =>
+    registration.token === token && registration.provider !== 'opaque');
+
+  const injectionToken = graph.injectionTokens.find(entity => entity.name === token);
+  const declared = injectionToken ?? [...graph.services, ...graph.signalStores].find(entity => entity.name === token);
+  if (declared?.providedIn) {
+    const scope = getProvidedInScope(declared.providedIn);
+    if (!registrations.some(registration => registration.scope === scope.scope && registration.owner === scope.owner)) {
+      registrations.push({ token, ...scope, provider: injectionToken ? 'useFactory' : 'class', location: declared.location, filePath: declared.filePath });
+    }
+  }
+
+  return registrations;
+}
+
+// Whether the graph has provider calls whose providers are unknown: `provideFeature()` functions
+// of the codebase and importProvidersFrom(). Any token may be provided through those.
+export function hasOpaqueProviders(graph: KnowledgeGraph): boolean {
+  return graph.providerRegistrations.some(registration => registration.provider === 'opaque');
+}
+
+// Whether a token can be injected anywhere, rather than only below the components, routes or
+// lazily loaded NgModules that provide it. Eagerly imported NgModules put their providers in
+// the root injector.
+export function isProvidedApplicationWide(graph: KnowledgeGraph, registrations: ProviderRegistration[]): boolean {
+  const lazyModules = collectLazyModules(graph.routes);
+  return registrations.some(registration => APPLICATION_SCOPES.includes(registration.scope) ||
+    (registration.scope === 'module' && !lazyModules.names.has(registration.owner ?? '') && !lazyModules.files.has(registration.filePath)));
+}
+
+// `providedIn: 'root'` or `providedIn: SomeModule`
+function getProvidedInScope(providedIn: string): Pick<ProviderRegistration, 'scope' | 'owner'> {
+  return APPLICATION_SCOPES.includes(providedIn as ProviderScope)
+    ? { scope: providedIn as ProviderScope }
+    : { scope: 'module', owner: providedIn };
+}
+
+// Exports loadChildren resolves to, and the files of default-exported ones
+function collectLazyModules(routes: RouteConfig[], lazyModules = { names: new Set<string>(), files: new Set<string>() }) {
+  routes.forEach(route => {
+    if (route.loadChildren?.exportName) {
+      lazyModules.names.add(route.loadChildren.exportName);
+    } else if (route.loadChildren?.resolvedPath) {
+      lazyModules.files.add(route.loadChildren.resolvedPath);
+    }
+    collectLazyModules(route.children ?? [], lazyModules);
+  });
+  return lazyModules;
+}
@@ -0,0 +1,211 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { DocComment, Documented, KnowledgeGraph, MethodInfo, PropertyInfo, getCollectionEntities } from './knowledge-graph.js';
+
+// Collections whose entities are declared by name at the top level of a file
+const DOCUMENTED_COLLECTIONS = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'interfaces',
+  'models',
+  'types',
+  'enums',
+  'utilityFunctions',
+  'abstractClasses',
+  'signalStores'
+] as const;
+
+// Only keywords may separate a doc comment from the declaration it documents
+const DECLARATION_PREFIX = /^\s*((export|default|declare)\s+)*$/;
+
+// Signal stores list their methods by name only
+interface DocumentedEntity extends Documented {
+  name: string;
+  methods?: Array<MethodInfo | string>;
+  staticMethods?: MethodInfo[];
+  properties?: PropertyInfo[];
+}
+
+interface Declaration {
+  node: any;
+  // Class and interface members by name; overloads keep the first documented signature
+  members: Map<string, any>;
+}
+
+// Attaches the TSDoc of every declaration in a file to the entities and members a file
+// fragment holds. Needs the AST to be parsed with `comment: true` and `range: true`.
+export function annotateDocComments(ast: any, content: string, fragment: KnowledgeGraph): void {
+  const comments = (ast.comments || []).filter((comment: any) => comment.type === 'Block' && comment.value.startsWith('*'));
+  if (comments.length === 0) return;
+
+  const docs = new Map<any, DocComment | undefined>();
+  const getDocs = (node: any): DocComment | undefined => {
+    if (!docs.has(node)) {
+      docs.set(node, readDocComment(node, comments, content));
+    }
+    return docs.get(node);
+  };
+
+  const declarations = collectDeclarations(ast, getDocs);
+
+  for (const collection of DOCUMENTED_COLLECTIONS) {
+    const entities: DocumentedEntity[] = getCollectionEntities(fragment, collection);
+    for (const entity of entities) {
+      const declaration = declarations.get(entity.name);
+      if (!declaration) continue;
+
+      setDocs(entity, getDocs(declaration.node));
+      [...(entity.methods || []), ...(entity.staticMethods || []), ...(entity.properties || [])]
+        .filter((member): member is MethodInfo | PropertyInfo => typeof member !== 'string')
+        .forEach(member => {
+          const memberNode = declaration.members.get(member.name);
+          if (memberNode) {
+            setDocs(member, getDocs(memberNode));
+          }
+        });
+    }
+  }
+}
+
+function setDocs(target: Documented, docs: DocComment | undefined): void {
+  if (docs) {
+    target.docs = docs;
+  }
+}
+
+// Top-level classes, interfaces, functions, enums, type aliases and variables by name
+function collectDeclarations(ast: any, getDocs: (node: any) => DocComment | undefined): Map<string, Declaration> {
+  const declarations = new Map<string, Declaration>();
+
+  for (const statement of ast.body) {
+    const exported = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ||
+      statement.type === AST_NODE_TYPES.ExportDefaultDeclaration;
+    const node = exported ? statement.declaration : statement;
+    if (!node) continue;
+
+    // The comment sits above `export`, so that is where it is looked for
+    const documented = exported ? statement : node;
+
+    if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+      node.declarations
+        .filter((decl: any) => decl.id?.name)
+        .forEach((decl: any) => declarations.set(decl.id.name, { node: documented, members: new Map() }));
+    } else if (node.id?.name) {
+      const members = new Map<string, any>();
+      getMembers(node).forEach((member: any) => {
+        const name = member.key?.name ?? member.key?.value ?? member.id?.name;
+        if (name && (!members.has(name) || (!getDocs(members.get(name)) && getDocs(member)))) {
+          members.set(name, member);
+        }
+      });
+      declarations.set(node.id.name, { node: documented, members });
+    }
+  }
+
+  return declarations;
+}
+
+function getMembers(node: any): any[] {
+  switch (node.type) {
+    case AST_NODE_TYPES.ClassDeclaration:
+    case AST_NODE_TYPES.TSInterfaceDeclaration:
+      return node.body.body;
+    case AST_NODE_TYPES.TSEnumDeclaration:
+      return node.body?.members ?? node.members;
+    default:
+      return [];
+  }
+}
+
+// The `/** */` comment directly above a node (and its decorators), parsed into its parts.
+// Decorators may come before `export`, so those of an exported class count as well.
+function readDocComment(node: any, comments: any[], content: string): DocComment | undefined {
+  const decorators = node.decorators ?? node.declaration?.decorators ?? [];
+  const start = Math.min(node.range[0], ...decorators.map((decorator: any) => decorator.range[0]));
+
+  let comment: any;
+  for (const candidate of comments) {
+    if (candidate.range[1] > start) break;
+    comment = candidate;
+  }
+  if (!comment || !DECLARATION_PREFIX.test(content.slice(comment.range[1], start))) return undefined;
+
+  return parseDocComment(comment.value);
+}
+
+// Splits the comment text into the summary and its @param, @returns, @deprecated and
+// @internal block tags
+function parseDocComment(text: string): DocComment | undefined {
+  const lines = text
+    .split('\n')
+    .map(line => line.replace(/^\s*\*+\s?/, '').trimEnd());
+
+  const docs: DocComment = {};
+  const summary: string[] = [];
+  let current: { tag: string; lines: string[] } | undefined;
+  const tags: Array<{ tag: string; lines: string[] }> = [];
+
+  for (const line of lines) {
+    const tagMatch = line.match(/^\s*@(\w+)\s*(.*)$/);
+    if (tagMatch) {
+      current = { tag: tagMatch[1], lines: [tagMatch[2]] };
+      tags.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      summary.push(line);
+    }
+  }
+
+  const summaryText = joinLines(summary);
+  if (summaryText) {
+    docs.summary = summaryText;
+  }
+
+  for (const { tag, lines: tagLines } of tags) {
+    const value = joinLines(tagLines);
+    switch (tag) {
+      case 'param': {
+        // @param name - text, @param {Type} name text
+        const match = value.match(/^(?:\{[^}]*\}\s*)?\[?([\w$.]+)[^\s]*\s*(?:-\s*)?([\s\S]*)$/);
+        if (match) {
+          docs.params = { ...docs.params, [match[1]]: match[2] };
+        }
+        break;
+      }
+      case 'returns':
+      case 'return':
+        docs.returns = value;
+        break;
+      case 'deprecated': {
+        const replacement = findReplacement(value);
+        docs.deprecated = {};
+        if (value) docs.deprecated.message = value;
+        if (replacement) docs.deprecated.replacement = replacement;
+        break;
+      }
+      case 'internal':
+        docs.internal = true;
+        break;
+    }
+  }
+
+  return Object.keys(docs).length > 0 ? docs : undefined;
+}
+
+// `{@link ProjectService.getAll}`, `{@link getAll | the new API}` or "Use getAll() instead"
+function findReplacement(text: string): string | undefined {
+  const link = text.match(/\{@link(?:code|plain)?\s+([^\s|}]+)/);
+  if (link) return link[1];
+
+  const use = text.match(/\buse\s+`?([\w$.]+)(?:\(\))?`?/i);
+  return use?.[1];
+}
+
+function joinLines(lines: string[]): string {
+  return lines.join('\n').trim().replace(/\n{3,}/g, '\n\n');
+}
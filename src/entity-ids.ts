@@ -0,0 +1,72 @@
+import { relative, sep } from 'path';
+import { Identified, KNOWLEDGE_GRAPH_COLLECTIONS, KnowledgeGraph, SourceRange, getCollectionEntities } from './knowledge-graph.js';
+
+// The fields an entity's id is built from; every collection has some of them
+interface KeyedEntity extends Identified {
+  filePath?: string;
+  name?: string;
+  className?: string;
+  token?: string;
+  scope?: string;
+  owner?: string;
+  fullPath?: string;
+  outlet?: string;
+  path?: string;
+  callee?: string;
+  location?: SourceRange;
+}
+
+// Gives every entity an id that stays the same across parses as long as its file and name do:
+// `src/app/core/config.service.ts#ConfigService`, `...#ProjectEffects.load$` for class members,
+// and just the file for file-level entities such as modules and environments. Entities without
+// a name (call sites, diagnostics, ...) are keyed by position. Ids are unique within a collection;
+// the second entity with the same key in a file gets a `~2` suffix.
+export function assignEntityIds(graph: KnowledgeGraph): void {
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    const counts = new Map<string, number>();
+
+    const entities: KeyedEntity[] = getCollectionEntities(graph, collection);
+    for (const entity of entities) {
+      let id = typeof entity.filePath === 'string'
+        ? getEntityId(graph.rootPath, entity.filePath, getEntityKey(entity))
+        : `package:${entity.name}`;
+
+      const count = (counts.get(id) ?? 0) + 1;
+      counts.set(id, count);
+      if (count > 1) {
+        id = `${id}~${count}`;
+      }
+      entity.id = id;
+    }
+  }
+}
+
+// Id of the entity with the given key in a file, for looking entities up before ids are assigned
+export function getEntityId(rootPath: string, filePath: string, key: string): string {
+  return [relative(rootPath, filePath).split(sep).join('/'), key].filter(Boolean).join('#');
+}
+
+// The name an entity is looked up by within its file
+function getEntityKey(entity: KeyedEntity): string {
+  if (typeof entity.name === 'string') {
+    return entity.className ? `${entity.className}.${entity.name}` : entity.name;
+  }
+  if (typeof entity.token === 'string') {
+    // Provider registrations: the same token can be provided in several injectors of one file
+    return entity.scope !== undefined ? `${entity.token}:${entity.scope}${entity.owner !== undefined ? `:${entity.owner}` : ''}` : entity.token;
+  }
+  const position = entity.location ? `@${entity.location.start.line}:${entity.location.start.column}` : '';
+  if (typeof entity.fullPath === 'string') {
+    // Routes in the route tree, by URL and the outlet they render into
+    return entity.outlet ? `${entity.fullPath}(${entity.outlet})` : entity.fullPath;
+  }
+  if (typeof entity.path === 'string') {
+    // Firestore collections and routes outside the route tree; an empty route path falls back to
+    // the position
+    return entity.path || position;
+  }
+  if (typeof entity.callee === 'string') {
+    return `${entity.callee}${position}`;
+  }
+  return position;
+}
@@ -0,0 +1,36 @@
+import { dirname } from 'path';
+import { EnvironmentFile, EnvironmentKey, KnowledgeGraph } from './knowledge-graph.js';
+
+// Records on every environment file the keys its siblings in the same directory define and it
+// lacks. A missing key is undefined in the builds that swap that file in.
+export function linkEnvironmentKeys(graph: KnowledgeGraph): KnowledgeGraph {
+  for (const environments of groupByDirectory(graph.environments).values()) {
+    const allPaths = new Set(environments.flatMap(environment => environment.keys.map(key => key.path)));
+
+    environments.forEach(environment => {
+      const own = new Set(environment.keys.map(key => key.path));
+      const missing = [...allPaths].filter(path => !own.has(path));
+      if (missing.length > 0) {
+        environment.missingKeys = missing;
+      } else {
+        delete environment.missingKeys;
+      }
+    });
+  }
+  return graph;
+}
+
+// Environment files per environments directory (one per app in a workspace) and variable
+function groupByDirectory(environments: EnvironmentFile[]): Map<string, EnvironmentFile[]> {
+  const groups = new Map<string, EnvironmentFile[]>();
+  environments.forEach(environment => {
+    const key = `${dirname(environment.filePath)}:${environment.variable}`;
+    groups.set(key, [...(groups.get(key) || []), environment]);
+  });
+  return groups;
+}
+
+// Looks up a dotted key path in one environment file
+export function findEnvironmentKey(environment: EnvironmentFile, path: string): EnvironmentKey | undefined {
+  return environment.keys.find(key => key.path === path);
+}
@@ -0,0 +1,27 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { AbstractClass } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+import { collectClassHeritage, collectClassMembers } from './class-members.js';
+
+export const abstractClassExtractor: CodebaseExtractor = {
+  name: 'abstractClasses',
+
+  visit({ ast, content, filePath, graph, report }) {
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.abstract) return;
+
+        const abstractClass: AbstractClass = {
+          name: node.id.name,
+          methods: [],
+          properties: [],
+          filePath
+        };
+
+        collectClassHeritage(node, abstractClass, ast, content);
+        collectClassMembers(node, abstractClass, content, report);
+        graph.abstractClasses.push(abstractClass);
+      }
+    };
+  }
+};
@@ -0,0 +1,229 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getEntityName, getSourceRange } from '../ast-utils.js';
+import { CallSite } from '../knowledge-graph.js';
+import { CodebaseExtractor, NodeVisitors, exitVisitor } from './extractor.js';
+
+// Longest call text kept as a usage example
+const MAX_CODE_LENGTH = 120;
+
+// Class body elements that can contain calls
+const CLASS_MEMBER_TYPES = [
+  AST_NODE_TYPES.MethodDefinition,
+  AST_NODE_TYPES.PropertyDefinition,
+  AST_NODE_TYPES.AccessorProperty,
+  AST_NODE_TYPES.StaticBlock
+];
+
+// Nodes that can open a scope of their own
+const SCOPE_TYPES = [
+  AST_NODE_TYPES.ClassDeclaration,
+  AST_NODE_TYPES.ClassExpression,
+  AST_NODE_TYPES.FunctionDeclaration,
+  AST_NODE_TYPES.ArrowFunctionExpression,
+  AST_NODE_TYPES.FunctionExpression
+];
+
+interface Scope {
+  className?: string;
+  // `this.<name>` -> class, from constructor parameter properties, typed fields and inject()
+  members: Map<string, string>;
+  // Local variables holding an injected instance, e.g. `const auth = inject(AuthService)`
+  locals: Map<string, string>;
+  caller?: string;
+}
+
+// Records calls of class methods and codebase functions: `this.service.method()`, `this.method()`,
+// `injected.method()` and calls of imported or same-file functions. linkCallGraph() later
+// matches them with the entities they call.
+export const callSiteExtractor: CodebaseExtractor = {
+  name: 'callSites',
+
+  visit({ ast, content, filePath, graph, resolveImport }) {
+    const projectNames = collectProjectNames(ast, resolveImport);
+    const isProjectClass = (name: string | undefined): name is string => !!name && projectNames.has(name);
+
+    // Scopes of the classes, class members and functions the walk is in, innermost last
+    const scopes: Array<{ node: any; scope: Scope }> = [{ node: ast, scope: { members: new Map(), locals: new Map() } }];
+    const currentScope = () => scopes[scopes.length - 1].scope;
+    const enterScope = (node: any, scope: Scope) => scopes.push({ node, scope });
+    const leaveScope = (node: any) => {
+      if (scopes.length > 1 && scopes[scopes.length - 1].node === node) scopes.pop();
+    };
+
+    const addCallSite = (node: any, scope: Scope, calledMember: string, localClassName?: string) => {
+      const code = content.slice(node.range[0], node.range[1]).replace(/\s+/g, ' ');
+      // Aliased imports are recorded under the name the class or function is exported with
+      const calleeImport = projectNames.get(localClassName ?? calledMember);
+      const className = localClassName && (calleeImport?.name ?? localClassName);
+      const member = localClassName ? calledMember : calleeImport?.name ?? calledMember;
+      graph.callSites.push({
+        callee: className ? `${className}.${member}` : member,
+        className,
+        member,
+        calleeImport,
+        caller: scope.caller,
+        code: code.length > MAX_CODE_LENGTH ? `${code.slice(0, MAX_CODE_LENGTH - 3)}...` : code,
+        line: node.loc.start.line,
+        column: node.loc.start.column,
+        location: getSourceRange(node),
+        filePath
+      });
+    };
+
+    const enterClass = (node: any) => {
+      const className = node.id?.name;
+      enterScope(node, { className, members: collectInjectedMembers(node, isProjectClass), locals: new Map(), caller: className });
+    };
+
+    // Each member of a class body calls as `Class.member`, with locals of its own
+    const enterClassMember = (node: any, parent: any) => {
+      if (parent?.type !== AST_NODE_TYPES.ClassBody) return;
+
+      const classScope = currentScope();
+      const memberName = node.key?.name ?? node.key?.value;
+      enterScope(node, {
+        ...classScope,
+        locals: new Map(),
+        caller: classScope.className && memberName ? `${classScope.className}.${memberName}` : classScope.className
+      });
+    };
+
+    // `const authGuard: CanActivateFn = () => ...` is the caller of what its body calls
+    const enterFunctionExpression = (node: any, parent: any) => {
+      const scope = currentScope();
+      if (parent?.type === AST_NODE_TYPES.VariableDeclarator && parent.init === node && !scope.caller && parent.id.name) {
+        enterScope(node, { ...scope, locals: new Map(scope.locals), caller: parent.id.name });
+      }
+    };
+
+    const visitors: NodeVisitors = {
+      [AST_NODE_TYPES.ClassDeclaration]: enterClass,
+      [AST_NODE_TYPES.ClassExpression]: enterClass,
+      [AST_NODE_TYPES.FunctionDeclaration]: (node: any) => {
+        const scope = currentScope();
+        enterScope(node, { ...scope, locals: new Map(scope.locals), caller: node.id?.name ?? scope.caller });
+      },
+      [AST_NODE_TYPES.ArrowFunctionExpression]: enterFunctionExpression,
+      [AST_NODE_TYPES.FunctionExpression]: enterFunctionExpression,
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        const injected = getInjectedClass(node.init);
+        if (isProjectClass(injected) && node.id.type === AST_NODE_TYPES.Identifier) {
+          currentScope().locals.set(node.id.name, injected);
+        }
+      },
+      [AST_NODE_TYPES.CallExpression]: (node: any) => {
+        const scope = currentScope();
+        const callee = node.callee;
+        if (callee.type === AST_NODE_TYPES.MemberExpression && !callee.computed && callee.property.name) {
+          const receiver = callee.object;
+          // this.projectService.getAll()
+          if (receiver.type === AST_NODE_TYPES.MemberExpression &&
+              receiver.object.type === AST_NODE_TYPES.ThisExpression &&
+              scope.members.has(receiver.property.name)) {
+            addCallSite(node, scope, callee.property.name, scope.members.get(receiver.property.name));
+          // this.refresh()
+          } else if (receiver.type === AST_NODE_TYPES.ThisExpression && scope.className) {
+            addCallSite(node, scope, callee.property.name, scope.className);
+          // const auth = inject(AuthService); auth.isLoggedIn()
+          } else if (receiver.type === AST_NODE_TYPES.Identifier && scope.locals.has(receiver.name)) {
+            addCallSite(node, scope, callee.property.name, scope.locals.get(receiver.name));
+          // inject(AuthService).isLoggedIn()
+          } else if (isProjectClass(getInjectedClass(receiver))) {
+            addCallSite(node, scope, callee.property.name, getInjectedClass(receiver));
+          }
+        } else if (callee.type === AST_NODE_TYPES.Identifier && projectNames.has(callee.name)) {
+          addCallSite(node, scope, callee.name);
+        }
+      }
+    };
+
+    for (const memberType of CLASS_MEMBER_TYPES) {
+      visitors[memberType] = enterClassMember;
+    }
+    for (const scopeType of [...SCOPE_TYPES, ...CLASS_MEMBER_TYPES]) {
+      visitors[exitVisitor(scopeType)] = leaveScope;
+    }
+    return visitors;
+  }
+};
+
+// `inject(AuthService)` -> AuthService
+function getInjectedClass(node: any): string | undefined {
+  if (node?.type === AST_NODE_TYPES.CallExpression &&
+      node.callee.type === AST_NODE_TYPES.Identifier &&
+      node.callee.name === 'inject' &&
+      node.arguments[0]?.type === AST_NODE_TYPES.Identifier) {
+    return node.arguments[0].name;
+  }
+  return undefined;
+}
+
+// Constructor parameter properties (`private auth: AuthService`) and fields that are typed with
+// a class or initialised with inject(). Only classes of the codebase are kept; calls on
+// HttpClient, Router and friends are not part of the call graph.
+function collectInjectedMembers(classNode: any, isProjectClass: (name: string | undefined) => name is string): Map<string, string> {
+  const members = new Map<string, string>();
+
+  classNode.body.body.forEach((member: any) => {
+    if (member.type === AST_NODE_TYPES.PropertyDefinition && member.key?.name) {
+      const className = getInjectedClass(member.value) ?? getClassTypeName(member.typeAnnotation?.typeAnnotation);
+      if (isProjectClass(className)) {
+        members.set(member.key.name, className);
+      }
+    }
+
+    if (member.kind === 'constructor') {
+      member.value.params
+        .filter((param: any) => param.type === AST_NODE_TYPES.TSParameterProperty)
+        .forEach((param: any) => {
+          const parameter = param.parameter.left ?? param.parameter;
+          const className = getClassTypeName(parameter.typeAnnotation?.typeAnnotation);
+          if (parameter.name && isProjectClass(className)) {
+            members.set(parameter.name, className);
+          }
+        });
+    }
+  });
+
+  return members;
+}
+
+// Plain type references only; generics like Observable<T> are not injected classes
+function getClassTypeName(typeNode: any): string | undefined {
+  if (typeNode?.type !== AST_NODE_TYPES.TSTypeReference || typeNode.typeArguments || typeNode.typeParameters) {
+    return undefined;
+  }
+  return getEntityName(typeNode.typeName);
+}
+
+// Names declared by the codebase: imports from other files of the project, with the module and
+// name they are imported from, and the file's own top-level classes and functions, without.
+// Package imports (rxjs, @angular/...) are left out.
+function collectProjectNames(ast: any, resolveImport: (specifier: string) => string | undefined): Map<string, CallSite['calleeImport']> {
+  const names = new Map<string, CallSite['calleeImport']>();
+
+  ast.body.forEach((statement: any) => {
+    if (statement.type === AST_NODE_TYPES.ImportDeclaration) {
+      if (!resolveImport(statement.source.value)) return;
+      statement.specifiers
+        .filter((specifier: any) => specifier.type === AST_NODE_TYPES.ImportSpecifier)
+        .forEach((specifier: any) => names.set(specifier.local.name, {
+          from: statement.source.value,
+          name: specifier.imported.name ?? specifier.imported.value
+        }));
+      return;
+    }
+
+    const node = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ? statement.declaration : statement;
+    if ((node?.type === AST_NODE_TYPES.FunctionDeclaration || node?.type === AST_NODE_TYPES.ClassDeclaration) && node.id) {
+      names.set(node.id.name, undefined);
+    } else if (node?.type === AST_NODE_TYPES.VariableDeclaration) {
+      node.declarations
+        .filter((decl: any) => decl.init?.type === AST_NODE_TYPES.ArrowFunctionExpression ||
+          decl.init?.type === AST_NODE_TYPES.FunctionExpression)
+        .forEach((decl: any) => names.set(decl.id.name, undefined));
+    }
+  });
+
+  return names;
+}
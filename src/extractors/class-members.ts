@@ -0,0 +1,87 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractMethods, extractPropertyInfo, getTypeString, isFieldMethodMember, isMethodMember, isPropertyMember } from '../ast-utils.js';
+import { ClassHeritage } from '../knowledge-graph.js';
+import { collectBindingMember } from './component-bindings.js';
+import { ExtractionContext } from './extractor.js';
+
+// Collects the members of a class body into whichever of inputs/outputs/queries/properties/
+// methods/staticMethods the target entity declares. Members with a computed key (`[name]()`)
+// have no name to record and are reported instead.
+export function collectClassMembers(classNode: any, target: any, source: string, report: ExtractionContext['report']): void {
+  const members = classNode.body.body.filter((member: any) => {
+    if (member.computed) {
+      report(member, 'unsupported', `Member of ${target.name} has a computed key`);
+    }
+    return !member.computed;
+  });
+
+  members.forEach((member: any) => {
+    if ('inputs' in target && (isPropertyMember(member) || member.kind === 'set')) {
+      collectBindingMember(member, target);
+    }
+
+    if (isPropertyMember(member) && !isFieldMethodMember(member) && 'properties' in target) {
+      target.properties.push(extractPropertyInfo(member, source));
+    }
+  });
+
+  extractMethods(members, source).forEach(methodInfo => {
+    if (methodInfo.isStatic && 'staticMethods' in target) {
+      target.staticMethods.push(methodInfo);
+    } else if ('methods' in target) {
+      target.methods.push(methodInfo);
+    }
+  });
+}
+
+// Records `class X<T> extends Base<T>` so inherited members can be flattened in later, with the
+// import the base class comes from so it can be told apart from classes of the same name
+export function collectClassHeritage(classNode: any, target: ClassHeritage, ast: any, source?: string): void {
+  const typeParameters = classNode.typeParameters?.params?.map((param: any) => param.name.name);
+  if (typeParameters?.length) {
+    target.typeParameters = typeParameters;
+  }
+
+  if (classNode.superClass?.type === AST_NODE_TYPES.Identifier) {
+    target.extends = classNode.superClass.name;
+    target.extendsImport = findImport(ast, classNode.superClass.name);
+
+    const typeArguments = (classNode.superTypeArguments || classNode.superTypeParameters)?.params;
+    if (typeArguments?.length) {
+      target.extendsTypeArguments = typeArguments.map((arg: any) => getTypeString(arg, source) ?? 'unknown');
+    }
+  }
+}
+
+// `import { Base } from './base'`, `import { Base as B } ...` or `import Base from ...`
+function findImport(ast: any, localName: string): ClassHeritage['extendsImport'] {
+  for (const statement of ast.body) {
+    if (statement.type !== AST_NODE_TYPES.ImportDeclaration) continue;
+
+    const specifier = statement.specifiers.find((spec: any) => spec.local.name === localName);
+    if (specifier?.type === AST_NODE_TYPES.ImportSpecifier) {
+      return { from: statement.source.value, name: specifier.imported.name ?? specifier.imported.value };
+    }
+    if (specifier?.type === AST_NODE_TYPES.ImportDefaultSpecifier) {
+      return { from: statement.source.value, name: 'default' };
+    }
+  }
+  return undefined;
+}
+
+export function getConstructorDependencies(classNode: any): string[] {
+  const constructor = classNode.body.body.find((member: any) =>
+    isMethodMember(member) && member.key?.name === 'constructor'
+  );
+
+  const dependencies: string[] = [];
+  constructor?.value?.params?.forEach((param: any) => {
+    // Parameter properties (`private auth: AuthService`) wrap the identifier
+    const identifier = param.parameter || param;
+    const typeName = identifier.typeAnnotation?.typeAnnotation?.typeName?.name;
+    if (typeName) {
+      dependencies.push(typeName);
+    }
+  });
+  return dependencies;
+}
@@ -0,0 +1,139 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findObjectProperty, getTypeString } from '../ast-utils.js';
+import { InputInfo, OutputInfo, QueryInfo } from '../knowledge-graph.js';
+
+// Entities with template bindings (components and directives)
+interface BindingTarget {
+  inputs: string[];
+  outputs: string[];
+  inputDetails?: InputInfo[];
+  outputDetails?: OutputInfo[];
+  queries?: QueryInfo[];
+}
+
+const QUERY_KINDS: QueryInfo['kind'][] = ['viewChild', 'viewChildren', 'contentChild', 'contentChildren'];
+
+// Records a class member that is an input, output or query, declared either with a decorator
+// (`@Input()`, `@ViewChild()`) or with a signal function (`input()`, `model()`, `viewChild()`)
+export function collectBindingMember(member: any, target: BindingTarget): void {
+  const name = member.key?.name;
+  if (!name) return;
+
+  member.decorators?.forEach((decorator: any) => {
+    const decoratorName = decorator.expression?.callee?.name;
+    const args = decorator.expression?.arguments || [];
+    const type = getTypeString(member.typeAnnotation?.typeAnnotation ?? member.value?.params?.[0]?.typeAnnotation?.typeAnnotation);
+
+    if (decoratorName === 'Input') {
+      // @Input('alias') or @Input({ alias, required })
+      const options = args[0]?.type === AST_NODE_TYPES.ObjectExpression ? args[0] : undefined;
+      addInput(target, {
+        name,
+        alias: options ? getStringOption(options, 'alias') : args[0]?.value,
+        type,
+        required: findObjectProperty(options, 'required')?.value?.value === true,
+        signal: false,
+        model: false
+      });
+    } else if (decoratorName === 'Output') {
+      addOutput(target, { name, alias: args[0]?.value, type: getEmitterType(member.value), signal: false });
+    } else if (QUERY_KINDS.includes(lowerFirst(decoratorName) as QueryInfo['kind'])) {
+      addQuery(target, {
+        name,
+        kind: lowerFirst(decoratorName) as QueryInfo['kind'],
+        locator: getLocator(args[0]),
+        type,
+        required: false,
+        signal: false
+      });
+    }
+  });
+
+  const signalCall = getSignalCall(member.value);
+  if (!signalCall) return;
+
+  const { api, required, call } = signalCall;
+  const typeArgument = getTypeString((call.typeArguments || call.typeParameters)?.params?.[0]);
+
+  switch (api) {
+    case 'input':
+    case 'model': {
+      // input(initial, options) vs input.required(options)
+      const options = required ? call.arguments[0] : call.arguments[1];
+      const alias = getStringOption(options, 'alias');
+      addInput(target, { name, alias, type: typeArgument, required, signal: true, model: api === 'model' });
+      if (api === 'model') {
+        addOutput(target, { name: `${name}Change`, alias: alias && `${alias}Change`, type: typeArgument, signal: true });
+      }
+      break;
+    }
+    case 'output':
+      addOutput(target, { name, alias: getStringOption(call.arguments[0], 'alias'), type: typeArgument, signal: true });
+      break;
+    case 'outputFromObservable':
+      addOutput(target, { name, alias: getStringOption(call.arguments[1], 'alias'), type: typeArgument, signal: true });
+      break;
+    default:
+      if (QUERY_KINDS.includes(api as QueryInfo['kind'])) {
+        addQuery(target, {
+          name,
+          kind: api as QueryInfo['kind'],
+          locator: getLocator(call.arguments[0]),
+          type: typeArgument ?? (call.arguments[0]?.type === AST_NODE_TYPES.Identifier ? call.arguments[0].name : undefined),
+          required,
+          signal: true
+        });
+      }
+  }
+}
+
+// `input()` -> { api: 'input' }, `input.required<T>()` -> { api: 'input', required: true }
+function getSignalCall(value: any): { api: string; required: boolean; call: any } | undefined {
+  if (value?.type !== AST_NODE_TYPES.CallExpression) return undefined;
+
+  const callee = value.callee;
+  if (callee.type === AST_NODE_TYPES.Identifier) {
+    return { api: callee.name, required: false, call: value };
+  }
+  if (callee.type === AST_NODE_TYPES.MemberExpression &&
+      callee.object.type === AST_NODE_TYPES.Identifier &&
+      callee.property.name === 'required') {
+    return { api: callee.object.name, required: true, call: value };
+  }
+  return undefined;
+}
+
+// Query locators are a class reference or a template reference name
+function getLocator(arg: any): string | undefined {
+  if (!arg) return undefined;
+  return arg.type === AST_NODE_TYPES.Identifier ? arg.name : arg.value;
+}
+
+// `new EventEmitter<T>()` -> T
+function getEmitterType(value: any): string | undefined {
+  if (value?.type !== AST_NODE_TYPES.NewExpression) return undefined;
+  return getTypeString((value.typeArguments || value.typeParameters)?.params?.[0]);
+}
+
+function getStringOption(options: any, name: string): string | undefined {
+  const value = findObjectProperty(options, name)?.value?.value;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function lowerFirst(name?: string): string {
+  return name ? name.charAt(0).toLowerCase() + name.slice(1) : '';
+}
+
+function addInput(target: BindingTarget, input: InputInfo): void {
+  target.inputs.push(input.name);
+  target.inputDetails?.push(input);
+}
+
+function addOutput(target: BindingTarget, output: OutputInfo): void {
+  target.outputs.push(output.name);
+  target.outputDetails?.push(output);
+}
+
+function addQuery(target: BindingTarget, query: QueryInfo): void {
+  target.queries?.push(query);
+}
@@ -0,0 +1,109 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findDecorator, findObjectProperty, getDecoratorMetadata } from '../ast-utils.js';
+import { AngularComponent } from '../knowledge-graph.js';
+import { parseComponentTemplate } from '../template-parser.js';
+import { CodebaseExtractor, ExtractionContext } from './extractor.js';
+import { collectClassHeritage, collectClassMembers } from './class-members.js';
+
+export const componentExtractor: CodebaseExtractor = {
+  name: 'components',
+
+  visit(context) {
+    const { ast, content, filePath, graph } = context;
+
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        const componentDecorator = findDecorator(node, 'Component');
+        if (!componentDecorator) return;
+        if (!node.id) {
+          context.report(node, 'skipped', 'Anonymous @Component class');
+          return;
+        }
+
+        const component: AngularComponent = {
+          name: node.id.name,
+          inputs: [],
+          outputs: [],
+          inputDetails: [],
+          outputDetails: [],
+          queries: [],
+          methods: [],
+          properties: [],
+          staticMethods: [],
+          filePath
+        };
+
+        const metadata = getDecoratorMetadata(componentDecorator);
+        if (metadata) {
+          extractComponentMetadata(metadata, component);
+          extractComponentTemplate(metadata, component, context);
+        } else if (componentDecorator.expression?.arguments?.length) {
+          context.report(componentDecorator, 'unsupported', `@Component metadata of ${component.name} is not an object literal`);
+        }
+
+        collectClassHeritage(node, component, ast, content);
+        collectClassMembers(node, component, content, context.report);
+        graph.components.push(component);
+      }
+    };
+  }
+};
+
+// Parses the inline `template:` or the file behind templateUrl
+function extractComponentTemplate(metadata: any, component: AngularComponent, context: ExtractionContext): void {
+  const templateProp = findObjectProperty(metadata, 'template');
+  const inlineTemplate = templateProp?.value?.type === AST_NODE_TYPES.TemplateLiteral
+    ? templateProp.value.quasis.map((quasi: any) => quasi.value.cooked).join('')
+    : templateProp?.value?.value;
+
+  if (templateProp && typeof inlineTemplate !== 'string') {
+    context.report(templateProp, 'unsupported', `Template of ${component.name} is built at runtime`);
+    return;
+  }
+
+  const template = typeof inlineTemplate === 'string'
+    ? inlineTemplate
+    : component.templateUrl && context.readResource(component.templateUrl);
+  if (template === undefined) {
+    if (component.templateUrl) {
+      context.report(findObjectProperty(metadata, 'templateUrl'), 'skipped', `Template ${component.templateUrl} of ${component.name} not found`);
+    }
+    return;
+  }
+
+  component.template = parseComponentTemplate(template, typeof inlineTemplate === 'string' ? undefined : component.templateUrl);
+}
+
+function extractComponentMetadata(metadata: any, component: AngularComponent): void {
+  metadata.properties.forEach((prop: any) => {
+    switch (prop.key?.name) {
+      case 'selector':
+        component.selector = prop.value?.value;
+        break;
+      case 'templateUrl':
+        component.templateUrl = prop.value?.value;
+        break;
+      case 'styleUrls':
+        if (prop.value?.elements) {
+          component.styleUrls = prop.value.elements.map((e: any) => e.value);
+        }
+        break;
+      case 'styleUrl':
+        component.styleUrls = [prop.value?.value];
+        break;
+      case 'standalone':
+        component.standalone = prop.value?.value;
+        break;
+      case 'imports':
+        if (prop.value?.elements) {
+          component.imports = prop.value.elements.map((e: any) => e.name).filter(Boolean);
+        }
+        break;
+      case 'providers':
+        if (prop.value?.elements) {
+          component.providers = prop.value.elements.map((e: any) => e.name).filter(Boolean);
+        }
+        break;
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findDecorator, findObjectProperty, getDecoratorMetadata } from '../ast-utils.js';
+import { AngularDirective } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+import { collectClassMembers } from './class-members.js';
+
+export const directiveExtractor: CodebaseExtractor = {
+  name: 'directives',
+
+  visit({ content, filePath, graph, report }) {
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        const directiveDecorator = findDecorator(node, 'Directive');
+        if (!directiveDecorator) return;
+        if (!node.id) {
+          report(node, 'skipped', 'Anonymous @Directive class');
+          return;
+        }
+
+        const metadata = getDecoratorMetadata(directiveDecorator);
+        if (!metadata && directiveDecorator.expression?.arguments?.length) {
+          report(directiveDecorator, 'unsupported', `@Directive metadata of ${node.id.name} is not an object literal`);
+        }
+        const directive: AngularDirective = {
+          name: node.id.name,
+          selector: findObjectProperty(metadata, 'selector')?.value?.value,
+          standalone: findObjectProperty(metadata, 'standalone')?.value?.value,
+          inputs: [],
+          outputs: [],
+          inputDetails: [],
+          outputDetails: [],
+          queries: [],
+          methods: [],
+          filePath
+        };
+
+        collectClassMembers(node, directive, content, report);
+        graph.directives.push(directive);
+      }
+    };
+  }
+};
@@ -0,0 +1,18 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { CodebaseExtractor } from './extractor.js';
+
+export const enumExtractor: CodebaseExtractor = {
+  name: 'enums',
+
+  visit({ filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.TSEnumDeclaration]: (node: any) => {
+        graph.enums.push({
+          name: node.id.name,
+          members: node.members.map((member: any) => member.id.name ?? member.id.value),
+          filePath
+        });
+      }
+    };
+  }
+};
@@ -0,0 +1,118 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { EnvironmentFile, EnvironmentKey } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+// src/environments/environment.ts, environment.prod.ts, environment.development.ts, ...
+const ENVIRONMENT_FILE = /[\\/]environments[\\/]environment(?:\.([\w-]+))?\.ts$/;
+
+// Records the key tree of the environment objects Angular swaps per build configuration
+export const environmentExtractor: CodebaseExtractor = {
+  name: 'environments',
+
+  extract({ ast, filePath, graph }) {
+    const match = filePath.match(ENVIRONMENT_FILE);
+    if (!match) return;
+
+    const localObjects = new Map<string, any>();
+    ast.body.forEach((statement: any) => {
+      const declaration = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ? statement.declaration : statement;
+      if (declaration?.type !== AST_NODE_TYPES.VariableDeclaration) return;
+
+      declaration.declarations.forEach((decl: any) => {
+        const init = unwrapExpression(decl.init);
+        if (decl.id.type === AST_NODE_TYPES.Identifier && init?.type === AST_NODE_TYPES.ObjectExpression) {
+          localObjects.set(decl.id.name, init);
+        }
+      });
+    });
+
+    ast.body
+      .filter((statement: any) => statement.type === AST_NODE_TYPES.ExportNamedDeclaration &&
+        statement.declaration?.type === AST_NODE_TYPES.VariableDeclaration)
+      .flatMap((statement: any) => statement.declaration.declarations)
+      .filter((decl: any) => localObjects.has(decl.id.name))
+      .forEach((decl: any) => {
+        const environment: EnvironmentFile = {
+          variant: match[1] ?? 'default',
+          variable: decl.id.name,
+          keys: [],
+          filePath
+        };
+
+        collectKeys(localObjects.get(decl.id.name), '', environment, localObjects);
+        graph.environments.push(environment);
+      });
+  }
+};
+
+// Walks an object literal into dotted key paths. Spreads of objects declared in the same file
+// are inlined; imported ones are only named in `spreads`.
+function collectKeys(object: any, prefix: string, environment: EnvironmentFile, localObjects: Map<string, any>, seen = new Set<any>()): void {
+  if (seen.has(object)) return;
+  seen.add(object);
+
+  object.properties.forEach((prop: any) => {
+    if (prop.type === AST_NODE_TYPES.SpreadElement) {
+      const spread = prop.argument.type === AST_NODE_TYPES.Identifier ? localObjects.get(prop.argument.name) : undefined;
+      if (spread) {
+        collectKeys(spread, prefix, environment, localObjects, seen);
+      } else {
+        environment.spreads = [...(environment.spreads || []), `${prefix}${getSourceName(prop.argument)}`];
+      }
+      return;
+    }
+
+    const key = prop.key?.name ?? prop.key?.value;
+    if (prop.computed || key === undefined) return;
+
+    const path = `${prefix}${key}`;
+    let value = unwrapExpression(prop.value);
+    if (value?.type === AST_NODE_TYPES.Identifier && localObjects.has(value.name)) {
+      value = localObjects.get(value.name);
+    }
+
+    // A key defined twice (e.g. after a spread) keeps one entry with the last value's type
+    environment.keys = environment.keys.filter(existing => existing.path !== path);
+    environment.keys.push({ path, type: getValueType(value) });
+
+    if (value?.type === AST_NODE_TYPES.ObjectExpression) {
+      collectKeys(value, `${path}.`, environment, localObjects, seen);
+    }
+  });
+
+  // Only objects on the current path count as cycles; siblings may spread the same object
+  seen.delete(object);
+}
+
+function getValueType(node: any): EnvironmentKey['type'] {
+  switch (node?.type) {
+    case AST_NODE_TYPES.Literal:
+      return typeof node.value === 'string' || typeof node.value === 'number' || typeof node.value === 'boolean'
+        ? typeof node.value as EnvironmentKey['type']
+        : 'unknown';
+    case AST_NODE_TYPES.TemplateLiteral:
+      return 'string';
+    case AST_NODE_TYPES.UnaryExpression:
+      return node.operator === '!' ? 'boolean' : 'number';
+    case AST_NODE_TYPES.ObjectExpression:
+      return 'object';
+    case AST_NODE_TYPES.ArrayExpression:
+      return 'array';
+    default:
+      return 'unknown';
+  }
+}
+
+function getSourceName(node: any): string {
+  if (node.type === AST_NODE_TYPES.Identifier) return node.name;
+  if (node.type === AST_NODE_TYPES.MemberExpression) return `${getSourceName(node.object)}.${node.property?.name}`;
+  return '(expression)';
+}
+
+// `{ ... } as const` / `{ ... } satisfies Environment`
+function unwrapExpression(node: any): any {
+  if (node?.type === AST_NODE_TYPES.TSAsExpression || node?.type === AST_NODE_TYPES.TSSatisfiesExpression) {
+    return unwrapExpression(node.expression);
+  }
+  return node;
+}
@@ -0,0 +1,40 @@
+import { KnowledgeGraph, ParseDiagnostic } from '../knowledge-graph.js';
+
+export interface ExtractionContext {
+  filePath: string;
+  content: string;
+  ast: any;
+  // Fragment for the file being parsed; extractors push the entities they find into it
+  graph: KnowledgeGraph;
+  // Reads a file referenced by the source (templateUrl, styleUrls), relative to it. Files read
+  // this way are tracked so the source is re-parsed when they change. Undefined if missing.
+  readResource(relativePath: string): string | undefined;
+  // Source file a module specifier resolves to, following tsconfig `paths`; undefined for
+  // packages in node_modules and specifiers that do not resolve
+  resolveImport(specifier: string): string | undefined;
+  // Records a construct the extractor cannot represent, or an entity it had to leave out, as a
+  // parse diagnostic at the node's position
+  report(node: any, kind: Extract<ParseDiagnostic['kind'], 'unsupported' | 'skipped'>, message: string): void;
+}
+
+// Handlers by AST node type, e.g. { [AST_NODE_TYPES.ClassDeclaration]: node => ... }, called with
+// the node and its parent. A handler under `<type>:exit` runs once the node's children have been
+// visited; `Program:exit` runs after the whole file, for references declared further down.
+export type NodeVisitors = { [nodeType: string]: (node: any, parent: any) => void };
+
+// Key of the handler that runs when the walk leaves nodes of a type
+export function exitVisitor(nodeType: string): string {
+  return `${nodeType}:exit`;
+}
+
+// An extractor plugin recognises one family of entities (components, routes, ...) in a parsed file.
+// Register custom extractors with CodebaseParser.registerExtractor().
+export interface CodebaseExtractor {
+  name: string;
+  // Node handlers for the single walk the parser makes over each file. Every extractor's handlers
+  // run during that walk, before any extract().
+  visit?(context: ExtractionContext): NodeVisitors;
+  // Whole-file extraction, for extractors that only read the top-level statements; runs in
+  // registration order after the walk
+  extract?(context: ExtractionContext): void;
+}
@@ -0,0 +1,225 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getSourceRange, getTypeString } from '../ast-utils.js';
+import { FirestoreCollectionRef } from '../knowledge-graph.js';
+import { CodebaseExtractor, exitVisitor } from './extractor.js';
+
+type FirestoreAccessor = FirestoreCollectionRef['accessors'][number];
+
+const ACCESSORS: FirestoreAccessor[] = ['collection', 'doc', 'collectionGroup'];
+
+// Type arguments that say nothing about the document shape
+const UNTYPED_DOCUMENTS = ['any', 'unknown', 'DocumentData'];
+
+// Placeholder for every document id segment of a collection path
+const DOCUMENT_ID = '{id}';
+
+// Class properties that name the collection a (usually generic base) service works on
+const COLLECTION_NAME_PROPERTY = /^collection(Name|Path)?$/;
+
+// Finds Firestore collection references in a parsed file: modular `collection(db, 'x')`,
+// `doc(db, 'x/id')`, `collectionGroup(db, 'x')`, admin/compat `db.collection('x').doc(id)
+// .collection('y')` chains and `collectionName = 'x'` properties on services. Document ids
+// become `{id}` placeholders, e.g. `projects/{id}/tasks`. References are
+// resolved once the whole file is visited, as the constants and converters they use are often
+// declared further down (class fields after the methods that read them).
+export const firestoreExtractor: CodebaseExtractor = {
+  name: 'firestoreCollections',
+
+  visit({ filePath, graph }) {
+    // `const PROJECTS = 'projects'` and `private readonly path = 'projects'` in the same file
+    const constants = new Map<string, string>();
+    // `const projectConverter: FirestoreDataConverter<Project> = {...}` -> projectConverter: Project
+    const converterTypes = new Map<string, string>();
+    const refs = new Map<string, Omit<FirestoreCollectionRef, 'filePath'>>();
+    const pending: Array<() => void> = [];
+
+    // A collection referenced several times is located at its first reference
+    const addRef = (node: any, segments: string[], accessor: FirestoreAccessor, documentType?: string) => {
+      // A document path's collection is everything but the last (document id) segment
+      const collectionSegments = accessor === 'doc' && segments.length % 2 === 0 ? segments.slice(0, -1) : segments;
+      if (collectionSegments.length === 0 || collectionSegments.every(segment => segment.startsWith('{'))) return;
+
+      // Document ids, literal or not, are all `{id}`: `projects/{projectId}/tasks`,
+      // `projects/{id}/tasks` and `projects/demo/tasks` are the same collection
+      const path = collectionSegments.map((segment, index) => index % 2 === 1 ? DOCUMENT_ID : segment).join('/');
+      const key = `${accessor === 'collectionGroup' ? 'group:' : ''}${path}`;
+      const ref = refs.get(key) ?? {
+        path,
+        collectionId: collectionSegments[collectionSegments.length - 1],
+        parentPath: collectionSegments.length > 1 ? path.slice(0, path.lastIndexOf('/')) : undefined,
+        group: accessor === 'collectionGroup',
+        accessors: [],
+        location: getSourceRange(node)
+      };
+      if (!ref.accessors.includes(accessor)) {
+        ref.accessors.push(accessor);
+      }
+      if (documentType && !UNTYPED_DOCUMENTS.includes(documentType)) {
+        ref.documentType = ref.documentType ?? documentType;
+      }
+      refs.set(key, ref);
+    };
+
+    const addCallRefs = (node: any, parent: any) => {
+      const reference = getReferencePath(node, constants);
+      if (reference) {
+        addRef(node, reference.segments, reference.accessor, getDocumentType(node, parent));
+      }
+
+      // collection(db, 'projects').withConverter(projectConverter) - the wrapped reference is
+      // visited afterwards and keeps the converted type
+      if (node.callee.property?.name === 'withConverter' && isReferenceCall(node.callee.object)) {
+        const wrapped = getReferencePath(node.callee.object, constants);
+        const typeArguments = node.typeArguments || node.typeParameters;
+        const documentType = typeArguments?.params?.length
+          ? getTypeString(typeArguments.params[0])
+          : converterTypes.get(node.arguments[0]?.name);
+        if (wrapped) {
+          addRef(node.callee.object, wrapped.segments, wrapped.accessor, documentType);
+        }
+      }
+    };
+
+    // class ProjectService extends BaseFirestoreService<Project> { collectionName = 'projects' }
+    const addClassRefs = (node: any) => {
+      node.body.body.forEach((member: any) => {
+        if (member.type === AST_NODE_TYPES.PropertyDefinition &&
+            COLLECTION_NAME_PROPERTY.test(member.key?.name) &&
+            typeof member.value?.value === 'string' && member.value.value) {
+          const typeArguments = node.superTypeArguments || node.superTypeParameters;
+          addRef(member, member.value.value.split('/'), 'collection', getTypeString(typeArguments?.params?.[0]));
+        }
+      });
+    };
+
+    return {
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        if (node.id.type !== AST_NODE_TYPES.Identifier) return;
+        if (typeof node.init?.value === 'string') {
+          constants.set(node.id.name, node.init.value);
+        }
+
+        const annotation = node.id.typeAnnotation?.typeAnnotation;
+        const documentType = annotation?.typeName?.name === 'FirestoreDataConverter' ? getFirstTypeArgument(annotation) : undefined;
+        if (documentType) {
+          converterTypes.set(node.id.name, documentType);
+        }
+      },
+      [AST_NODE_TYPES.PropertyDefinition]: (node: any) => {
+        if (node.key?.name && typeof node.value?.value === 'string') {
+          constants.set(`this.${node.key.name}`, node.value.value);
+        }
+      },
+      [AST_NODE_TYPES.CallExpression]: (node: any, parent: any) => pending.push(() => addCallRefs(node, parent)),
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => pending.push(() => addClassRefs(node)),
+      [exitVisitor(AST_NODE_TYPES.Program)]: () => {
+        pending.forEach(resolveRefs => resolveRefs());
+        refs.forEach(ref => graph.firestoreCollections.push({ ...ref, filePath }));
+      }
+    };
+  }
+};
+
+function getReferencePath(node: any, constants: Map<string, string>): { segments: string[]; accessor: FirestoreAccessor } | undefined {
+  const callee = node.callee;
+
+  // Modular SDK: collection(db, 'a', id, 'b'), doc(collectionRef, id), collectionGroup(db, 'b')
+  if (callee.type === AST_NODE_TYPES.Identifier && ACCESSORS.includes(callee.name)) {
+    const [base, ...pathArgs] = node.arguments;
+    if (pathArgs.length === 0 && callee.name !== 'doc') return undefined;
+    if (!pathArgs.some((arg: any) => isPathLiteral(arg, constants)) && !isReferenceCall(base)) return undefined;
+
+    const prefix = isReferenceCall(base) ? getReferencePath(base, constants)?.segments ?? [] : [];
+    return { segments: [...prefix, ...getSegments(pathArgs, constants)], accessor: callee.name };
+  }
+
+  // Admin / compat SDK: db.collection('a').doc(id).collection('b')
+  if (callee.type === AST_NODE_TYPES.MemberExpression && ACCESSORS.includes(callee.property?.name)) {
+    const accessor = callee.property.name as FirestoreAccessor;
+    const prefix = isReferenceCall(callee.object) ? getReferencePath(callee.object, constants)?.segments : [];
+    if (!prefix) return undefined;
+    if (prefix.length === 0 && !node.arguments.some((arg: any) => isPathLiteral(arg, constants))) return undefined;
+
+    // .doc() without an id creates a document with a generated id
+    const pathArgs = node.arguments.length > 0 ? getSegments(node.arguments, constants) : ['{autoId}'];
+    return { segments: [...prefix, ...pathArgs], accessor };
+  }
+
+  return undefined;
+}
+
+function isReferenceCall(node: any): boolean {
+  if (node?.type !== AST_NODE_TYPES.CallExpression) return false;
+  const name = node.callee.type === AST_NODE_TYPES.Identifier ? node.callee.name : node.callee.property?.name;
+  return ACCESSORS.includes(name);
+}
+
+function isPathLiteral(arg: any, constants: Map<string, string>): boolean {
+  return typeof arg?.value === 'string' ||
+    arg?.type === AST_NODE_TYPES.TemplateLiteral ||
+    constants.has(getConstantKey(arg) ?? '');
+}
+
+function getSegments(args: any[], constants: Map<string, string>): string[] {
+  return args.flatMap(arg => {
+    if (typeof arg.value === 'string') return arg.value.split('/').filter(Boolean);
+
+    if (arg.type === AST_NODE_TYPES.TemplateLiteral) {
+      const path = arg.quasis.map((quasi: any, i: number) => {
+        const expression = arg.expressions[i];
+        return quasi.value.cooked + (expression ? `{${getPlaceholderName(expression)}}` : '');
+      }).join('');
+      return path.split('/').filter(Boolean);
+    }
+
+    const constant = constants.get(getConstantKey(arg) ?? '');
+    if (constant) return constant.split('/').filter(Boolean);
+
+    return [`{${getPlaceholderName(arg)}}`];
+  });
+}
+
+// `projectId` / `this.projectId` -> projectId, `task.id` -> taskId
+function getPlaceholderName(node: any): string {
+  if (node.type === AST_NODE_TYPES.Identifier) return node.name;
+  if (node.type === AST_NODE_TYPES.MemberExpression) {
+    if (node.property?.name === 'id' && node.object.type === AST_NODE_TYPES.Identifier) {
+      return `${node.object.name}Id`;
+    }
+    return node.property?.name ?? 'id';
+  }
+  return 'id';
+}
+
+// Constants are looked up as `NAME` or `this.name`
+function getConstantKey(node: any): string | undefined {
+  if (node?.type === AST_NODE_TYPES.Identifier) return node.name;
+  if (node?.type === AST_NODE_TYPES.MemberExpression && node.object.type === AST_NODE_TYPES.ThisExpression) {
+    return `this.${node.property?.name}`;
+  }
+  return undefined;
+}
+
+// The document interface from `collection<T>()`, `... as CollectionReference<T>` or
+// `const ref: CollectionReference<T> = ...`
+function getDocumentType(node: any, parent: any): string | undefined {
+  const typeArguments = node.typeArguments || node.typeParameters;
+  if (typeArguments?.params?.length) {
+    return getTypeString(typeArguments.params[0]);
+  }
+
+  if (parent?.type === AST_NODE_TYPES.TSAsExpression) {
+    return getFirstTypeArgument(parent.typeAnnotation);
+  }
+
+  if (parent?.type === AST_NODE_TYPES.VariableDeclarator) {
+    return getFirstTypeArgument(parent.id.typeAnnotation?.typeAnnotation);
+  }
+
+  return undefined;
+}
+
+function getFirstTypeArgument(typeNode: any): string | undefined {
+  const typeArguments = typeNode?.typeArguments || typeNode?.typeParameters;
+  return typeArguments?.params?.length ? getTypeString(typeArguments.params[0]) : undefined;
+}
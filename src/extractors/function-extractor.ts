@@ -0,0 +1,50 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractParameters, getTypeString } from '../ast-utils.js';
+import { UtilityFunction } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+const FUNCTION_INITIALIZERS = [
+  AST_NODE_TYPES.ArrowFunctionExpression,
+  AST_NODE_TYPES.FunctionExpression
+];
+
+// Top-level function declarations and `const fn = () => ...` helpers. Functional guards, resolvers
+// and interceptors are left to their own extractors, whose handlers have run by now.
+export const functionExtractor: CodebaseExtractor = {
+  name: 'utilityFunctions',
+
+  extract({ ast, content, filePath, graph }) {
+    const routerFunctions = new Set([...graph.guards, ...graph.resolvers, ...graph.interceptors]
+      .filter(entity => entity.type === 'function')
+      .map(entity => entity.name));
+
+    ast.body.forEach((statement: any) => {
+      const exported = statement.type === AST_NODE_TYPES.ExportNamedDeclaration;
+      const node = exported ? statement.declaration : statement;
+      if (!node) return;
+
+      if (node.type === AST_NODE_TYPES.FunctionDeclaration && node.id) {
+        if (!routerFunctions.has(node.id.name)) {
+          graph.utilityFunctions.push(createFunctionInfo(node.id.name, node, exported, filePath, content));
+        }
+      } else if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+        node.declarations.forEach((decl: any) => {
+          if (decl.id?.name && FUNCTION_INITIALIZERS.includes(decl.init?.type) && !routerFunctions.has(decl.id.name)) {
+            graph.utilityFunctions.push(createFunctionInfo(decl.id.name, decl.init, exported, filePath, content));
+          }
+        });
+      }
+    });
+  }
+};
+
+function createFunctionInfo(name: string, fn: any, exported: boolean, filePath: string, source: string): UtilityFunction {
+  return {
+    name,
+    parameters: extractParameters(fn.params, source),
+    returnType: getTypeString(fn.returnType?.typeAnnotation, source),
+    isAsync: fn.async || false,
+    isExported: exported,
+    filePath
+  };
+}
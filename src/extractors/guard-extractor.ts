@@ -0,0 +1,66 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractMethods, getTypedFunctionDeclarations } from '../ast-utils.js';
+import { AngularGuard, GuardKind } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+const GUARD_INTERFACES = ['CanActivate', 'CanActivateChild', 'CanDeactivate', 'CanLoad', 'CanMatch'];
+
+export const guardExtractor: CodebaseExtractor = {
+  name: 'guards',
+
+  visit({ content, filePath, graph }) {
+    // Function-based guards: export const authGuard: CanActivateFn = ..., and guard factories
+    const visitFunction = (node: any) => {
+      getTypedFunctionDeclarations(node).forEach(({ name, typeName, factory }) => {
+        const guardInterface = GUARD_INTERFACES.find(g => typeName.startsWith(`${g}Fn`));
+        if (guardInterface) {
+          graph.guards.push({
+            name,
+            type: 'function',
+            guardType: typeName,
+            kinds: [toGuardKind(guardInterface)],
+            ...(factory && { factory }),
+            filePath
+          });
+        }
+      });
+    };
+
+    return {
+      [AST_NODE_TYPES.VariableDeclaration]: visitFunction,
+      [AST_NODE_TYPES.FunctionDeclaration]: visitFunction,
+      // Class-based guards
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.id) return;
+
+        const guardInterfaces = (node.implements || [])
+          .map((impl: any) => impl.expression?.name)
+          .filter((name: string) => GUARD_INTERFACES.includes(name));
+
+        if (guardInterfaces.length > 0 || (node.id.name.endsWith('Guard') && content.includes('canActivate'))) {
+          const methods = extractMethods(node.body.body, content);
+
+          // Guards that do not declare their interfaces are known by their methods
+          const kinds = guardInterfaces.length > 0
+            ? guardInterfaces.map(toGuardKind)
+            : GUARD_INTERFACES.map(toGuardKind).filter(kind => methods.some((method: any) => method.name === kind));
+
+          const guard: AngularGuard = {
+            name: node.id.name,
+            type: 'class',
+            guardType: guardInterfaces[0],
+            kinds,
+            methods,
+            filePath
+          };
+          graph.guards.push(guard);
+        }
+      }
+    };
+  }
+};
+
+// CanActivate -> canActivate
+function toGuardKind(guardInterface: string): GuardKind {
+  return (guardInterface[0].toLowerCase() + guardInterface.slice(1)) as GuardKind;
+}
@@ -0,0 +1,52 @@
+import { CodebaseExtractor } from './extractor.js';
+import { componentExtractor } from './component-extractor.js';
+import { serviceExtractor } from './service-extractor.js';
+import { directiveExtractor } from './directive-extractor.js';
+import { pipeExtractor } from './pipe-extractor.js';
+import { guardExtractor } from './guard-extractor.js';
+import { resolverExtractor } from './resolver-extractor.js';
+import { interceptorExtractor } from './interceptor-extractor.js';
+import { interfaceExtractor } from './interface-extractor.js';
+import { modelExtractor } from './model-extractor.js';
+import { typeExtractor } from './type-extractor.js';
+import { enumExtractor } from './enum-extractor.js';
+import { functionExtractor } from './function-extractor.js';
+import { abstractClassExtractor } from './abstract-class-extractor.js';
+import { providerExtractor } from './provider-extractor.js';
+import { injectionExtractor } from './injection-extractor.js';
+import { routeExtractor } from './route-extractor.js';
+import { moduleExtractor } from './module-extractor.js';
+import { firestoreExtractor } from './firestore-extractor.js';
+import { ngrxExtractor } from './ngrx-extractor.js';
+import { environmentExtractor } from './environment-extractor.js';
+import { localizeExtractor } from './localize-extractor.js';
+import { signalStoreExtractor } from './signal-store-extractor.js';
+import { callSiteExtractor } from './call-site-extractor.js';
+
+export { CodebaseExtractor, ExtractionContext, NodeVisitors, exitVisitor } from './extractor.js';
+
+export const DEFAULT_EXTRACTORS: CodebaseExtractor[] = [
+  componentExtractor,
+  serviceExtractor,
+  directiveExtractor,
+  pipeExtractor,
+  guardExtractor,
+  resolverExtractor,
+  interceptorExtractor,
+  interfaceExtractor,
+  modelExtractor,
+  typeExtractor,
+  enumExtractor,
+  functionExtractor,
+  abstractClassExtractor,
+  providerExtractor,
+  injectionExtractor,
+  routeExtractor,
+  moduleExtractor,
+  firestoreExtractor,
+  ngrxExtractor,
+  signalStoreExtractor,
+  environmentExtractor,
+  localizeExtractor,
+  callSiteExtractor
+];
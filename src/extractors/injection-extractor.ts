@@ -0,0 +1,217 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findDecorator, findObjectProperty, getDecoratorMetadata, getSourceRange, getTypeString } from '../ast-utils.js';
+import {
+  INJECTING_COLLECTIONS,
+  collectClassInjections,
+  collectFunctionInjections,
+  getTokenName
+} from '../dependency-injection.js';
+import { CustomProvider, Injecting, KnowledgeGraph, ProviderRegistration, ProviderScope } from '../knowledge-graph.js';
+import { CodebaseExtractor, exitVisitor } from './extractor.js';
+
+const PROVIDER_TYPES: CustomProvider['type'][] = ['useClass', 'useFactory', 'useValue', 'useExisting'];
+
+// Decorators whose `providers` create a scope, and which scope that is
+const DECORATOR_SCOPES: Record<string, ProviderScope> = {
+  Component: 'component',
+  Directive: 'directive',
+  NgModule: 'module'
+};
+
+// Keys that make an object literal a route (a `providers` key alone could be anything)
+const ROUTE_KEYS = ['path', 'component', 'loadComponent', 'loadChildren', 'children'];
+
+type Scope = Pick<ProviderRegistration, 'scope' | 'owner' | 'view'>;
+
+// What provider arrays can refer to: arrays declared in the file and functions imported from packages
+interface ProviderSources {
+  localArrays: Map<string, any>;
+  packageImports: Set<string>;
+}
+
+// The dependency injection graph of a file: what each class and functional guard, resolver or
+// interceptor injects, the InjectionTokens it declares and every provider registration with
+// the injector it lands in. Registered after the entity extractors, so the entity of a class or
+// function already exists when its node is visited here.
+export const injectionExtractor: CodebaseExtractor = {
+  name: 'injection',
+
+  visit({ ast, filePath, graph, resolveImport }) {
+    // The last entity of that name, as an abstract @Injectable() class is both a service and an
+    // abstract class
+    const findConsumer = (name: string): Injecting | undefined => INJECTING_COLLECTIONS
+      .flatMap(collection => (graph[collection] as Array<Injecting & { name: string }>).filter(entity => entity.name === name))
+      .pop();
+
+    // Providers arrays are expanded once the whole file is visited, as they can name arrays
+    // declared further down
+    const localArrays = new Map<string, any>();
+    const sources: ProviderSources = { localArrays, packageImports: collectPackageImports(ast, resolveImport) };
+    const pending: Array<{ providers: any; scope: Scope }> = [];
+    const register = (providers: any, scope: Scope) => pending.push({ providers, scope });
+
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.id) return;
+        setInjections(findConsumer(node.id.name), collectClassInjections(node));
+        collectClassRegistrations(node, register, graph, filePath);
+      },
+      [AST_NODE_TYPES.FunctionDeclaration]: (node: any) => {
+        if (node.id) {
+          setInjections(findConsumer(node.id.name), collectFunctionInjections(node.body));
+        }
+      },
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        const init = unwrapExpression(node.init);
+        if (init?.type === AST_NODE_TYPES.ArrayExpression && node.id.name) {
+          localArrays.set(node.id.name, init);
+        } else if (init?.type === AST_NODE_TYPES.ArrowFunctionExpression || init?.type === AST_NODE_TYPES.FunctionExpression) {
+          setInjections(findConsumer(node.id.name), collectFunctionInjections(init.body));
+        } else if (init?.type === AST_NODE_TYPES.NewExpression && init.callee.name === 'InjectionToken') {
+          extractInjectionToken(node.id.name, init, graph, filePath);
+        } else if (init?.type === AST_NODE_TYPES.ObjectExpression &&
+            getTypeString(node.id.typeAnnotation?.typeAnnotation) === 'ApplicationConfig') {
+          register(findObjectProperty(init, 'providers')?.value, { scope: 'environment' });
+        }
+      },
+      [AST_NODE_TYPES.CallExpression]: (node: any) => {
+        // bootstrapApplication(AppComponent, { providers: [...] }), makeEnvironmentProviders([...])
+        if (node.callee.name === 'bootstrapApplication') {
+          register(findObjectProperty(node.arguments[1], 'providers')?.value, { scope: 'environment' });
+        } else if (node.callee.name === 'makeEnvironmentProviders') {
+          register(node.arguments[0], { scope: 'environment' });
+        }
+      },
+      [AST_NODE_TYPES.ObjectExpression]: (node: any) => {
+        const providers = findObjectProperty(node, 'providers');
+        const path = findObjectProperty(node, 'path');
+        if (providers && node.properties.some((prop: any) => ROUTE_KEYS.includes(prop.key?.name))) {
+          register(providers.value, { scope: 'route', owner: path?.value?.value ?? '' });
+        }
+      },
+      [exitVisitor(AST_NODE_TYPES.Program)]: () => {
+        pending.forEach(({ providers, scope }) => collectProviders(providers, sources)
+          .forEach(provider => graph.providerRegistrations.push({ ...provider, ...scope, filePath })));
+      }
+    };
+  }
+};
+
+function setInjections(consumer: Injecting | undefined, injections: ReturnType<typeof collectClassInjections>): void {
+  if (consumer && injections.length > 0) {
+    consumer.injections = injections;
+  }
+}
+
+// @Injectable({ providedIn }) and the providers of @Component, @Directive and @NgModule
+function collectClassRegistrations(node: any, register: (providers: any, scope: Scope) => void, graph: KnowledgeGraph, filePath: string): void {
+  const injectable = findDecorator(node, 'Injectable');
+  const providedIn = findObjectProperty(getDecoratorMetadata(injectable), 'providedIn');
+  if (providedIn) {
+    graph.providerRegistrations.push({ token: node.id.name, ...getProvidedInScope(providedIn.value), provider: 'class', location: getSourceRange(node), filePath });
+  }
+
+  for (const [decoratorName, scope] of Object.entries(DECORATOR_SCOPES)) {
+    const metadata = getDecoratorMetadata(findDecorator(node, decoratorName));
+    if (!metadata) continue;
+
+    register(findObjectProperty(metadata, 'providers')?.value, { scope, owner: node.id.name });
+    if (scope === 'component') {
+      register(findObjectProperty(metadata, 'viewProviders')?.value, { scope, owner: node.id.name, view: true });
+    }
+  }
+}
+
+// `new InjectionToken<string>('API_URL', { providedIn: 'root', factory: () => '/api' })`. A token
+// with a factory is provided in root unless it says otherwise.
+function extractInjectionToken(name: string, node: any, graph: KnowledgeGraph, filePath: string): void {
+  const typeArgument = (node.typeArguments || node.typeParameters)?.params?.[0];
+  const options = node.arguments[1];
+  const providedIn = findObjectProperty(options, 'providedIn');
+  const hasFactory = !!findObjectProperty(options, 'factory');
+  const scope: Scope | undefined = providedIn ? getProvidedInScope(providedIn.value) : hasFactory ? { scope: 'root' } : undefined;
+
+  graph.injectionTokens.push({
+    name,
+    description: typeof node.arguments[0]?.value === 'string' ? node.arguments[0].value : undefined,
+    valueType: getTypeString(typeArgument),
+    providedIn: scope && (scope.owner ?? scope.scope),
+    hasFactory,
+    filePath
+  });
+
+  if (scope) {
+    graph.providerRegistrations.push({ token: name, ...scope, provider: 'useFactory', location: getSourceRange(node), filePath });
+  }
+}
+
+// providedIn: 'root' | 'platform' | 'any' | SomeModule
+function getProvidedInScope(value: any): Scope {
+  if (value?.type === AST_NODE_TYPES.Identifier) {
+    return { scope: 'module', owner: value.name };
+  }
+  return { scope: value?.value === 'platform' || value?.value === 'any' ? value.value : 'root' };
+}
+
+// Class and `{ provide: ... }` providers in a providers array, following nested arrays, spreads
+// and arrays declared in the same file. provideX() calls of packages are skipped; those of the
+// codebase and importProvidersFrom() are recorded as opaque, since any token may be behind them.
+function collectProviders(node: any, sources: ProviderSources, seen = new Set<any>()): Array<Pick<ProviderRegistration, 'token' | 'provider' | 'target' | 'multi' | 'location'>> {
+  node = unwrapExpression(node);
+  if (!node || seen.has(node)) return [];
+  seen.add(node);
+
+  switch (node.type) {
+    case AST_NODE_TYPES.ArrayExpression:
+      return node.elements.flatMap((element: any) => collectProviders(element, sources, seen));
+    case AST_NODE_TYPES.SpreadElement:
+      return collectProviders(node.argument, sources, seen);
+    case AST_NODE_TYPES.Identifier:
+      return sources.localArrays.has(node.name)
+        ? collectProviders(sources.localArrays.get(node.name), sources, seen)
+        : [{ token: node.name, provider: 'class', location: getSourceRange(node) }];
+    case AST_NODE_TYPES.CallExpression: {
+      const callee = getTokenName(node.callee);
+      const packageCall = callee && sources.packageImports.has(callee.split('.')[0]) && callee !== 'importProvidersFrom';
+      return callee && !packageCall ? [{ token: callee, provider: 'opaque', location: getSourceRange(node) }] : [];
+    }
+    case AST_NODE_TYPES.ObjectExpression: {
+      const provide = findObjectProperty(node, 'provide');
+      const token = provide && getTokenName(provide.value);
+      if (!token) return [];
+
+      const registration: Pick<ProviderRegistration, 'token' | 'provider' | 'target' | 'multi' | 'location'> = { token, provider: 'useClass', location: getSourceRange(node) };
+      node.properties.forEach((prop: any) => {
+        const key = prop.key?.name;
+        if (PROVIDER_TYPES.includes(key)) {
+          registration.provider = key;
+          if (key !== 'useValue') {
+            registration.target = getTokenName(prop.value);
+          }
+        } else if (key === 'multi' && prop.value?.value === true) {
+          registration.multi = true;
+        }
+      });
+      return [registration];
+    }
+    default:
+      return [];
+  }
+}
+
+// Names imported from packages rather than from files of the codebase
+function collectPackageImports(ast: any, resolveImport: (specifier: string) => string | undefined): Set<string> {
+  const names = new Set<string>();
+  ast.body
+    .filter((statement: any) => statement.type === AST_NODE_TYPES.ImportDeclaration && !resolveImport(statement.source.value))
+    .forEach((statement: any) => statement.specifiers.forEach((specifier: any) => names.add(specifier.local.name)));
+  return names;
+}
+
+// `[...] as Provider[]` / `[...] satisfies Provider[]`
+function unwrapExpression(node: any): any {
+  if (node?.type === AST_NODE_TYPES.TSAsExpression || node?.type === AST_NODE_TYPES.TSSatisfiesExpression) {
+    return unwrapExpression(node.expression);
+  }
+  return node;
+}
@@ -0,0 +1,66 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractMethods, getSourceRange, getTypedFunctionDeclarations } from '../ast-utils.js';
+import { AngularInterceptor, HttpClientRegistration } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+export const interceptorExtractor: CodebaseExtractor = {
+  name: 'interceptors',
+
+  visit({ content, filePath, graph }) {
+    // Function-based interceptors: export const authInterceptor: HttpInterceptorFn = ..., and factories
+    const visitFunction = (node: any) => {
+      getTypedFunctionDeclarations(node).forEach(({ name, typeName, factory }) => {
+        if (typeName === 'HttpInterceptorFn') {
+          graph.interceptors.push({
+            name,
+            type: 'function',
+            ...(factory && { factory }),
+            filePath
+          });
+        }
+      });
+    };
+
+    return {
+      [AST_NODE_TYPES.VariableDeclaration]: visitFunction,
+      [AST_NODE_TYPES.FunctionDeclaration]: visitFunction,
+      // Class-based interceptors
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.id) return;
+
+        const implementsInterceptor = node.implements?.some((impl: any) =>
+          impl.expression?.name === 'HttpInterceptor'
+        );
+
+        if (implementsInterceptor || (node.id.name.endsWith('Interceptor') && content.includes('intercept'))) {
+          const interceptor: AngularInterceptor = {
+            name: node.id.name,
+            type: 'class',
+            methods: extractMethods(node.body.body, content),
+            filePath
+          };
+          graph.interceptors.push(interceptor);
+        }
+      },
+      // provideHttpClient(withFetch(), withInterceptors([authInterceptor, errorInterceptor]))
+      [AST_NODE_TYPES.CallExpression]: (node: any) => {
+        if (node.callee.name !== 'provideHttpClient') return;
+
+        const registration: HttpClientRegistration = { interceptors: [], features: [], location: getSourceRange(node), filePath };
+
+        node.arguments
+          .filter((feature: any) => feature.type === AST_NODE_TYPES.CallExpression)
+          .forEach((feature: any) => {
+            registration.features.push(feature.callee.name);
+            if (feature.callee.name === 'withInterceptors' && feature.arguments[0]?.elements) {
+              registration.interceptors.push(...feature.arguments[0].elements
+                .map((element: any) => element?.type === AST_NODE_TYPES.CallExpression ? element.callee.name : element?.name)
+                .filter(Boolean));
+            }
+          });
+
+        graph.httpClients.push(registration);
+      }
+    };
+  }
+};
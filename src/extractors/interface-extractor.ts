@@ -0,0 +1,61 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractSignature, getEntityName, getTypeString } from '../ast-utils.js';
+import { InterfaceInfo } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+export const interfaceExtractor: CodebaseExtractor = {
+  name: 'interfaces',
+
+  visit({ content, filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.TSInterfaceDeclaration]: (node: any) => {
+        const interfaceInfo: InterfaceInfo = {
+          name: node.id.name,
+          properties: [],
+          methods: [],
+          filePath
+        };
+
+        if (node.extends?.length) {
+          interfaceInfo.extends = node.extends.map((e: any) => getEntityName(e.expression));
+        }
+
+        node.body.body.forEach((member: any) => {
+          if (member.type === AST_NODE_TYPES.TSPropertySignature && member.key?.name) {
+            interfaceInfo.properties.push({
+              name: member.key.name,
+              type: getTypeString(member.typeAnnotation?.typeAnnotation, content),
+              visibility: 'public',
+              readonly: member.readonly || false
+            });
+          } else if (member.type === AST_NODE_TYPES.TSMethodSignature && member.key?.name) {
+            const signature = extractSignature(member, content);
+            // Repeated signatures overload the first one
+            const overloaded = member.kind === 'method'
+              ? interfaceInfo.methods?.find(method => method.name === member.key.name && !method.accessor)
+              : undefined;
+            if (overloaded) {
+              overloaded.overloads ??= [{
+                typeParameters: overloaded.typeParameters,
+                parameters: overloaded.parameters,
+                returnType: overloaded.returnType
+              }];
+              overloaded.overloads.push(signature);
+              return;
+            }
+
+            interfaceInfo.methods?.push({
+              name: member.key.name,
+              ...signature,
+              ...(member.kind === 'get' || member.kind === 'set' ? { accessor: member.kind } : {}),
+              isAsync: false,
+              visibility: 'public'
+            });
+          }
+        });
+
+        graph.interfaces.push(interfaceInfo);
+      }
+    };
+  }
+};
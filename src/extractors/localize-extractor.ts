@@ -0,0 +1,27 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getLocalizeId } from '../translation-catalog.js';
+import { CodebaseExtractor } from './extractor.js';
+
+// Custom ids of `$localize` messages: $localize`:meaning|description@@welcome.title:Welcome`.
+// Messages without an @@id get a generated one and cannot be referenced, so they are skipped.
+export const localizeExtractor: CodebaseExtractor = {
+  name: 'localize',
+
+  visit({ filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.TaggedTemplateExpression]: (node: any) => {
+        const id = getLocalizeId(node);
+        if (!id) return;
+
+        let catalog = graph.translations.find(translation => translation.format === 'localize');
+        if (!catalog) {
+          catalog = { format: 'localize', keys: [], filePath };
+          graph.translations.push(catalog);
+        }
+        if (!catalog.keys.includes(id)) {
+          catalog.keys.push(id);
+        }
+      }
+    };
+  }
+};
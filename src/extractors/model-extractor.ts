@@ -0,0 +1,25 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractPropertyInfo, isPropertyMember } from '../ast-utils.js';
+import { CodebaseExtractor } from './extractor.js';
+
+// Model classes are plain classes named *Model or living under a model(s) folder/file
+export const modelExtractor: CodebaseExtractor = {
+  name: 'models',
+
+  visit({ content, filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.id) return;
+        if (!node.id.name.includes('Model') && !filePath.includes('model')) return;
+
+        graph.models.push({
+          name: node.id.name,
+          properties: node.body.body
+            .filter((member: any) => isPropertyMember(member))
+            .map((member: any) => extractPropertyInfo(member, content)),
+          filePath
+        });
+      }
+    };
+  }
+};
@@ -0,0 +1,86 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getBoundNames } from '../ast-utils.js';
+import { ModuleInfo } from '../knowledge-graph.js';
+import { CodebaseExtractor, exitVisitor } from './extractor.js';
+
+// Records the export surface of every file: names it declares and exports itself, and the
+// `export ... from` clauses that resolveModuleExports() later follows across files. Aliased
+// imports are resolved here, once per file, for the workspace project dependencies.
+export const moduleExtractor: CodebaseExtractor = {
+  name: 'modules',
+
+  visit({ filePath, graph, resolveImport }) {
+    const imports = new Set<string>();
+
+    // Static imports and lazy `import('@org/feature')` in routes
+    const addImport = (node: any) => {
+      const specifier = node.source?.value;
+      if (typeof specifier !== 'string' || specifier.startsWith('.')) return;
+
+      const resolvedPath = resolveImport(specifier);
+      if (resolvedPath) imports.add(resolvedPath);
+    };
+
+    return {
+      [AST_NODE_TYPES.ImportDeclaration]: addImport,
+      [AST_NODE_TYPES.ImportExpression]: addImport,
+      [exitVisitor(AST_NODE_TYPES.Program)]: (ast: any) => {
+        const module: ModuleInfo = {
+          filePath,
+          aliases: [],
+          localExports: [],
+          reExports: [],
+          exports: []
+        };
+
+        // Export statements only appear at the top level of a module
+        ast.body.forEach((statement: any) => {
+          switch (statement.type) {
+            case AST_NODE_TYPES.ExportNamedDeclaration:
+              if (statement.source) {
+                module.reExports.push({
+                  from: statement.source.value,
+                  names: statement.specifiers.map((specifier: any) => getExportedName(specifier))
+                });
+              } else if (statement.declaration) {
+                module.localExports.push(...getDeclaredNames(statement.declaration));
+              } else {
+                module.localExports.push(...statement.specifiers.map((specifier: any) => getExportedName(specifier)));
+              }
+              break;
+            case AST_NODE_TYPES.ExportAllDeclaration:
+              module.reExports.push(statement.exported
+                // `export * as ns from './x'` only adds the namespace name
+                ? { from: statement.source.value, names: [statement.exported.name] }
+                : { from: statement.source.value });
+              break;
+            case AST_NODE_TYPES.ExportDefaultDeclaration:
+              module.localExports.push('default');
+              break;
+          }
+        });
+
+        if (imports.size > 0) {
+          module.imports = [...imports];
+        }
+
+        if (module.localExports.length > 0 || module.reExports.length > 0 || module.imports) {
+          module.exports = [...module.localExports];
+          graph.modules.push(module);
+        }
+      }
+    };
+  }
+};
+
+function getExportedName(specifier: any): string {
+  return specifier.exported?.name ?? specifier.exported?.value ?? specifier.local?.name;
+}
+
+function getDeclaredNames(declaration: any): string[] {
+  if (declaration.type === AST_NODE_TYPES.VariableDeclaration) {
+    // `export const { apiUrl, debug } = env;` exports both names
+    return declaration.declarations.flatMap((declarator: any) => getBoundNames(declarator.id));
+  }
+  return declaration.id?.name ? [declaration.id.name] : [];
+}
@@ -0,0 +1,146 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findObjectProperty, getObjectKeys, getReturnedObject, getTypeString, walkAST } from '../ast-utils.js';
+import { getTokenName } from '../dependency-injection.js';
+import { KnowledgeGraph } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+// NgRx store building blocks: actions, selectors (including those createFeature generates) and
+// effects. Only variables and class properties are recorded, since that is how they are referenced.
+export const ngrxExtractor: CodebaseExtractor = {
+  name: 'ngrx',
+
+  visit({ filePath, graph }) {
+    // Initial state objects, declared before the createFeature() that reads them
+    const localObjects = new Map<string, any>();
+
+    return {
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        if (node.id.name && node.init?.type === AST_NODE_TYPES.ObjectExpression) {
+          localObjects.set(node.id.name, node.init);
+        }
+        if (node.id.type === AST_NODE_TYPES.Identifier && isCall(node.init)) {
+          extractDeclaration(node.id.name, node.init, filePath, graph, localObjects);
+        }
+      },
+      // Class-based effects: `loadProjects$ = createEffect(() => ...)`
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        node.body.body
+          .filter((member: any) => member.type === AST_NODE_TYPES.PropertyDefinition && getCalleeName(member.value) === 'createEffect')
+          .forEach((member: any) => graph.ngrxEffects.push({
+            name: member.key?.name,
+            className: node.id?.name,
+            functional: false,
+            ...getEffectDetails(member.value),
+            filePath
+          }));
+      }
+    };
+  }
+};
+
+function extractDeclaration(name: string, init: any, filePath: string, graph: KnowledgeGraph, localObjects: Map<string, any>): void {
+  const args = init.arguments;
+
+  switch (getCalleeName(init)) {
+    case 'createAction':
+      graph.ngrxActions.push({ name, type: args[0]?.value ?? name, props: getPropsType(args[1]), filePath });
+      break;
+    case 'createActionGroup': {
+      const source = findObjectProperty(args[0], 'source')?.value?.value;
+      const events = findObjectProperty(args[0], 'events')?.value;
+      events?.properties?.forEach((event: any) => {
+        const eventName = event.key?.value ?? event.key?.name;
+        if (typeof eventName !== 'string') return;
+        graph.ngrxActions.push({
+          name: `${name}.${toActionName(eventName)}`,
+          type: `[${source}] ${eventName}`,
+          group: name,
+          props: getPropsType(event.value),
+          filePath
+        });
+      });
+      break;
+    }
+    case 'createSelector': {
+      // createSelector(selectA, selectB, projector) or createSelector([selectA, selectB], projector)
+      const inputs = args[0]?.type === AST_NODE_TYPES.ArrayExpression ? args[0].elements : args.slice(0, -1);
+      graph.ngrxSelectors.push({
+        name,
+        inputs: inputs.map((arg: any) => getTokenName(arg)).filter(Boolean),
+        filePath
+      });
+      break;
+    }
+    case 'createFeatureSelector':
+      graph.ngrxSelectors.push({ name, feature: args[0]?.value, filePath });
+      break;
+    case 'createFeature': {
+      const feature = findObjectProperty(args[0], 'name')?.value?.value;
+      if (typeof feature === 'string') {
+        getFeatureSelectorNames(feature, args[0], localObjects)
+          .forEach(selector => graph.ngrxSelectors.push({ name: selector, feature, featureVariable: name, filePath }));
+      }
+      break;
+    }
+    case 'createEffect':
+      graph.ngrxEffects.push({ name, functional: true, ...getEffectDetails(init), filePath });
+      break;
+  }
+}
+
+// createFeature generates selectProjectsState, a selector per key of the initial state and
+// whatever extraSelectors returns
+function getFeatureSelectorNames(feature: string, config: any, localObjects: Map<string, any>): string[] {
+  const names = [`select${capitalize(feature)}State`];
+
+  // createReducer(initialState, on(...))
+  const reducer = findObjectProperty(config, 'reducer')?.value;
+  const initialState = getCalleeName(reducer) === 'createReducer' ? reducer.arguments[0] : undefined;
+  const stateObject = initialState?.type === AST_NODE_TYPES.Identifier ? localObjects.get(initialState.name) : initialState;
+  getObjectKeys(stateObject).forEach(key => names.push(`select${capitalize(key)}`));
+
+  const extraSelectors = findObjectProperty(config, 'extraSelectors')?.value;
+  getObjectKeys(getReturnedObject(extraSelectors)).forEach(key => names.push(key));
+
+  return names;
+}
+
+// ofType() actions and the `{ dispatch: false }` / `{ functional: true }` options
+function getEffectDetails(node: any): { ofType: string[]; dispatch: boolean } {
+  const ofType: string[] = [];
+  walkAST(node.arguments[0], (child: any) => {
+    if (getCalleeName(child) === 'ofType') {
+      ofType.push(...child.arguments.map((arg: any) => getTokenName(arg)).filter(Boolean));
+    }
+  });
+
+  const dispatch = findObjectProperty(node.arguments[1], 'dispatch')?.value?.value;
+  return { ofType, dispatch: dispatch !== false };
+}
+
+// props<{ id: string }>() -> '{ id: string }'; emptyProps() has none
+function getPropsType(node: any): string | undefined {
+  if (getCalleeName(node) !== 'props') return undefined;
+  return getTypeString((node.typeArguments || node.typeParameters)?.params?.[0]);
+}
+
+// NgRx names group events in camel case: 'Load Projects Success' -> loadProjectsSuccess
+function toActionName(eventName: string): string {
+  return eventName
+    .trim()
+    .split(/\s+/)
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : capitalize(word))
+    .join('');
+}
+
+function getCalleeName(node: any): string | undefined {
+  return isCall(node) ? node.callee.name : undefined;
+}
+
+function isCall(node: any): boolean {
+  return node?.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
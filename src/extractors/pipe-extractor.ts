@@ -0,0 +1,38 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findDecorator, findObjectProperty, getDecoratorMetadata } from '../ast-utils.js';
+import { AngularPipe } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+import { collectClassMembers } from './class-members.js';
+
+export const pipeExtractor: CodebaseExtractor = {
+  name: 'pipes',
+
+  visit({ content, filePath, graph, report }) {
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        const pipeDecorator = findDecorator(node, 'Pipe');
+        if (!pipeDecorator) return;
+        if (!node.id) {
+          report(node, 'skipped', 'Anonymous @Pipe class');
+          return;
+        }
+
+        const metadata = getDecoratorMetadata(pipeDecorator);
+        if (!metadata && pipeDecorator.expression?.arguments?.length) {
+          report(pipeDecorator, 'unsupported', `@Pipe metadata of ${node.id.name} is not an object literal`);
+        }
+        const pipe: AngularPipe = {
+          name: node.id.name,
+          pipeName: findObjectProperty(metadata, 'name')?.value?.value,
+          pure: findObjectProperty(metadata, 'pure')?.value?.value,
+          standalone: findObjectProperty(metadata, 'standalone')?.value?.value,
+          methods: [],
+          filePath
+        };
+
+        collectClassMembers(node, pipe, content, report);
+        graph.pipes.push(pipe);
+      }
+    };
+  }
+};
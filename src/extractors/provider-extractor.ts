@@ -0,0 +1,50 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findObjectProperty, getSourceRange } from '../ast-utils.js';
+import { CustomProvider } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+const PROVIDER_TYPES: CustomProvider['type'][] = ['useClass', 'useFactory', 'useValue', 'useExisting'];
+
+// Custom provider objects: { provide: TOKEN, useFactory: ..., deps: [...] }
+export const providerExtractor: CodebaseExtractor = {
+  name: 'providers',
+
+  visit({ filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.ObjectExpression]: (node: any) => {
+        const provideProperty = findObjectProperty(node, 'provide');
+        if (!provideProperty) return;
+
+        const provider: CustomProvider = {
+          token: getProviderToken(provideProperty.value),
+          type: 'useClass',
+          location: getSourceRange(node),
+          filePath
+        };
+
+        node.properties.forEach((prop: any) => {
+          const key = prop.key?.name;
+          if (PROVIDER_TYPES.includes(key)) {
+            provider.type = key;
+            if (key !== 'useValue' && prop.value?.type === AST_NODE_TYPES.Identifier) {
+              provider.target = prop.value.name;
+            }
+          } else if (key === 'deps' && prop.value?.elements) {
+            provider.deps = prop.value.elements.map((e: any) => e.name).filter(Boolean);
+          }
+        });
+
+        graph.providers.push(provider);
+      }
+    };
+  }
+};
+
+function getProviderToken(node: any): string {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  } else if (node.type === AST_NODE_TYPES.MemberExpression) {
+    return `${node.object.name}.${node.property.name}`;
+  }
+  return 'unknown';
+}
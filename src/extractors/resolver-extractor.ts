@@ -0,0 +1,48 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { extractMethods, getTypeString, getTypedFunctionDeclarations } from '../ast-utils.js';
+import { AngularResolver } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+export const resolverExtractor: CodebaseExtractor = {
+  name: 'resolvers',
+
+  visit({ content, filePath, graph }) {
+    // Function-based resolvers: export const projectResolver: ResolveFn<Project> = ...
+    const visitFunction = (node: any) => {
+      getTypedFunctionDeclarations(node).forEach(({ name, typeName, factory }) => {
+        const match = typeName.match(/^ResolveFn(?:<(.+)>)?$/);
+        if (match) {
+          graph.resolvers.push({
+            name,
+            type: 'function',
+            resolvedType: match[1],
+            ...(factory && { factory }),
+            filePath
+          });
+        }
+      });
+    };
+
+    return {
+      [AST_NODE_TYPES.VariableDeclaration]: visitFunction,
+      [AST_NODE_TYPES.FunctionDeclaration]: visitFunction,
+      // Class-based resolvers: class ProjectResolver implements Resolve<Project>
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        if (!node.id) return;
+
+        const resolveInterface = node.implements?.find((impl: any) => impl.expression?.name === 'Resolve');
+        if (resolveInterface) {
+          const typeArguments = resolveInterface.typeArguments || resolveInterface.typeParameters;
+          const resolver: AngularResolver = {
+            name: node.id.name,
+            type: 'class',
+            resolvedType: getTypeString(typeArguments?.params?.[0], content),
+            methods: extractMethods(node.body.body, content),
+            filePath
+          };
+          graph.resolvers.push(resolver);
+        }
+      }
+    };
+  }
+};
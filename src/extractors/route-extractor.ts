@@ -0,0 +1,259 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getEntityName, getSourceRange } from '../ast-utils.js';
+import { GuardKind, KnowledgeGraph, LazyRouteTarget, RouteConfig, RouterRegistration } from '../knowledge-graph.js';
+import { CodebaseExtractor, ExtractionContext } from './extractor.js';
+
+const ROUTE_KEYS = ['path', 'component', 'loadComponent', 'loadChildren', 'redirectTo', 'children'];
+
+const GUARD_KEYS: GuardKind[] = ['canActivate', 'canActivateChild', 'canDeactivate', 'canMatch', 'canLoad'];
+
+// Route arrays are recognised by their type (`Routes`, `Route[]`) or a name like ADMIN_ROUTES
+const ROUTES_TYPES = ['Routes', 'Route[]'];
+const ROUTES_NAME = /routes$/i;
+
+// Records every route array in a file together with how it is handed to the router. The
+// arrays are linked into one tree with absolute URLs by resolveRouteTree().
+export const routeExtractor: CodebaseExtractor = {
+  name: 'routes',
+
+  visit({ ast, filePath, graph, report }) {
+    const arrays = new Map<string, RouteConfig[]>();
+    const imports = collectImports(ast);
+    // Local arrays handed to the router before the walk reached their declaration
+    const registeredArrays = new Map<string, RouterRegistration['kind']>();
+
+    const addArray = (name: string, array: any) => {
+      const routes = extractRouteArray(array, filePath, name, graph, report);
+      const kind = registeredArrays.get(name);
+      if (kind) {
+        routes.forEach(route => route.registeredWith = kind);
+      }
+      arrays.set(name, routes);
+    };
+
+    return {
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        if (node.id.type !== AST_NODE_TYPES.Identifier) return;
+
+        const array = unwrapExpression(node.init);
+        const typeName = getTypeName(node.id.typeAnnotation?.typeAnnotation) ?? getTypeName(node.init?.typeAnnotation);
+        if (array?.type === AST_NODE_TYPES.ArrayExpression &&
+            ((typeName && ROUTES_TYPES.includes(typeName)) || (ROUTES_NAME.test(node.id.name) && looksLikeRoutes(array)))) {
+          addArray(node.id.name, array);
+        }
+      },
+      // export default [...] satisfies Routes
+      [AST_NODE_TYPES.ExportDefaultDeclaration]: (node: any) => {
+        const array = unwrapExpression(node.declaration);
+        if (array?.type === AST_NODE_TYPES.ArrayExpression && looksLikeRoutes(array)) {
+          addArray('default', array);
+        }
+      },
+      [AST_NODE_TYPES.CallExpression]: (node: any) => {
+        const kind = getRegistrationKind(node.callee);
+        const argument = unwrapExpression(node.arguments[0]);
+        if (!kind || !argument) return;
+
+        if (argument.type === AST_NODE_TYPES.ArrayExpression) {
+          extractRouteArray(argument, filePath, undefined, graph, report).forEach(route => route.registeredWith = kind);
+        } else if (argument.type === AST_NODE_TYPES.Identifier) {
+          const local = arrays.get(argument.name);
+          const imported = imports.get(argument.name);
+          if (local) {
+            local.forEach(route => route.registeredWith = kind);
+          } else if (imported) {
+            graph.routerRegistrations.push({ kind, routesVariable: imported.name, from: imported.from, location: getSourceRange(node), filePath });
+          } else {
+            registeredArrays.set(argument.name, kind);
+          }
+        }
+      }
+    };
+  }
+};
+
+function extractRouteArray(array: any, filePath: string, routesVariable: string | undefined, graph: KnowledgeGraph, report: ExtractionContext['report']): RouteConfig[] {
+  const routes = getRouteObjects(array, report)
+    .map((element: any) => ({ ...extractRouteConfig(element, filePath, report), routesVariable }));
+  graph.routes.push(...routes);
+  return routes;
+}
+
+// Spread and referenced entries are built elsewhere and cannot be followed statically
+function getRouteObjects(array: any, report: ExtractionContext['report']): any[] {
+  return array.elements.filter((element: any) => {
+    if (element && element.type !== AST_NODE_TYPES.ObjectExpression) {
+      report(element, 'unsupported', `Route entry of type ${element.type} cannot be resolved statically`);
+    }
+    return element?.type === AST_NODE_TYPES.ObjectExpression;
+  });
+}
+
+function extractRouteConfig(node: any, filePath: string, report: ExtractionContext['report']): RouteConfig {
+  const route: RouteConfig = { path: '', location: getSourceRange(node), filePath };
+
+  node.properties.forEach((prop: any) => {
+    const key = prop.key?.name ?? prop.key?.value;
+    const value = unwrapExpression(prop.value);
+
+    switch (key) {
+      case 'path':
+        route.path = value?.value || '';
+        break;
+      case 'component':
+        route.component = value?.name;
+        break;
+      case 'loadComponent':
+        route.loadComponent = getLazyTarget(value);
+        if (!route.loadComponent) {
+          report(prop, 'unsupported', `loadComponent of route '${route.path}' is not a lazy import`);
+        }
+        break;
+      case 'loadChildren':
+        route.loadChildren = getLazyTarget(value);
+        if (!route.loadChildren) {
+          report(prop, 'unsupported', `loadChildren of route '${route.path}' is not a lazy import`);
+        }
+        break;
+      case 'redirectTo':
+        // Function redirects (Angular 18) cannot be resolved statically
+        if (typeof value?.value === 'string') {
+          route.redirectTo = value.value;
+        } else {
+          report(prop, 'unsupported', `redirectTo of route '${route.path}' is computed`);
+        }
+        break;
+      case 'pathMatch':
+        route.pathMatch = value?.value;
+        break;
+      case 'outlet':
+        if (typeof value?.value === 'string') {
+          route.outlet = value.value;
+        }
+        break;
+      case 'title':
+        if (typeof value?.value === 'string') {
+          route.title = value.value;
+        }
+        break;
+      case 'resolve':
+        if (value?.type === AST_NODE_TYPES.ObjectExpression) {
+          route.resolve = {};
+          value.properties.forEach((resolver: any) => {
+            const name = resolver.key?.name ?? resolver.key?.value;
+            if (name) {
+              route.resolve![name] = getReferenceName(resolver.value);
+            }
+          });
+        }
+        break;
+      case 'children':
+        if (value?.elements) {
+          route.children = getRouteObjects(value, report).map((e: any) => extractRouteConfig(e, filePath, report));
+        }
+        break;
+      default:
+        if (GUARD_KEYS.includes(key) && value?.elements) {
+          route[key as GuardKind] = value.elements.filter(Boolean).map((e: any) => getReferenceName(e));
+        }
+    }
+  });
+
+  return route;
+}
+
+// `() => import('./x').then(m => m.X)`, `() => import('./x')` (default export) or the
+// pre-Ivy string form './x#XModule'
+function getLazyTarget(node: any): LazyRouteTarget | undefined {
+  if (typeof node?.value === 'string') {
+    const [specifier, exportName] = node.value.split('#');
+    return { specifier, exportName };
+  }
+
+  let body = node?.body;
+  if (body?.type === AST_NODE_TYPES.BlockStatement) {
+    body = body.body.find((statement: any) => statement.type === AST_NODE_TYPES.ReturnStatement)?.argument;
+  }
+
+  if (body?.type === AST_NODE_TYPES.ImportExpression) {
+    return { specifier: body.source.value };
+  }
+
+  if (body?.type === AST_NODE_TYPES.CallExpression &&
+      body.callee.property?.name === 'then' &&
+      body.callee.object.type === AST_NODE_TYPES.ImportExpression) {
+    const selector = body.arguments[0]?.body;
+    return {
+      specifier: body.callee.object.source.value,
+      exportName: selector?.type === AST_NODE_TYPES.MemberExpression ? selector.property?.name : undefined
+    };
+  }
+
+  return undefined;
+}
+
+// provideRouter(routes), RouterModule.forRoot(routes), RouterModule.forChild(routes)
+function getRegistrationKind(callee: any): RouterRegistration['kind'] | undefined {
+  if (callee.type === AST_NODE_TYPES.Identifier && callee.name === 'provideRouter') {
+    return 'provideRouter';
+  }
+  if (callee.type === AST_NODE_TYPES.MemberExpression &&
+      callee.object.name === 'RouterModule' &&
+      (callee.property?.name === 'forRoot' || callee.property?.name === 'forChild')) {
+    return callee.property.name;
+  }
+  return undefined;
+}
+
+// Local name -> imported name and module, e.g. appRoutes -> { name: 'routes', from: './app.routes' }
+function collectImports(ast: any): Map<string, { name: string; from: string }> {
+  const imports = new Map<string, { name: string; from: string }>();
+  ast.body
+    .filter((statement: any) => statement.type === AST_NODE_TYPES.ImportDeclaration)
+    .forEach((statement: any) => statement.specifiers.forEach((specifier: any) => {
+      const name = specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier ? 'default' : specifier.imported?.name;
+      if (name) {
+        imports.set(specifier.local.name, { name, from: statement.source.value });
+      }
+    }));
+  return imports;
+}
+
+function getReferenceName(node: any): string {
+  switch (node?.type) {
+    case AST_NODE_TYPES.Identifier:
+      return node.name;
+    case AST_NODE_TYPES.MemberExpression:
+      return `${getReferenceName(node.object)}.${node.property?.name}`;
+    case AST_NODE_TYPES.CallExpression:
+      return getReferenceName(node.callee);
+    case AST_NODE_TYPES.ArrowFunctionExpression:
+    case AST_NODE_TYPES.FunctionExpression:
+      return '(inline)';
+    default:
+      return 'unknown';
+  }
+}
+
+function getTypeName(typeNode: any): string | undefined {
+  if (typeNode?.type === AST_NODE_TYPES.TSTypeReference) return getEntityName(typeNode.typeName);
+  if (typeNode?.type === AST_NODE_TYPES.TSArrayType) {
+    const elementType = getTypeName(typeNode.elementType);
+    return elementType && `${elementType}[]`;
+  }
+  return undefined;
+}
+
+// `[...] as Routes` / `[...] satisfies Routes`
+function unwrapExpression(node: any): any {
+  if (node?.type === AST_NODE_TYPES.TSAsExpression || node?.type === AST_NODE_TYPES.TSSatisfiesExpression) {
+    return unwrapExpression(node.expression);
+  }
+  return node;
+}
+
+function looksLikeRoutes(array: any): boolean {
+  return array.elements.length > 0 && array.elements.every((element: any) =>
+    element?.type === AST_NODE_TYPES.ObjectExpression &&
+    element.properties.some((prop: any) => ROUTE_KEYS.includes(prop.key?.name)));
+}
@@ -0,0 +1,46 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findDecorator, findObjectProperty, getDecoratorMetadata } from '../ast-utils.js';
+import { AngularService } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+import { collectClassHeritage, collectClassMembers, getConstructorDependencies } from './class-members.js';
+
+export const serviceExtractor: CodebaseExtractor = {
+  name: 'services',
+
+  visit({ ast, content, filePath, graph, report }) {
+    return {
+      [AST_NODE_TYPES.ClassDeclaration]: (node: any) => {
+        const injectableDecorator = findDecorator(node, 'Injectable');
+        if (!node.id) {
+          if (injectableDecorator) {
+            report(node, 'skipped', 'Anonymous @Injectable class');
+          }
+          return;
+        }
+
+        // Also pick up services without @Injectable that follow the naming convention
+        if (!injectableDecorator && !(node.id.name.endsWith('Service') && !node.abstract)) return;
+
+        const service: AngularService = {
+          name: node.id.name,
+          injectable: !!injectableDecorator,
+          methods: [],
+          staticMethods: [],
+          properties: [],
+          dependencies: getConstructorDependencies(node),
+          filePath
+        };
+
+        const providedInProp = findObjectProperty(getDecoratorMetadata(injectableDecorator), 'providedIn');
+        if (providedInProp) {
+          // providedIn: SomeModule names the module
+          service.providedIn = providedInProp.value?.value || providedInProp.value?.name || 'root';
+        }
+
+        collectClassHeritage(node, service, ast, content);
+        collectClassMembers(node, service, content, report);
+        graph.services.push(service);
+      }
+    };
+  }
+};
@@ -0,0 +1,93 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { findObjectProperty, getObjectKeys, getReturnedObject, getSourceRange } from '../ast-utils.js';
+import { KnowledgeGraph, SignalStoreInfo } from '../knowledge-graph.js';
+import { CodebaseExtractor } from './extractor.js';
+
+// Signals and methods withEntities() adds to a store
+const ENTITY_STATE = ['ids', 'entityMap'];
+const ENTITY_COMPUTED = ['entities'];
+
+// `export const ProjectsStore = signalStore({ providedIn: 'root' }, withState(...), ...)`. The
+// store is injected like a service; its state keys and computed keys are signals on it.
+export const signalStoreExtractor: CodebaseExtractor = {
+  name: 'signalStores',
+
+  visit({ filePath, graph }) {
+    // Initial state objects, declared before the signalStore() that reads them
+    const localObjects = new Map<string, any>();
+
+    return {
+      [AST_NODE_TYPES.VariableDeclarator]: (node: any) => {
+        if (node.id.name && node.init?.type === AST_NODE_TYPES.ObjectExpression) {
+          localObjects.set(node.id.name, node.init);
+        }
+        if (node.id.type === AST_NODE_TYPES.Identifier && node.init?.type === AST_NODE_TYPES.CallExpression &&
+            node.init.callee.name === 'signalStore') {
+          graph.signalStores.push(extractSignalStore(node, filePath, graph, localObjects));
+        }
+      }
+    };
+  }
+};
+
+function extractSignalStore(node: any, filePath: string, graph: KnowledgeGraph, localObjects: Map<string, any>): SignalStoreInfo {
+  const store: SignalStoreInfo = {
+    name: node.id.name,
+    state: [],
+    computed: [],
+    methods: [],
+    features: [],
+    filePath
+  };
+
+  node.init.arguments.forEach((arg: any) => {
+    if (arg.type === AST_NODE_TYPES.ObjectExpression) {
+      const providedIn = findObjectProperty(arg, 'providedIn');
+      if (providedIn) {
+        store.providedIn = providedIn.value?.value;
+        graph.providerRegistrations.push({
+          token: store.name,
+          scope: store.providedIn === 'platform' || store.providedIn === 'any' ? store.providedIn : 'root',
+          provider: 'class',
+          location: getSourceRange(node),
+          filePath
+        });
+      }
+      return;
+    }
+
+    const feature = arg.type === AST_NODE_TYPES.CallExpression ? arg.callee.name : undefined;
+    const config = arg.arguments?.[0];
+    switch (feature) {
+      case 'withState': {
+        // withState(initialState), withState<State>({ ... }) or withState(() => ({ ... }))
+        const state = config?.type === AST_NODE_TYPES.Identifier ? localObjects.get(config.name) : config;
+        store.state.push(...getObjectKeys(state), ...getObjectKeys(getReturnedObject(state)));
+        break;
+      }
+      case 'withComputed':
+        store.computed.push(...getObjectKeys(getReturnedObject(config)));
+        break;
+      case 'withMethods':
+        store.methods.push(...getObjectKeys(getReturnedObject(config)));
+        break;
+      case 'withHooks': {
+        // withHooks({ onInit() {} }) or withHooks(store => ({ onInit() {} }))
+        const hooks = config?.type === AST_NODE_TYPES.ObjectExpression ? config : getReturnedObject(config);
+        store.hooks = getObjectKeys(hooks);
+        break;
+      }
+      case 'withEntities':
+        store.state.push(...ENTITY_STATE);
+        store.computed.push(...ENTITY_COMPUTED);
+        store.features.push(feature);
+        break;
+      default:
+        if (feature) {
+          store.features.push(feature);
+        }
+    }
+  });
+
+  return store;
+}
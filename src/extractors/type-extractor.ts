@@ -0,0 +1,19 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getTypeString } from '../ast-utils.js';
+import { CodebaseExtractor } from './extractor.js';
+
+export const typeExtractor: CodebaseExtractor = {
+  name: 'types',
+
+  visit({ content, filePath, graph }) {
+    return {
+      [AST_NODE_TYPES.TSTypeAliasDeclaration]: (node: any) => {
+        graph.types.push({
+          name: node.id.name,
+          type: getTypeString(node.typeAnnotation, content) || 'unknown',
+          filePath
+        });
+      }
+    };
+  }
+};
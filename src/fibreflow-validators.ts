@@ -12,6 +12,8 @@ const logger = winston.createLogger({
   ]
 });
 
+// The export tables below are an offline fallback: when the knowledge graph has export tables
+// built from the installed packages' .d.ts files (PackageExportIndexer), those are used instead.
 export class FibreFlowValidators {
   // Valid Angular CDK imports based on your v20.0.3
   private static readonly CDK_MODULES: Record<string, string[]> = {
@@ -97,7 +99,7 @@ export class FibreFlowValidators {
     multicasting: ['share', 'shareReplay', 'publish', 'publishBehavior', 'publishLast', 'publishReplay', 'multicast', 'refCount', 'connect']
   };
 
-  // Theme mixin patterns used in FibreFlow
+  // Theme mixin patterns used in FibreFlow; offline fallback for graphs without parsed stylesheets
   private static readonly THEME_MIXINS = [
     'mat-card-theme', 'mat-button-theme', 'mat-toolbar-theme', 'mat-form-field-theme',
     'mat-input-theme', 'mat-select-theme', 'mat-table-theme', 'mat-paginator-theme',
@@ -245,16 +247,22 @@ export class FibreFlowValidators {
     }
   }
 
-  static validateThemeUsage(cssContent: string, issues: HallucinationIssue[]): void {
+  // themeProperties are the custom properties the project's stylesheets declare, suggested in
+  // place of the generic ones when known
+  static validateThemeUsage(cssContent: string, issues: HallucinationIssue[], themeProperties: string[] = []): void {
     // Check for hardcoded colors instead of theme variables
     const hardcodedColors = cssContent.match(/#[0-9a-fA-F]{3,6}|rgb\(|rgba\(/g);
     
     if (hardcodedColors) {
+      const colors = themeProperties.filter(name => /color|primary|accent|warn|background|surface|text/i.test(name));
+      const suggested = (colors.length > 0 ? colors : themeProperties).slice(0, 4);
       issues.push({
         type: 'style',
         description: 'Use theme variables instead of hardcoded colors',
         severity: 'warning',
-        suggestion: 'Use var(--primary-color), var(--accent-color), etc.'
+        suggestion: suggested.length > 0
+          ? `Use the theme's custom properties: ${suggested.map(name => `var(${name})`).join(', ')}`
+          : 'Use var(--primary-color), var(--accent-color), etc.'
       });
     }
   }
@@ -417,6 +425,10 @@ export class FibreFlowValidators {
       });
     }
 
+    this.validateMaterialColorUsage(scssContent, issues);
+  }
+
+  static validateMaterialColorUsage(scssContent: string, issues: HallucinationIssue[]): void {
     // Check for direct Material color usage
     if (scssContent.includes('mat-color(') && !scssContent.includes('$theme')) {
       issues.push({
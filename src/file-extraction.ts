@@ -0,0 +1,181 @@
+import { parse } from '@typescript-eslint/parser';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import winston from 'winston';
+import { KnowledgeGraph, ParseDiagnostic, createEmptyKnowledgeGraph } from './knowledge-graph.js';
+import { CodebaseExtractor, ExtractionContext, NodeVisitors } from './extractors/index.js';
+import { getSourceRange, walkAST } from './ast-utils.js';
+import { annotateDocComments } from './doc-comments.js';
+import { annotateDeclarations } from './source-locations.js';
+import { ModuleResolver } from './module-resolver.js';
+import { hashContent } from './parse-manifest.js';
+import { isTranslationJsonFile, isXliffFile, parseTranslationFile } from './translation-catalog.js';
+import { isStylesheetFile, parseStylesheet } from './stylesheet-parser.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+export interface ExtractedFile {
+  fragment: KnowledgeGraph;
+  // Hashes of the templates and stylesheets the file read, by path relative to it
+  resources?: Record<string, string>;
+}
+
+// Parses one file into a graph fragment with the given extractors. Shared by the parser and its
+// worker threads, so it only depends on the file and the module resolver; type annotation needs
+// the whole program and stays with the parser. Failures end up in the fragment's diagnostics.
+export function extractSourceFile(
+  filePath: string,
+  content: string,
+  extractors: CodebaseExtractor[],
+  getModuleResolver: () => ModuleResolver
+): ExtractedFile {
+  const fragment = createEmptyKnowledgeGraph();
+  const resources: Record<string, string> = {};
+
+  const resolveImport = (specifier: string): string | undefined => getModuleResolver().resolve(specifier, filePath);
+
+  const readResource = (resourcePath: string): string | undefined => {
+    const fullPath = join(dirname(filePath), resourcePath);
+    if (!existsSync(fullPath)) return undefined;
+
+    const resourceContent = readFileSync(fullPath, 'utf-8');
+    resources[resourcePath] = hashContent(resourceContent);
+    return resourceContent;
+  };
+
+  try {
+    if (isXliffFile(filePath) || isTranslationJsonFile(filePath)) {
+      const catalog = parseTranslationFile(filePath, content);
+      if (catalog) {
+        fragment.translations.push(catalog);
+      }
+      return { fragment };
+    }
+
+    if (isStylesheetFile(filePath)) {
+      const stylesheet = parseStylesheet(filePath, content);
+      if (stylesheet) {
+        fragment.stylesheets.push(stylesheet);
+      }
+      return { fragment };
+    }
+
+    const ast = parse(content, {
+      loc: true,
+      range: true,
+      tokens: true,
+      comment: true,
+      jsx: false
+    });
+
+    const context: ExtractionContext = {
+      filePath,
+      content,
+      ast,
+      graph: fragment,
+      readResource,
+      resolveImport,
+      report: (node, kind, message) => fragment.diagnostics.push(createDiagnostic(filePath, kind, message, node))
+    };
+    visitNodes(ast, extractors, context);
+
+    for (const extractor of extractors) {
+      if (!extractor.extract) continue;
+      try {
+        extractor.extract(withExtractorName(context, extractor.name));
+      } catch (error) {
+        reportExtractorError(fragment, filePath, extractor.name, error);
+      }
+    }
+
+    reportTemplateErrors(fragment, filePath);
+    annotateDocComments(ast, content, fragment);
+    annotateDeclarations(ast, fragment);
+  } catch (error: any) {
+    logger.warn(`Failed to parse ${filePath}: ${error}`);
+    // typescript-estree parse errors carry the position of the offending token
+    fragment.diagnostics.push({
+      kind: 'parse-error',
+      message: error?.message ?? String(error),
+      line: error?.lineNumber,
+      column: error?.column,
+      filePath
+    });
+  }
+
+  return { fragment, resources: Object.keys(resources).length > 0 ? resources : undefined };
+}
+
+// Walks the AST once and hands every node and its parent to the handlers registered for its
+// type, in extractor order, on the way down and (for `:exit` handlers) on the way back up.
+// A handler that throws only loses that extractor's result for that node.
+function visitNodes(ast: any, extractors: CodebaseExtractor[], context: ExtractionContext): void {
+  type Handlers = Map<string, Array<{ extractor: string; handle: (node: any, parent: any) => void }>>;
+  const enterHandlers: Handlers = new Map();
+  const exitHandlers: Handlers = new Map();
+
+  for (const extractor of extractors) {
+    const visitors: NodeVisitors = extractor.visit?.(withExtractorName(context, extractor.name)) ?? {};
+    for (const [key, handle] of Object.entries(visitors)) {
+      const nodeType = key.replace(/:exit$/, '');
+      const handlers = nodeType === key ? enterHandlers : exitHandlers;
+      handlers.set(nodeType, [...(handlers.get(nodeType) || []), { extractor: extractor.name, handle }]);
+    }
+  }
+  if (enterHandlers.size === 0 && exitHandlers.size === 0) return;
+
+  const dispatch = (handlers: Handlers) => (node: any, parent: any) => {
+    handlers.get(node.type)?.forEach(({ extractor, handle }) => {
+      try {
+        handle(node, parent);
+      } catch (error) {
+        reportExtractorError(context.graph, context.filePath, extractor, error, node);
+      }
+    });
+  };
+
+  walkAST(ast, dispatch(enterHandlers), exitHandlers.size > 0 ? dispatch(exitHandlers) : undefined);
+}
+
+export function createDiagnostic(filePath: string, kind: ParseDiagnostic['kind'], message: string, node?: any, extractor?: string): ParseDiagnostic {
+  return {
+    kind,
+    message,
+    extractor,
+    line: node?.loc?.start.line,
+    column: node?.loc?.start.column,
+    location: getSourceRange(node),
+    filePath
+  };
+}
+
+// The context as one extractor sees it, so what it reports is attributed to it
+function withExtractorName(context: ExtractionContext, extractor: string): ExtractionContext {
+  return {
+    ...context,
+    report: (node, kind, message) => context.graph.diagnostics.push(createDiagnostic(context.filePath, kind, message, node, extractor))
+  };
+}
+
+function reportExtractorError(fragment: KnowledgeGraph, filePath: string, extractor: string, error: unknown, node?: any): void {
+  logger.warn(`Extractor '${extractor}' failed on ${filePath}: ${error}`);
+  fragment.diagnostics.push(createDiagnostic(filePath, 'extractor-error', String(error), node, extractor));
+}
+
+// Template parse errors stay on the component as well; this makes them part of the report
+function reportTemplateErrors(fragment: KnowledgeGraph, filePath: string): void {
+  for (const component of fragment.components) {
+    component.template?.errors?.forEach(error => {
+      fragment.diagnostics.push(createDiagnostic(filePath, 'template-error', `${component.name}: ${error}`, undefined, 'components'));
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { FirestoreCollectionRef, KnowledgeGraph } from './knowledge-graph.js';
+
+// Shares document types between references to the same collection, so an untyped
+// `collection(db, 'projects')` in one file gets the `Project` another file types it with, and a
+// collectionGroup() query gets the type of the collections it matches when they agree. Then
+// records which file declares the interface/model/type each collection is typed with.
+// Types shared on an earlier run are dropped first, so this is safe to re-run after a partial parse.
+export function linkFirestoreCollections(graph: KnowledgeGraph): KnowledgeGraph {
+  const typeFiles = new Map<string, string>();
+  for (const entity of [...graph.interfaces, ...graph.models, ...graph.types]) {
+    if (!typeFiles.has(entity.name)) {
+      typeFiles.set(entity.name, entity.filePath);
+    }
+  }
+
+  const pathTypes = new Map<string, string>();
+  const collectionIdTypes = new Map<string, Set<string>>();
+  for (const ref of graph.firestoreCollections) {
+    if (ref.documentTypeInferred) {
+      delete ref.documentType;
+      delete ref.documentTypeInferred;
+    }
+    if (!ref.documentType) continue;
+
+    const key = getCollectionKey(ref);
+    if (!pathTypes.has(key)) {
+      pathTypes.set(key, ref.documentType);
+    }
+    if (!ref.group) {
+      collectionIdTypes.set(ref.collectionId, (collectionIdTypes.get(ref.collectionId) ?? new Set()).add(ref.documentType));
+    }
+  }
+
+  for (const ref of graph.firestoreCollections) {
+    if (!ref.documentType) {
+      const groupTypes = ref.group ? collectionIdTypes.get(ref.collectionId) : undefined;
+      const documentType = pathTypes.get(getCollectionKey(ref)) ?? (groupTypes?.size === 1 ? [...groupTypes][0] : undefined);
+      if (documentType) {
+        ref.documentType = documentType;
+        ref.documentTypeInferred = true;
+      }
+    }
+
+    // Project[] / Partial<Project> -> Project
+    const typeName = ref.documentType?.match(/[A-Za-z_$][\w$]*(?=\[\]|>|$)/)?.[0];
+    ref.documentTypeFilePath = typeName ? typeFiles.get(typeName) : undefined;
+  }
+  return graph;
+}
+
+function getCollectionKey(ref: FirestoreCollectionRef): string {
+  return `${ref.group ? 'group:' : ''}${ref.path}`;
+}
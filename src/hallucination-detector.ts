@@ -1,7 +1,21 @@
 import { parse } from '@typescript-eslint/parser';
 import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
-import { ParsedCodebase, AngularService, AngularComponent } from './codebase-parser.js';
+import { KnowledgeGraph, AngularService, DeprecationInfo, InjectionDependency, ModuleInfo, ProviderRegistration, SignalStoreInfo, StylesheetInfo } from './knowledge-graph.js';
 import { FibreFlowValidators } from './fibreflow-validators.js';
+import {
+  collectClassInjections,
+  collectFunctionInjections,
+  getProviderRegistrations,
+  getTokenName,
+  hasOpaqueProviders,
+  isProvidedApplicationWide
+} from './dependency-injection.js';
+import { findEnvironmentKey } from './environment-catalog.js';
+import { findClosestKey, getLocalizeId, getTranslationKeys } from './translation-catalog.js';
+import { getOwningProject, getProjectScope } from './workspace.js';
+import { collectLocalVariables, collectStyleDeclarations, findStyleReferences, getModuleName, StyleReference } from './stylesheet-parser.js';
+import { isEnabled } from './project-config.js';
+import { basename } from 'path';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -15,6 +29,27 @@ const logger = winston.createLogger({
   ]
 });
 
+// Public API of the NgRx Store (an Observable of the state)
+const NGRX_STORE_METHODS = ['dispatch', 'select', 'selectSignal', 'pipe', 'subscribe', 'addReducer', 'removeReducer', 'lift', 'next', 'error', 'complete'];
+
+// TranslateService/TranslocoService methods and the Transloco translate() function, which take a key
+const TRANSLATE_METHODS = ['instant', 'get', 'stream', 'translate', 'selectTranslate'];
+
+// `'home.title' | translate` in inline templates
+const TRANSLATE_PIPE = /(['"])([^'"\s|]+)\1\s*\|\s*(?:translate|transloco)\b/g;
+
+// Custom properties Angular Material and MDC set at runtime rather than in project stylesheets
+const MATERIAL_CUSTOM_PROPERTY = /^--(mat|mdc)-/;
+
+// Signal store features whose members the graph knows; custom features add members it cannot see
+const KNOWN_STORE_FEATURES = ['withEntities', 'withDevtools'];
+
+// Checks that a project config can switch off by name under "rules"
+export const DETECTOR_RULES = [
+  'imports', 'services', 'methods', 'ngrx', 'environment', 'translations',
+  'styles', 'deprecations', 'injections', 'components', 'typescript', 'fibreflow'
+];
+
 export interface HallucinationResult {
   hasHallucinations: boolean;
   issues: HallucinationIssue[];
@@ -34,9 +69,36 @@ export interface HallucinationIssue {
 }
 
 export class HallucinationDetector {
-  constructor(private knowledgeBase: ParsedCodebase) {}
+  // Detectors over the part of the graph each workspace project can see
+  private projectDetectors = new Map<string, HallucinationDetector>();
+
+  // rules switches checks in DETECTOR_RULES on or off; unlisted ones run
+  constructor(private knowledgeBase: KnowledgeGraph, private rules: Record<string, boolean> = {}) {
+    Object.keys(rules)
+      .filter(rule => !DETECTOR_RULES.includes(rule))
+      .forEach(rule => logger.warn(`Unknown hallucination detector rule '${rule}'`));
+  }
+
+  // Swaps in a freshly patched graph, e.g. after watch mode re-parsed changed files
+  updateKnowledgeBase(knowledgeBase: KnowledgeGraph): void {
+    this.knowledgeBase = knowledgeBase;
+    this.projectDetectors.clear();
+  }
+
+  // stylesheets are the contents of the snippet's styleUrls files, checked like inline styles.
+  // filePath is the file the code is for; in a multi-project workspace only its project and the
+  // libraries it may import count as existing code.
+  async detectHallucinations(code: string, context?: string, stylesheets: string[] = [], filePath?: string): Promise<HallucinationResult> {
+    const project = filePath && this.knowledgeBase.workspaceProjects.length > 1
+      ? getOwningProject(this.knowledgeBase.workspaceProjects, filePath)
+      : undefined;
+    if (project) {
+      if (!this.projectDetectors.has(project.name)) {
+        this.projectDetectors.set(project.name, new HallucinationDetector(getProjectScope(this.knowledgeBase, filePath!), this.rules));
+      }
+      return this.projectDetectors.get(project.name)!.detectHallucinations(code, context, stylesheets);
+    }
 
-  async detectHallucinations(code: string, context?: string): Promise<HallucinationResult> {
     logger.info('Starting hallucination detection');
     
     const issues: HallucinationIssue[] = [];
@@ -51,21 +113,27 @@ export class HallucinationDetector {
         jsx: false
       });
 
-      // Check imports
-      this.checkImports(ast, issues);
-
-      // Check service usage
-      this.checkServiceUsage(ast, issues);
-
-      // Check method calls
-      this.checkMethodCalls(ast, issues);
-
-      // Check component usage
-      this.checkComponentUsage(ast, issues);
-
-      // FibreFlow-specific checks
-      this.checkTypeScriptPatterns(ast, issues);
-      this.checkFibreFlowPatterns(code, issues);
+      const checks: Array<[string, () => void]> = [
+        ['imports', () => this.checkImports(ast, issues)],
+        ['services', () => this.checkServiceUsage(ast, issues)],
+        ['methods', () => this.checkMethodCalls(ast, issues)],
+        // Dispatched actions and selected selectors
+        ['ngrx', () => this.checkNgrxUsage(ast, issues)],
+        ['environment', () => this.checkEnvironmentKeys(ast, issues)],
+        ['translations', () => this.checkTranslationKeys(ast, issues)],
+        // Inline styles and styleUrls files against the project theme
+        ['styles', () => this.checkStyles(ast, stylesheets, issues)],
+        ['deprecations', () => this.checkDeprecatedCalls(ast, issues)],
+        // Injected services and tokens are provided where they are injected
+        ['injections', () => this.checkInjections(ast, issues)],
+        ['components', () => this.checkComponentUsage(ast, issues)],
+        // FibreFlow-specific checks
+        ['typescript', () => this.checkTypeScriptPatterns(ast, issues)],
+        ['fibreflow', () => this.checkFibreFlowPatterns(code, issues)]
+      ];
+      checks
+        .filter(([rule]) => isEnabled(this.rules, rule))
+        .forEach(([, check]) => check());
 
       // Generate suggestions based on issues
       issues.forEach(issue => {
@@ -102,21 +170,81 @@ export class HallucinationDetector {
     this.walkAST(ast, (node: any) => {
       if (node.type === AST_NODE_TYPES.ImportDeclaration) {
         const importPath = node.source.value;
-        
-        // Check if importing from Angular core modules
+
+        // Installed packages are checked against the exports of their .d.ts files
+        if (this.validatePackageImport(node, importPath, issues)) return;
+
+        // Otherwise fall back to the built-in tables for Angular core modules
         if (importPath.startsWith('@angular/')) {
           this.validateAngularImport(node, importPath, issues);
-        }
-        
-        // Check if importing from app services
-        if (importPath.includes('/services/') || importPath.includes('/components/')) {
+        } else {
+          // Check imports from the codebase itself (relative paths and tsconfig path aliases)
           this.validateLocalImport(node, importPath, issues);
         }
       }
     });
   }
 
+  // Returns false when the import is not from an indexed package, so other checks can run
+  private validatePackageImport(node: any, importPath: string, issues: HallucinationIssue[]): boolean {
+    if (importPath.startsWith('.') || importPath.startsWith('/')) return false;
+
+    const segments = importPath.split('/');
+    const packageName = importPath.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+    const pkg = this.knowledgeBase.packages.find(p => p.name === packageName);
+    if (!pkg) return false;
+
+    const entryPoint = pkg.entryPoints.find(e => e.specifier === importPath);
+    if (!entryPoint) {
+      // Without an `exports` map any file in the package can be deep-imported, and wildcard
+      // subpaths of the map have no export table; we can't check those
+      if (!pkg.restrictsSubpaths || pkg.unindexedSubpaths?.some(pattern => this.matchesSubpathPattern(pattern, importPath))) {
+        return true;
+      }
+
+      issues.push({
+        type: 'import',
+        description: `'${importPath}' is not an entry point of ${pkg.name}@${pkg.version}`,
+        severity: 'error',
+        suggestion: `Available entry points: ${pkg.entryPoints.map(e => e.specifier).slice(0, 8).join(', ')}`
+      });
+      return true;
+    }
+
+    node.specifiers?.forEach((specifier: any) => {
+      if (specifier.type !== AST_NODE_TYPES.ImportSpecifier) return;
+
+      const importedName = specifier.imported.name;
+      if (!entryPoint.exports.includes(importedName)) {
+        const similar = entryPoint.exports.filter(name =>
+          name.toLowerCase().includes(importedName.toLowerCase()) ||
+          importedName.toLowerCase().includes(name.toLowerCase())
+        );
+        issues.push({
+          type: 'import',
+          description: `'${importedName}' is not exported from ${importPath} (${pkg.name}@${pkg.version})`,
+          severity: 'error',
+          suggestion: similar.length > 0
+            ? `Did you mean: ${similar.slice(0, 3).join(', ')}?`
+            : `Available exports: ${entryPoint.exports.slice(0, 10).join(', ')}...`
+        });
+      }
+    });
+    return true;
+  }
+
+  // `*` in an `exports` subpath matches any string, slashes included
+  private matchesSubpathPattern(pattern: string, importPath: string): boolean {
+    const wildcard = pattern.indexOf('*');
+    if (wildcard === -1) return pattern === importPath;
+
+    const prefix = pattern.slice(0, wildcard);
+    const suffix = pattern.slice(wildcard + 1);
+    return importPath.length >= prefix.length + suffix.length && importPath.startsWith(prefix) && importPath.endsWith(suffix);
+  }
+
   private validateAngularImport(node: any, importPath: string, issues: HallucinationIssue[]): void {
+    // Only used when @angular packages are not indexed (e.g. node_modules was not installed)
     const validAngularImports: Record<string, string[]> = {
       '@angular/core': ['Component', 'Injectable', 'OnInit', 'OnDestroy', 'Input', 'Output', 'EventEmitter', 'ViewChild', 'AfterViewInit', 'inject', 'signal', 'computed', 'effect'],
       '@angular/common': ['CommonModule', 'DatePipe', 'AsyncPipe', 'NgIf', 'NgFor', 'CurrencyPipe', 'DecimalPipe'],
@@ -177,7 +305,28 @@ export class HallucinationDetector {
   }
 
   private validateLocalImport(node: any, importPath: string, issues: HallucinationIssue[]): void {
-    // Extract service/component name from import path
+    const modules = this.findModules(importPath);
+
+    if (modules.length > 0) {
+      node.specifiers?.forEach((specifier: any) => {
+        if (specifier.type !== AST_NODE_TYPES.ImportSpecifier) return;
+
+        const importedName = specifier.imported.name;
+        if (!modules.some(module => module.exports.includes(importedName))) {
+          issues.push({
+            type: 'import',
+            description: `'${importedName}' is not exported from '${importPath}'`,
+            severity: 'error',
+            suggestion: this.suggestExports(importedName, modules)
+          });
+        }
+      });
+      return;
+    }
+
+    if (!importPath.includes('/services/')) return;
+
+    // No export table for the path: fall back to guessing the service from the file name
     const pathParts = importPath.split('/');
     const fileName = pathParts[pathParts.length - 1].replace('.service', '').replace('.component', '');
     
@@ -198,6 +347,38 @@ export class HallucinationDetector {
     }
   }
 
+  // Imports from a package rather than a file of the codebase or one of its path aliases
+  private isPackageImport(importPath: string | undefined): boolean {
+    return !!importPath && !importPath.startsWith('.') && !importPath.startsWith('/') && this.findModules(importPath).length === 0;
+  }
+
+  // Modules an import specifier may refer to. Path aliases match exactly; relative paths are
+  // matched on their trailing segments because the importing file's location is unknown.
+  private findModules(importPath: string): ModuleInfo[] {
+    const aliased = this.knowledgeBase.modules.filter(module => module.aliases.includes(importPath));
+    if (aliased.length > 0 || !importPath.startsWith('.')) return aliased;
+
+    const tail = importPath.split('/').filter(segment => segment !== '.' && segment !== '..').join('/');
+    if (!tail) return [];
+
+    return this.knowledgeBase.modules.filter(module => {
+      const modulePath = module.filePath.replace(/\\/g, '/').replace(/\.tsx?$/, '');
+      return modulePath.endsWith(`/${tail}`) || modulePath.endsWith(`/${tail}/index`);
+    });
+  }
+
+  private suggestExports(importedName: string, modules: ModuleInfo[]): string {
+    const exports = [...new Set(modules.flatMap(module => module.exports))];
+    const similar = exports.filter(name =>
+      name.toLowerCase().includes(importedName.toLowerCase()) ||
+      importedName.toLowerCase().includes(name.toLowerCase())
+    );
+
+    return similar.length > 0
+      ? `Did you mean: ${similar.join(', ')}?`
+      : `Available exports: ${exports.slice(0, 10).join(', ')}${exports.length > 10 ? ', ...' : ''}`;
+  }
+
   private checkServiceUsage(ast: any, issues: HallucinationIssue[]): void {
     const usedServices = new Map<string, Set<string>>();
 
@@ -226,12 +407,46 @@ export class HallucinationDetector {
       }
     });
 
+    // Types of the fields the code injects, e.g. store -> ProjectsStore, and where the code
+    // imports each name from
+    const injectedTokens = new Map<string, string>();
+    const importPaths = new Map<string, string>();
+    this.walkAST(ast, (node: any) => {
+      if (node.type === AST_NODE_TYPES.ClassDeclaration) {
+        collectClassInjections(node)
+          .filter(injection => injection.name)
+          .forEach(injection => injectedTokens.set(injection.name!, injection.token));
+      } else if (node.type === AST_NODE_TYPES.ImportDeclaration && typeof node.source.value === 'string') {
+        node.specifiers?.forEach((specifier: any) => importPaths.set(specifier.local.name, node.source.value));
+      }
+    });
+
     // Second pass: validate against knowledge base
     usedServices.forEach((methods, serviceProp) => {
+      const token = injectedTokens.get(serviceProp);
+
+      const store = this.findSignalStore(token ?? serviceProp);
+      if (store) {
+        this.checkSignalStoreMembers(store, methods, issues);
+        return;
+      }
+
+      if (token === 'Store' || (!token && serviceProp === 'store' && this.knowledgeBase.ngrxActions.length > 0)) {
+        this.checkNgrxStoreMethods(methods, issues);
+        return;
+      }
+
+      // Services of packages (TranslateService, HttpClient, ...) are not part of the codebase;
+      // validatePackageImport() checks their imports instead
+      if (token && this.isPackageImport(importPaths.get(token))) return;
+
       // Try to find the service in our knowledge base
-      const service = this.findServiceByPropertyName(serviceProp);
-      
-      if (!service) {
+      const candidates = token && this.findServices(token).length > 0
+        ? this.findServices(token)
+        : this.findServicesByPropertyName(serviceProp);
+      const services = this.narrowByImport(candidates, importPaths);
+
+      if (services.length === 0) {
         issues.push({
           type: 'service',
           description: `Unknown service property '${serviceProp}'`,
@@ -241,26 +456,489 @@ export class HallucinationDetector {
         return;
       }
 
-      // Check each method call
+      // Check each method call; with several same-named services a method only has to exist on one
+      const serviceName = services[0].name;
       methods.forEach(methodName => {
-        const method = service.methods.find(m => m.name === methodName);
-        if (!method) {
-          const availableMethods = service.methods
-            .filter(m => m.visibility === 'public')
-            .map(m => m.name)
+        // Calling an accessor is reported only when no same-named service has a method by that name
+        const members = services.flatMap(service => service.methods).filter(m => m.name === methodName);
+        const method = members.find(m => !m.accessor) ?? members[0];
+        if (method?.accessor) {
+          issues.push({
+            type: 'method',
+            description: `'${methodName}' is a ${method.accessor === 'get' ? 'getter' : 'setter'} on ${serviceName}, not a method`,
+            severity: 'warning',
+            suggestion: method.accessor === 'get'
+              ? `Read it as a property: this.${serviceProp}.${methodName}`
+              : `Assign it: this.${serviceProp}.${methodName} = value`
+          });
+        } else if (!method) {
+          const availableMethods = [...new Set(services.flatMap(service => service.methods)
+            .filter(m => m.visibility === 'public' && !m.accessor)
+            .map(m => m.name))]
             .join(', ');
-          
+
+          const example = this.findUsageExample(serviceName);
+          const ambiguity = services.length > 1
+            ? `. ${serviceName} is declared more than once (${services.map(service => service.id ?? service.filePath).join(', ')}); import it to check against one`
+            : '';
           issues.push({
             type: 'method',
-            description: `Method '${methodName}' does not exist on ${service.name}`,
+            description: `Method '${methodName}' does not exist on ${serviceName}`,
             severity: 'error',
-            suggestion: `Available methods: ${availableMethods}`
+            suggestion: `Available methods: ${availableMethods}${example ? `. Example from the codebase: ${example}` : ''}${ambiguity}`
           });
+        } else if (method.docs?.deprecated) {
+          issues.push(this.createDeprecationIssue(`${serviceName}.${methodName}()`, method.docs.deprecated));
         }
       });
     });
   }
 
+  // `ProjectsStore`, or the store a property like `projectsStore` refers to
+  private findSignalStore(name: string): SignalStoreInfo | undefined {
+    const storeName = name.charAt(0).toUpperCase() + name.slice(1);
+    return this.knowledgeBase.signalStores.find(store => store.name === storeName);
+  }
+
+  // Members of a signal store: its state and computed signals and its methods
+  private checkSignalStoreMembers(store: SignalStoreInfo, members: Set<string>, issues: HallucinationIssue[]): void {
+    if (!store.features.every(feature => KNOWN_STORE_FEATURES.includes(feature))) return;
+
+    const known = [...store.state, ...store.computed, ...store.methods];
+    members.forEach(member => {
+      if (!known.includes(member)) {
+        issues.push({
+          type: 'method',
+          description: `'${member}' does not exist on signal store ${store.name}`,
+          severity: 'error',
+          suggestion: `State: ${store.state.join(', ') || 'none'}. Computed: ${store.computed.join(', ') || 'none'}. Methods: ${store.methods.join(', ') || 'none'}`
+        });
+      }
+    });
+  }
+
+  private checkNgrxStoreMethods(methods: Set<string>, issues: HallucinationIssue[]): void {
+    methods.forEach(method => {
+      if (!NGRX_STORE_METHODS.includes(method)) {
+        issues.push({
+          type: 'method',
+          description: `Method '${method}' does not exist on the NgRx Store`,
+          severity: 'error',
+          suggestion: 'Dispatch actions with store.dispatch() and read state with store.select() or store.selectSignal() and a selector'
+        });
+      }
+    });
+  }
+
+  // `store.dispatch(ProjectsActions.load())` must dispatch an action the codebase declares, and
+  // `store.select(selectProjects)` must use a selector it declares
+  private checkNgrxUsage(ast: any, issues: HallucinationIssue[]): void {
+    const { ngrxActions, ngrxSelectors } = this.knowledgeBase;
+
+    this.walkAST(ast, (node: any) => {
+      if (node.type !== AST_NODE_TYPES.CallExpression || node.callee.type !== AST_NODE_TYPES.MemberExpression) return;
+
+      const method = node.callee.property?.name;
+      const argument = node.arguments[0];
+
+      if (method === 'dispatch' && ngrxActions.length > 0) {
+        // dispatch({ type: '[Projects] Load' }) names the action by its type
+        const typeProperty = argument?.type === AST_NODE_TYPES.ObjectExpression
+          ? argument.properties.find((p: any) => p.key?.name === 'type')
+          : undefined;
+        if (typeof typeProperty?.value?.value === 'string') {
+          if (!ngrxActions.some(action => action.type === typeProperty.value.value)) {
+            issues.push({
+              type: 'method',
+              description: `No action has the type '${typeProperty.value.value}'`,
+              severity: 'error',
+              suggestion: 'Dispatch one of the action creators instead of an object literal',
+              location: node.loc?.start
+            });
+          }
+          return;
+        }
+
+        const actionName = argument?.type === AST_NODE_TYPES.CallExpression ? getTokenName(argument.callee) : undefined;
+        if (actionName && !ngrxActions.some(action => action.name === actionName)) {
+          const [group] = actionName.split('.');
+          const groupActions = ngrxActions.filter(action => action.group === group);
+          const similar = ngrxActions
+            .map(action => action.name)
+            .filter(name => name.toLowerCase().includes(actionName.split('.').pop()!.toLowerCase()));
+          issues.push({
+            type: 'method',
+            description: `Action '${actionName}' does not exist`,
+            severity: 'error',
+            suggestion: groupActions.length > 0
+              ? `${group} has: ${groupActions.map(action => action.name.slice(group.length + 1)).join(', ')}`
+              : similar.length > 0 ? `Did you mean: ${similar.slice(0, 3).join(', ')}?` : `Known actions: ${ngrxActions.slice(0, 10).map(action => action.name).join(', ')}`,
+            location: node.loc?.start
+          });
+        }
+      }
+
+      if ((method === 'select' || method === 'selectSignal') && ngrxSelectors.length > 0) {
+        const selectorName = getTokenName(argument);
+        if (!selectorName || !/(^|\.)select[A-Z]/.test(selectorName)) return;
+
+        const known = ngrxSelectors.some(selector => selector.name === selectorName ||
+          (selector.featureVariable && `${selector.featureVariable}.${selector.name}` === selectorName));
+        if (!known) {
+          const name = selectorName.split('.').pop()!;
+          const similar = ngrxSelectors
+            .map(selector => selector.name)
+            .filter(candidate => candidate.toLowerCase().includes(name.slice('select'.length).toLowerCase()));
+          issues.push({
+            type: 'method',
+            description: `Selector '${selectorName}' does not exist`,
+            severity: 'error',
+            suggestion: similar.length > 0
+              ? `Did you mean: ${similar.slice(0, 3).join(', ')}?`
+              : `Known selectors: ${ngrxSelectors.slice(0, 10).map(selector => selector.name).join(', ')}`,
+            location: node.loc?.start
+          });
+        }
+      }
+    });
+  }
+
+  // Keys passed to the translate pipe, TranslateService/TranslocoService and translate() must exist
+  // in the JSON translation files; `$localize` ids should already be in the XLIFF files
+  private checkTranslationKeys(ast: any, issues: HallucinationIssue[]): void {
+    const jsonKeys = getTranslationKeys(this.knowledgeBase, ['json']);
+    const messageIds = getTranslationKeys(this.knowledgeBase, ['xliff', 'localize']);
+    const hasXliff = this.knowledgeBase.translations.some(catalog => catalog.format === 'xliff');
+
+    const reportKey = (key: string, location: any) => {
+      if (jsonKeys.size === 0 || jsonKeys.has(key)) return;
+      const closest = findClosestKey(jsonKeys, key);
+      issues.push({
+        type: 'localization',
+        description: `Translation key '${key}' does not exist in the translation files`,
+        severity: 'error',
+        suggestion: closest ? `Did you mean '${closest}'?` : 'Add the key to every locale file under assets/i18n',
+        location
+      });
+    };
+
+    this.walkAST(ast, (node: any) => {
+      // Inline templates
+      const text = node.type === AST_NODE_TYPES.Literal && typeof node.value === 'string'
+        ? node.value
+        : node.type === AST_NODE_TYPES.TemplateElement ? node.value.cooked : undefined;
+      if (text) {
+        for (const match of text.matchAll(TRANSLATE_PIPE)) {
+          reportKey(match[2], node.loc?.start);
+        }
+      }
+
+      if (node.type === AST_NODE_TYPES.CallExpression && typeof node.arguments[0]?.value === 'string') {
+        const callee = node.callee;
+        // this.translate.instant(...), translocoService.translate(...)
+        const receiver = callee.object?.type === AST_NODE_TYPES.MemberExpression ? callee.object.property?.name : callee.object?.name;
+        const isTranslateCall = callee.type === AST_NODE_TYPES.Identifier
+          ? callee.name === 'translate'
+          : callee.type === AST_NODE_TYPES.MemberExpression &&
+            TRANSLATE_METHODS.includes(callee.property?.name) &&
+            /transl/i.test(receiver ?? '');
+        if (isTranslateCall) {
+          reportKey(node.arguments[0].value, node.loc?.start);
+        }
+      }
+
+      const localizeId = getLocalizeId(node);
+      if (localizeId && hasXliff && !messageIds.has(localizeId)) {
+        const closest = findClosestKey(messageIds, localizeId);
+        issues.push({
+          type: 'localization',
+          description: `$localize id '${localizeId}' is not in the XLIFF translation files`,
+          severity: 'warning',
+          suggestion: closest
+            ? `Did you mean '${closest}'? For a new message, run ng extract-i18n and translate it`
+            : 'Run ng extract-i18n and translate the new message, or it falls back to the source text',
+          location: node.loc?.start
+        });
+      }
+    });
+  }
+
+  // Inline `styles` (an array or, since Angular 17, a single string) and the given styleUrls
+  // contents are checked for hardcoded colors and against the project's theme
+  private checkStyles(ast: any, stylesheets: string[], issues: HallucinationIssue[]): void {
+    const styles: Array<{ content: string; location?: any }> = stylesheets.map(content => ({ content }));
+
+    this.walkAST(ast, (node: any) => {
+      if (node.type !== AST_NODE_TYPES.Property || node.key?.name !== 'styles') return;
+      const values = node.value.type === AST_NODE_TYPES.ArrayExpression ? node.value.elements : [node.value];
+      values.forEach((value: any) => {
+        const content = value?.type === AST_NODE_TYPES.Literal && typeof value.value === 'string'
+          ? value.value
+          : value?.type === AST_NODE_TYPES.TemplateLiteral ? value.quasis.map((quasi: any) => quasi.value.cooked).join('') : undefined;
+        if (content) {
+          styles.push({ content, location: value.loc?.start });
+        }
+      });
+    });
+
+    const themeProperties = [...new Set(this.knowledgeBase.stylesheets.flatMap(sheet => sheet.customProperties))];
+    styles.forEach(({ content, location }) => {
+      FibreFlowValidators.validateThemeUsage(content, issues, themeProperties);
+      this.checkThemeReferences(content, location, issues);
+    });
+  }
+
+  // Mixins, $variables and var(--custom-properties) must be declared by the project's stylesheets
+  // or by the styles themselves. Members of package modules (`@use '@angular/material' as mat`)
+  // are not checked; without parsed stylesheets the built-in FibreFlow mixin list is used.
+  private checkThemeReferences(style: string, location: any, issues: HallucinationIssue[]): void {
+    const stylesheets = this.knowledgeBase.stylesheets;
+    if (stylesheets.length === 0) {
+      FibreFlowValidators.validateSCSSThemeMixins(style, issues);
+      return;
+    }
+    FibreFlowValidators.validateMaterialColorUsage(style, issues);
+
+    const local = collectStyleDeclarations(style);
+    const localVariables = collectLocalVariables(style);
+    const references = findStyleReferences(style);
+    // Bare names (`@use 'theme'`) are project modules only if a stylesheet has that name
+    const isPackageUrl = (url: string) => /^(@|~|sass:)/.test(url) ||
+      (!/[./]/.test(url) && !stylesheets.some(sheet => getModuleName(sheet.filePath) === url));
+    const checksGlobals = !references.globalImports.some(isPackageUrl);
+
+    // The stylesheets a reference can come from: those matching its namespace's module, or any
+    // project stylesheet for un-namespaced names (global styles, @import, `@use ... as *`)
+    const getSources = ({ namespace }: StyleReference): StylesheetInfo[] => {
+      if (!namespace) return checksGlobals ? stylesheets : [];
+      const url = references.uses.get(namespace) ?? namespace;
+      if (isPackageUrl(url)) return [];
+      return stylesheets.filter(sheet => getModuleName(sheet.filePath) === getModuleName(url));
+    };
+
+    // Sass treats - and _ in names as the same character
+    const normalize = (name: string) => name.replace(/_/g, '-');
+    const includes = (names: Iterable<string>, name: string) => [...names].some(candidate => normalize(candidate) === normalize(name));
+
+    const reported = new Set<string>();
+    const check = (kind: string, display: string, name: string, declared: string[], isLocal: boolean, prefix = '') => {
+      if (isLocal || includes(declared, name) || reported.has(display)) return;
+      reported.add(display);
+
+      const closest = findClosestKey(declared, name);
+      const listed = declared.slice(0, 5).map(candidate => `${prefix}${candidate}`).join(', ');
+      issues.push({
+        type: 'style',
+        description: `Unknown ${kind}: ${display}`,
+        severity: 'warning',
+        suggestion: closest
+          ? `Did you mean '${prefix}${closest}'?`
+          : declared.length > 0
+            ? `Declared ${kind}s: ${listed}${declared.length > 5 ? '...' : ''}`
+            : `No ${kind}s are declared in the project stylesheets`,
+        location
+      });
+    };
+
+    references.includes.forEach(reference => {
+      const sources = getSources(reference);
+      if (sources.length === 0) return;
+      const display = reference.namespace ? `${reference.namespace}.${reference.name}` : reference.name;
+      check('mixin', display, reference.name, [...new Set(sources.flatMap(sheet => sheet.mixins))], includes(local.mixins, reference.name));
+    });
+
+    references.variables.forEach(reference => {
+      const sources = getSources(reference);
+      if (sources.length === 0) return;
+      const display = reference.namespace ? `${reference.namespace}.$${reference.name}` : `$${reference.name}`;
+      const declared = [...new Set(sources.flatMap(sheet => sheet.variables))];
+      check('variable', display, reference.name, declared, !reference.namespace && includes(localVariables, reference.name), '$');
+    });
+
+    const declaredProperties = [...new Set(stylesheets.flatMap(sheet => sheet.customProperties))];
+    references.customProperties
+      .filter(name => !MATERIAL_CUSTOM_PROPERTY.test(name))
+      .forEach(name => check('custom property', name, name, declaredProperties, local.customProperties.includes(name)));
+  }
+
+  // `environment.firebase.functionsRegion` must be a key of the environment files. Keys below a
+  // string or number are its own members; keys under an imported spread cannot be checked.
+  private checkEnvironmentKeys(ast: any, issues: HallucinationIssue[]): void {
+    // Local name -> environment variable; snippets often use `environment` without importing it
+    const roots = new Map<string, string>([['environment', 'environment']]);
+    ast.body
+      .filter((statement: any) => statement.type === AST_NODE_TYPES.ImportDeclaration && /environments\/environment/.test(statement.source.value))
+      .forEach((statement: any) => statement.specifiers.forEach((specifier: any) =>
+        roots.set(specifier.local.name, specifier.imported?.name ?? specifier.local.name)));
+
+    const chains = new Map<string, { variable: string; path: string; loc: any }>();
+    this.walkAST(ast, (node: any) => {
+      if (node.type !== AST_NODE_TYPES.MemberExpression) return;
+
+      const properties: string[] = [];
+      let object = node;
+      while (object.type === AST_NODE_TYPES.MemberExpression && !object.computed) {
+        properties.unshift(object.property.name);
+        object = object.object;
+      }
+      if (object.type !== AST_NODE_TYPES.Identifier || !roots.has(object.name) || properties.length === 0) return;
+
+      const variable = roots.get(object.name)!;
+      const path = properties.join('.');
+      chains.set(`${variable}:${path}`, { variable, path, loc: node.loc?.start });
+    });
+
+    // Shortest chains first, so `environment.api.url.x` is not reported again below `environment.api`
+    const reported: string[] = [];
+    [...chains.values()]
+      .sort((a, b) => a.path.length - b.path.length)
+      .forEach(({ variable, path, loc }) => {
+        const environments = this.knowledgeBase.environments.filter(environment => environment.variable === variable);
+        if (environments.length === 0 || reported.some(prefix => path.startsWith(`${prefix}.`))) return;
+
+        // Members of a string, array, ... such as `environment.apiUrl.length`
+        const segments = path.split('.');
+        const isValueMember = segments.slice(1).some((_, index) => environments.some(environment => {
+          const key = findEnvironmentKey(environment, segments.slice(0, index + 1).join('.'));
+          return key && key.type !== 'object' && key.type !== 'unknown';
+        }));
+        if (isValueMember) return;
+
+        const definedIn = environments.filter(environment => findEnvironmentKey(environment, path));
+        if (definedIn.length === 0) {
+          if (environments.some(environment => environment.spreads?.length)) return;
+
+          reported.push(path);
+          const parent = segments.slice(0, -1).join('.');
+          const siblings = [...new Set(environments.flatMap(environment => environment.keys
+            .filter(key => parent ? key.path.startsWith(`${parent}.`) : true)
+            .map(key => key.path.slice(parent ? parent.length + 1 : 0))
+            .filter(key => !key.includes('.'))))];
+          issues.push({
+            type: 'property',
+            description: `'${variable}.${path}' does not exist in the environment files`,
+            severity: 'error',
+            suggestion: `Keys of ${[variable, parent].filter(Boolean).join('.')}: ${siblings.join(', ') || 'none'}`,
+            location: loc
+          });
+          return;
+        }
+
+        const missingIn = environments.filter(environment => environment.missingKeys?.includes(path));
+        if (missingIn.length > 0) {
+          reported.push(path);
+          issues.push({
+            type: 'property',
+            description: `'${variable}.${path}' is not defined in ${missingIn.map(environment => basename(environment.filePath)).join(', ')}`,
+            severity: 'warning',
+            suggestion: 'Add the key to every environment file, or guard against it being undefined in those builds',
+            location: loc
+          });
+        }
+      });
+  }
+
+  // Direct calls of deprecated utility functions and guard/resolver factories, e.g. formatLegacyDate()
+  private checkDeprecatedCalls(ast: any, issues: HallucinationIssue[]): void {
+    const { guards, resolvers, interceptors, utilityFunctions } = this.knowledgeBase;
+    const deprecated = new Map([
+      ...utilityFunctions.filter(fn => fn.isExported),
+      ...[...guards, ...resolvers, ...interceptors].filter(entity => entity.type === 'function')
+    ]
+      .filter(fn => fn.docs?.deprecated)
+      .map(fn => [fn.name, fn.docs!.deprecated!]));
+    if (deprecated.size === 0) return;
+
+    const reported = new Set<string>();
+    this.walkAST(ast, (node: any) => {
+      if (node.type === AST_NODE_TYPES.CallExpression && node.callee.type === AST_NODE_TYPES.Identifier) {
+        const deprecation = deprecated.get(node.callee.name);
+        if (deprecation && !reported.has(node.callee.name)) {
+          reported.add(node.callee.name);
+          issues.push(this.createDeprecationIssue(`${node.callee.name}()`, deprecation, node.loc?.start));
+        }
+      }
+    });
+  }
+
+  // Services and InjectionTokens of the codebase injected by the code's classes and functions must
+  // have a provider the injector can reach: a providedIn/app-wide one, or one on the component,
+  // route or NgModule the consumer lives under. Unknown tokens are left to the import checks.
+  private checkInjections(ast: any, issues: HallucinationIssue[]): void {
+    const consumers: Array<{ name: string; rootScoped: boolean; injections: InjectionDependency[] }> = [];
+
+    ast.body.forEach((statement: any) => {
+      const node = statement.declaration ?? statement;
+      if (node.type === AST_NODE_TYPES.ClassDeclaration) {
+        const injectable = node.decorators?.find((d: any) => d.expression?.callee?.name === 'Injectable');
+        const providedIn = injectable?.expression?.arguments?.[0]?.properties?.find((p: any) => p.key?.name === 'providedIn');
+        consumers.push({ name: node.id?.name ?? 'class', rootScoped: !!providedIn, injections: collectClassInjections(node) });
+      } else if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+        consumers.push({ name: node.id?.name ?? 'function', rootScoped: false, injections: collectFunctionInjections(node.body) });
+      } else if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+        node.declarations
+          .filter((decl: any) => decl.init?.type === AST_NODE_TYPES.ArrowFunctionExpression || decl.init?.type === AST_NODE_TYPES.FunctionExpression)
+          .forEach((decl: any) => consumers.push({ name: decl.id.name, rootScoped: false, injections: collectFunctionInjections(decl.init.body) }));
+      }
+    });
+
+    consumers.forEach(consumer => consumer.injections
+      .filter(injection => !injection.optional)
+      .forEach(injection => {
+        const service = this.knowledgeBase.services.find(s => s.name === injection.token);
+        const token = this.knowledgeBase.injectionTokens.find(t => t.name === injection.token);
+        const store = this.knowledgeBase.signalStores.find(t => t.name === injection.token);
+        if (!service && !token && !store) return;
+
+        const registrations = getProviderRegistrations(this.knowledgeBase, injection.token);
+        if (registrations.length === 0) {
+          // provideX() functions of the codebase may provide it without the graph knowing
+          const opaque = hasOpaqueProviders(this.knowledgeBase);
+          issues.push({
+            type: 'service',
+            description: opaque
+              ? `${injection.token} is injected into ${consumer.name} but no provider was found for it outside provideX() and importProvidersFrom() calls`
+              : `${injection.token} is injected into ${consumer.name} but is not provided anywhere`,
+            severity: opaque ? 'warning' : 'error',
+            suggestion: service
+              ? `Add providedIn: 'root' to the @Injectable() of ${service.name} or list it in the providers of the component or route that needs it`
+              : store
+                ? `Pass { providedIn: 'root' } to the signalStore() of ${store.name} or list it in the providers of the component that uses it`
+                : `Provide ${injection.token} in app.config.ts ({ provide: ${injection.token}, useValue: ... }) or give the token a factory`
+          });
+          return;
+        }
+
+        if (isProvidedApplicationWide(this.knowledgeBase, registrations) || registrations.some(r => r.owner === consumer.name)) return;
+
+        const owners = registrations.map(r => this.describeProviderRegistration(r)).join(', ');
+        issues.push({
+          type: 'service',
+          description: consumer.rootScoped
+            ? `${injection.token} cannot be injected into the root service ${consumer.name}: it is only provided by ${owners}`
+            : `${injection.token} is only provided by ${owners}, so ${consumer.name} can only inject it below those`,
+          severity: consumer.rootScoped ? 'error' : 'warning',
+          suggestion: `Provide ${injection.token} application-wide (providedIn: 'root' or app.config.ts) or inject it only inside ${owners}`
+        });
+      }));
+  }
+
+  private describeProviderRegistration(registration: ProviderRegistration): string {
+    return registration.scope === 'route'
+      ? `route '${registration.owner}'`
+      : `${registration.owner ?? basename(registration.filePath)} (${registration.scope})`;
+  }
+
+  private createDeprecationIssue(name: string, deprecation: DeprecationInfo, location?: HallucinationIssue['location']): HallucinationIssue {
+    return {
+      type: 'method',
+      description: `${name} is deprecated${deprecation.message ? `: ${deprecation.message}` : ''}`,
+      severity: 'warning',
+      suggestion: deprecation.replacement ? `Use ${deprecation.replacement} instead` : undefined,
+      location
+    };
+  }
+
   private checkMethodCalls(ast: any, issues: HallucinationIssue[]): void {
     this.walkAST(ast, (node: any) => {
       if (node.type === AST_NODE_TYPES.CallExpression) {
@@ -338,8 +1016,29 @@ export class HallucinationDetector {
   }
 
   private validateRxJSOperator(operator: string, issues: HallucinationIssue[], location?: any): void {
-    // Use the comprehensive FibreFlow validator for RxJS v7.8
-    FibreFlowValidators.validateRxJSOperator(operator, issues);
+    // Operators exported by the installed RxJS version (rxjs 7.2+ also exports them from 'rxjs')
+    const rxjs = this.knowledgeBase.packages.find(p => p.name === 'rxjs');
+    if (!rxjs) {
+      // Offline fallback: the FibreFlow validator's list for RxJS v7.8
+      FibreFlowValidators.validateRxJSOperator(operator, issues);
+      return;
+    }
+
+    const operators = rxjs.entryPoints
+      .filter(e => e.specifier === 'rxjs' || e.specifier === 'rxjs/operators')
+      .flatMap(e => e.exports);
+    if (!operators.includes(operator)) {
+      const similar = operators.filter(op => op.toLowerCase().includes(operator.toLowerCase()));
+      issues.push({
+        type: 'method',
+        description: `'${operator}' is not exported by RxJS ${rxjs.version}`,
+        severity: 'error',
+        suggestion: similar.length > 0
+          ? `Did you mean: ${similar.slice(0, 3).join(', ')}?`
+          : `Common operators: map, filter, tap, switchMap, catchError`,
+        location
+      });
+    }
   }
 
   private validateComponentMethod(methodName: string, issues: HallucinationIssue[], location?: any): void {
@@ -384,7 +1083,18 @@ export class HallucinationDetector {
     }
   }
 
-  private findServiceByPropertyName(propName: string): AngularService | undefined {
+  // A real call of one of the class's methods, e.g. `this.projectService.getAll() (project-list.component.ts:12)`
+  private findUsageExample(className: string): string | undefined {
+    const site = (this.knowledgeBase.callSites ?? []).find(s => s.resolved && s.className === className);
+    return site ? `${site.code} (${basename(site.filePath)}:${site.line})` : undefined;
+  }
+
+  // Every service with the name; classes in different files may share one
+  private findServices(name: string): AngularService[] {
+    return this.knowledgeBase.services.filter(s => s.name === name);
+  }
+
+  private findServicesByPropertyName(propName: string): AngularService[] {
     // Common naming patterns: authService -> AuthService
     const possibleServiceNames = [
       propName.charAt(0).toUpperCase() + propName.slice(1), // capitalize
@@ -393,11 +1103,25 @@ export class HallucinationDetector {
     ];
 
     for (const serviceName of possibleServiceNames) {
-      const service = this.knowledgeBase.services.find(s => s.name === serviceName);
-      if (service) return service;
+      const services = this.findServices(serviceName);
+      if (services.length > 0) return services;
     }
 
-    return undefined;
+    return [];
+  }
+
+  // Same-named services narrowed to the ones the code's import of that name can refer to: the
+  // file itself or a barrel re-exporting it. Left as they are when the import doesn't decide.
+  private narrowByImport(services: AngularService[], importPaths: Map<string, string>): AngularService[] {
+    if (services.length < 2) return services;
+
+    const importPath = importPaths.get(services[0].name);
+    if (!importPath) return services;
+
+    const modules = this.findModules(importPath);
+    const imported = services.filter(service => modules.some(module =>
+      module.filePath === service.filePath || module.reExports.some(reExport => reExport.resolvedPath === service.filePath)));
+    return imported.length > 0 ? imported : services;
   }
 
   private isObservableChain(node: any): boolean {
@@ -497,22 +1221,6 @@ export class HallucinationDetector {
     // Check for Sentry usage
     FibreFlowValidators.validateSentryUsage(code, issues);
 
-    // Check for hardcoded colors in styles
-    const styleMatches = code.match(/styles:\s*\[[\s\S]*?\]/g);
-    if (styleMatches) {
-      styleMatches.forEach(style => {
-        FibreFlowValidators.validateThemeUsage(style, issues);
-      });
-    }
-
-    // Check SCSS theme mixins
-    const scssMatches = code.match(/styles:\s*\[`[\s\S]*?`\]/g);
-    if (scssMatches) {
-      scssMatches.forEach(scss => {
-        FibreFlowValidators.validateSCSSThemeMixins(scss, issues);
-      });
-    }
-
     // Check for US date formats
     const dateMatches = code.match(/\d{1,2}\/\d{1,2}\/\d{4}/g);
     if (dateMatches) {
@@ -0,0 +1,24 @@
+import { KnowledgeGraph } from './knowledge-graph.js';
+
+// Records on every interceptor the files that register it: functional interceptors through
+// provideHttpClient(withInterceptors([...])) and class interceptors through HTTP_INTERCEPTORS
+// providers. Registrations usually live in app.config.ts, away from the interceptors themselves.
+export function linkHttpInterceptors(graph: KnowledgeGraph): KnowledgeGraph {
+  const registrations = new Map<string, string[]>();
+  const register = (name: string, filePath: string) => {
+    const files = registrations.get(name) || [];
+    if (!files.includes(filePath)) {
+      registrations.set(name, [...files, filePath]);
+    }
+  };
+
+  graph.httpClients.forEach(client => client.interceptors.forEach(name => register(name, client.filePath)));
+  graph.providers
+    .filter(provider => provider.token === 'HTTP_INTERCEPTORS' && provider.target)
+    .forEach(provider => register(provider.target!, provider.filePath));
+
+  for (const interceptor of graph.interceptors) {
+    interceptor.registeredIn = registrations.get(interceptor.name);
+  }
+  return graph;
+}
@@ -0,0 +1,181 @@
+import { resolve } from 'path';
+import { getEntityId } from './entity-ids.js';
+import { ClassHeritage, KnowledgeGraph, MethodInfo, MethodSignature, ModuleInfo, ParameterInfo, PropertyInfo } from './knowledge-graph.js';
+import { ModuleResolver, findDeclaringFile } from './module-resolver.js';
+
+interface ClassEntity extends ClassHeritage {
+  name: string;
+  methods: MethodInfo[];
+  properties?: PropertyInfo[];
+  staticMethods?: MethodInfo[];
+  filePath: string;
+}
+
+// Collections whose entities get the members of their superclass chain merged in
+const FLATTENED_COLLECTIONS = ['services', 'components', 'abstractClasses'] as const;
+
+// Merges members declared on base classes into every service, component and abstract class
+// that extends them, across files. Generic parameters are substituted with the type arguments
+// of the `extends` clause and each merged member records the class that declares it.
+// Base classes are found through the import of the `extends` clause, following barrels, so a
+// class of the same name elsewhere is never picked up. Needs resolveModuleExports() to have run.
+// Previously merged members are dropped first, so this is safe to re-run after a partial parse.
+export function flattenInheritedMembers(graph: KnowledgeGraph, resolver: ModuleResolver): KnowledgeGraph {
+  // Keyed by entity id; entities of files parsed since the last assignEntityIds() have none yet
+  const classes = new Map<string, ClassEntity>();
+
+  for (const collection of FLATTENED_COLLECTIONS) {
+    for (const entity of graph[collection] as ClassEntity[]) {
+      entity.methods = entity.methods.filter(member => !member.inheritedFrom);
+      entity.properties = entity.properties?.filter(member => !member.inheritedFrom);
+      entity.staticMethods = entity.staticMethods?.filter(member => !member.inheritedFrom);
+
+      const key = getEntityId(graph.rootPath, entity.filePath, entity.name);
+      if (!classes.has(key)) {
+        classes.set(key, entity);
+      }
+    }
+  }
+
+  const modulesByPath = new Map<string, ModuleInfo>();
+  graph.modules.forEach(module => modulesByPath.set(resolve(module.filePath), module));
+
+  const findBase = (entity: ClassEntity): ClassEntity | undefined => {
+    if (!entity.extends) return undefined;
+    if (!entity.extendsImport) {
+      return classes.get(getEntityId(graph.rootPath, entity.filePath, entity.extends));
+    }
+
+    const importedFile = resolver.resolve(entity.extendsImport.from, entity.filePath);
+    const declaringFile = importedFile && findDeclaringFile(modulesByPath, importedFile, entity.extendsImport.name, new Set());
+    if (!declaringFile) return undefined;
+
+    // A default export is found under its declared name, or as the only class of its file
+    const name = entity.extendsImport.name === 'default' ? entity.extends : entity.extendsImport.name;
+    return classes.get(getEntityId(graph.rootPath, declaringFile, name)) ??
+      (entity.extendsImport.name === 'default' ? findOnlyClass(classes, graph.rootPath, declaringFile) : undefined);
+  };
+
+  for (const collection of FLATTENED_COLLECTIONS) {
+    for (const entity of graph[collection] as ClassEntity[]) {
+      if (!entity.extends) continue;
+
+      const inherited = collectInheritedMembers(findBase, entity, new Set([entity]));
+      entity.methods = mergeMembers(entity.methods, inherited.methods);
+      entity.properties = mergeMembers(entity.properties, inherited.properties);
+      entity.staticMethods = mergeMembers(entity.staticMethods, inherited.staticMethods);
+    }
+  }
+
+  return graph;
+}
+
+function findOnlyClass(classes: Map<string, ClassEntity>, rootPath: string, filePath: string): ClassEntity | undefined {
+  const prefix = getEntityId(rootPath, filePath, '') + '#';
+  const inFile = [...classes.entries()].filter(([key]) => key.startsWith(prefix)).map(([, entity]) => entity);
+  return inFile.length === 1 ? inFile[0] : undefined;
+}
+
+interface InheritedMembers {
+  methods: MethodInfo[];
+  properties: PropertyInfo[];
+  staticMethods: MethodInfo[];
+}
+
+// Walks up the superclass chain, nearest base first, substituting generics at each step
+function collectInheritedMembers(
+  findBase: (entity: ClassEntity) => ClassEntity | undefined,
+  entity: ClassEntity,
+  visited: Set<ClassEntity>
+): InheritedMembers {
+  const inherited: InheritedMembers = { methods: [], properties: [], staticMethods: [] };
+  const base = findBase(entity);
+  if (!base || visited.has(base)) return inherited;
+  visited.add(base);
+
+  const substitutions = new Map<string, string>();
+  base.typeParameters?.forEach((parameter, index) => {
+    substitutions.set(parameter, entity.extendsTypeArguments?.[index] ?? 'unknown');
+  });
+
+  // The base's own members, then what it inherits itself, all in terms of this entity's type arguments
+  const further = collectInheritedMembers(findBase, base, visited);
+  const inherit = <T extends MethodInfo | PropertyInfo>(
+    own: T[] | undefined,
+    inheritedByBase: T[],
+    substitute: (member: T, substitutions: Map<string, string>) => T
+  ): T[] => [
+    ...(own || [])
+      .filter(member => member.visibility !== 'private')
+      .map(member => ({ ...substitute(member, substitutions), inheritedFrom: base.name, inheritedFromFile: base.filePath })),
+    ...inheritedByBase.map(member => substitute(member, substitutions))
+  ];
+
+  inherited.methods = inherit(base.methods, further.methods, substituteMethod);
+  inherited.properties = inherit(base.properties, further.properties, substituteProperty);
+  inherited.staticMethods = inherit(base.staticMethods, further.staticMethods, substituteMethod);
+  return inherited;
+}
+
+// Adds inherited members the entity does not override; nearer bases win over farther ones.
+// Member lists the entity leaves out stay unset when nothing is inherited into them.
+function mergeMembers<T extends MethodInfo | PropertyInfo, M extends T[] | undefined>(members: M, inherited: T[]): M | T[] {
+  if (inherited.length === 0) return members;
+
+  const merged: T[] = [...(members || [])];
+  const names = new Set(merged.map(member => member.name));
+
+  for (const member of inherited) {
+    if (!names.has(member.name)) {
+      merged.push(member);
+      names.add(member.name);
+    }
+  }
+  return merged;
+}
+
+function substituteProperty(property: PropertyInfo, substitutions: Map<string, string>): PropertyInfo {
+  if (substitutions.size === 0) return property;
+
+  const result: PropertyInfo = { ...property };
+  if (result.type) {
+    result.type = substituteType(result.type, substitutions);
+  }
+  if (result.resolvedType) {
+    result.resolvedType = substituteType(result.resolvedType, substitutions);
+  }
+  return result;
+}
+
+function substituteMethod(method: MethodInfo, substitutions: Map<string, string>): MethodInfo {
+  if (substitutions.size === 0) return method;
+
+  const result: MethodInfo = { ...method, parameters: substituteParameters(method.parameters, substitutions) };
+  if (result.returnType) {
+    result.returnType = substituteType(result.returnType, substitutions);
+  }
+  if (result.resolvedReturnType) {
+    result.resolvedReturnType = substituteType(result.resolvedReturnType, substitutions);
+  }
+  if (result.overloads) {
+    result.overloads = result.overloads.map((overload: MethodSignature) => ({
+      ...overload,
+      parameters: substituteParameters(overload.parameters, substitutions),
+      returnType: overload.returnType && substituteType(overload.returnType, substitutions),
+      resolvedReturnType: overload.resolvedReturnType && substituteType(overload.resolvedReturnType, substitutions)
+    }));
+  }
+  return result;
+}
+
+function substituteParameters(parameters: ParameterInfo[], substitutions: Map<string, string>): ParameterInfo[] {
+  return parameters.map(parameter => ({
+    ...parameter,
+    type: parameter.type && substituteType(parameter.type, substitutions),
+    resolvedType: parameter.resolvedType && substituteType(parameter.resolvedType, substitutions)
+  }));
+}
+
+function substituteType(type: string, substitutions: Map<string, string>): string {
+  return type.replace(/\b[A-Za-z_$][\w$]*\b/g, name => substitutions.get(name) ?? name);
+}
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import winston from 'winston';
+import {
+  KnowledgeGraph,
+  KnowledgeGraphCollection,
+  KnowledgeGraphEntity,
+  KNOWLEDGE_GRAPH_COLLECTIONS,
+  KNOWLEDGE_GRAPH_SCHEMA_VERSION,
+  createEmptyKnowledgeGraph,
+  getCollectionEntities,
+  getEntityName,
+  getKnowledgeGraphStats
+} from './knowledge-graph.js';
+import { ParseManifest, ParseSnapshot, loadParseManifest, saveParseManifest } from './parse-manifest.js';
+import { ParseDiagnosticsReport, createParseDiagnosticsReport } from './parse-diagnostics.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+export interface KnowledgeGraphIndex {
+  version: string;
+  created: string;
+  rootPath: string;
+  totalSize: number;
+  chunks: ChunkInfo[];
+  summary: Record<KnowledgeGraphCollection, number>;
+  quickLookup: Partial<Record<KnowledgeGraphCollection, { [id: string]: string }>>; // entity id -> chunk file
+}
+
+export interface ChunkInfo {
+  id: string;
+  file: string;
+  size: number;
+  collection: KnowledgeGraphCollection;
+  contains: string[];
+}
+
+// Collections that get an entity id -> chunk entry in the index for fast lookups. Keyed by id
+// rather than name so same-named classes in different files both get an entry.
+const QUICK_LOOKUP_COLLECTIONS: KnowledgeGraphCollection[] = [
+  'components',
+  'services',
+  'guards',
+  'interceptors',
+  'utilityFunctions'
+];
+
+// Writes a knowledge graph as size-bounded chunk files plus index.json, summary.json and the parse
+// diagnostics as diagnostics.json, and the parse manifest used for incremental re-parsing as manifest.json
+export class KnowledgeGraphWriter {
+  private readonly MAX_CHUNK_SIZE = 200 * 1024 * 1024; // 200MB per chunk
+
+  constructor(private outputDir: string = 'knowledge-graphs') {}
+
+  write(graph: KnowledgeGraph, manifest?: ParseManifest): KnowledgeGraphIndex {
+    mkdirSync(this.outputDir, { recursive: true });
+
+    if (manifest) {
+      saveParseManifest(join(this.outputDir, 'manifest.json'), manifest);
+    }
+
+    const chunks: ChunkInfo[] = [];
+    const quickLookup: KnowledgeGraphIndex['quickLookup'] = {};
+    let chunkId = 0;
+
+    for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+      const items = getCollectionEntities(graph, collection);
+      let currentChunk: KnowledgeGraphEntity[] = [];
+      let currentSize = 0;
+
+      const flush = () => {
+        chunks.push(this.saveChunk(chunkId++, collection, currentChunk));
+        currentChunk = [];
+        currentSize = 0;
+      };
+
+      for (const item of items) {
+        const itemSize = JSON.stringify(item).length;
+
+        if (currentSize + itemSize > this.MAX_CHUNK_SIZE && currentChunk.length > 0) {
+          flush();
+        }
+
+        currentChunk.push(item);
+        currentSize += itemSize;
+
+        if (QUICK_LOOKUP_COLLECTIONS.includes(collection) && item.id) {
+          quickLookup[collection] = quickLookup[collection] || {};
+          quickLookup[collection]![item.id] = this.chunkFileName(chunkId, collection);
+        }
+      }
+
+      if (currentChunk.length > 0) {
+        flush();
+      }
+    }
+
+    const index: KnowledgeGraphIndex = {
+      version: graph.schemaVersion,
+      created: graph.generatedAt,
+      rootPath: graph.rootPath,
+      totalSize: chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+      chunks,
+      summary: getKnowledgeGraphStats(graph),
+      quickLookup
+    };
+
+    writeFileSync(
+      join(this.outputDir, 'index.json'),
+      JSON.stringify(index, null, 2)
+    );
+
+    const diagnostics = createParseDiagnosticsReport(graph);
+    this.saveSummary(graph, diagnostics);
+    writeFileSync(
+      join(this.outputDir, 'diagnostics.json'),
+      JSON.stringify(diagnostics, null, 2)
+    );
+
+    logger.info(`Knowledge graph written to ${this.outputDir}/ (${chunks.length} chunks)`);
+    return index;
+  }
+
+  // Reassembles a previously written graph and its manifest, or null if there is none
+  // or it was written with a different schema version
+  load(): ParseSnapshot | null {
+    const indexPath = join(this.outputDir, 'index.json');
+    const manifest = loadParseManifest(join(this.outputDir, 'manifest.json'));
+    if (!existsSync(indexPath) || !manifest) {
+      return null;
+    }
+
+    const index = JSON.parse(readFileSync(indexPath, 'utf-8')) as KnowledgeGraphIndex;
+    if (index.version !== KNOWLEDGE_GRAPH_SCHEMA_VERSION) {
+      return null;
+    }
+
+    const graph = createEmptyKnowledgeGraph(index.rootPath);
+    graph.generatedAt = index.created;
+    for (const chunk of index.chunks) {
+      const items = JSON.parse(readFileSync(join(this.outputDir, chunk.file), 'utf-8'));
+      getCollectionEntities(graph, chunk.collection).push(...items);
+    }
+
+    return { graph, manifest };
+  }
+
+  // The diagnostics of the last graph written, or null if none was
+  loadDiagnostics(): ParseDiagnosticsReport | null {
+    const diagnosticsPath = join(this.outputDir, 'diagnostics.json');
+    return existsSync(diagnosticsPath) ? JSON.parse(readFileSync(diagnosticsPath, 'utf-8')) : null;
+  }
+
+  private chunkFileName(id: number, collection: KnowledgeGraphCollection): string {
+    return `chunk-${id}-${collection}.json`;
+  }
+
+  private saveChunk(id: number, collection: KnowledgeGraphCollection, data: KnowledgeGraphEntity[]): ChunkInfo {
+    const filename = this.chunkFileName(id, collection);
+    const content = JSON.stringify(data, null, 2);
+
+    writeFileSync(join(this.outputDir, filename), content);
+
+    return {
+      id: `chunk-${id}`,
+      file: filename,
+      size: content.length,
+      collection,
+      contains: data.map(getEntityName).filter((name): name is string => Boolean(name))
+    };
+  }
+
+  // Lightweight summary for quick access without loading any chunks
+  private saveSummary(graph: KnowledgeGraph, diagnostics: ParseDiagnosticsReport): void {
+    const summary = {
+      generated: graph.generatedAt,
+      schemaVersion: graph.schemaVersion,
+      stats: getKnowledgeGraphStats(graph),
+      diagnostics: {
+        byKind: diagnostics.byKind,
+        failedFiles: diagnostics.failedFiles.map(file => file.filePath)
+      },
+      topLevel: {
+        components: graph.components.slice(0, 10).map(c => ({ name: c.name, selector: c.selector })),
+        services: graph.services.slice(0, 10).map(s => ({ name: s.name, providedIn: s.providedIn })),
+        guards: graph.guards.map(g => ({ name: g.name, type: g.type, guardType: g.guardType })),
+        interceptors: graph.interceptors.map(i => ({ name: i.name, type: i.type }))
+      }
+    };
+
+    writeFileSync(
+      join(this.outputDir, 'summary.json'),
+      JSON.stringify(summary, null, 2)
+    );
+  }
+}
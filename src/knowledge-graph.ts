@@ -0,0 +1,824 @@
+// Canonical knowledge graph schema shared by the parser, detector, storage and MCP server.
+// Bump KNOWLEDGE_GRAPH_SCHEMA_VERSION whenever an entity shape or collection changes so
+// stale graphs in storage are detected instead of being read with the wrong shape.
+export const KNOWLEDGE_GRAPH_SCHEMA_VERSION = '3.28';
+
+// A TSDoc comment, read from the `/** ... */` block above a declaration
+export interface DocComment {
+  // Text before the first block tag
+  summary?: string;
+  // @param text by parameter name
+  params?: Record<string, string>;
+  returns?: string;
+  deprecated?: DeprecationInfo;
+  internal?: boolean;
+}
+
+export interface DeprecationInfo {
+  message?: string;
+  // What to use instead, from `{@link x}` or "Use x instead" in the @deprecated text
+  replacement?: string;
+}
+
+export interface Documented {
+  docs?: DocComment;
+}
+
+// 1-based line and 0-based column, as in the typescript-estree AST
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Identity shared by every entity in the graph
+export interface Identified {
+  // `<file relative to the root>#<qualified name>`, e.g. 'src/app/core/config.service.ts#ConfigService',
+  // unique across the graph and unchanged by re-parses; set by assignEntityIds()
+  id?: string;
+  // The declaration, or the expression an entity was read from. File-level entities (modules,
+  // environments, catalogs, stylesheets) and installed packages have none.
+  location?: SourceRange;
+  // Whether other files can import it; only set for top-level declarations
+  exported?: boolean;
+}
+
+// A dependency requested through a constructor parameter (`@Inject(TOKEN)` naming the token) or
+// an `inject()` call in a field initialiser, constructor or function body
+export interface InjectionDependency {
+  token: string;
+  via: 'constructor' | 'inject';
+  // Parameter, field or variable that holds the instance
+  name?: string;
+  optional?: boolean;
+  self?: boolean;
+  skipSelf?: boolean;
+  host?: boolean;
+}
+
+// Classes and functional guards/resolvers/interceptors that request dependencies
+export interface Injecting {
+  injections?: InjectionDependency[];
+}
+
+// `T extends Entity = Project`
+export interface TypeParameterInfo {
+  name: string;
+  constraint?: string;
+  default?: string;
+}
+
+// One way a method can be called
+export interface MethodSignature {
+  typeParameters?: TypeParameterInfo[];
+  parameters: ParameterInfo[];
+  returnType?: string;
+  // Set by TypeChecker-backed parsing; includes inferred return types
+  resolvedReturnType?: string;
+}
+
+export interface MethodInfo extends Documented, MethodSignature {
+  name: string;
+  // The overload signatures callers see, in declaration order; the signature of the method itself
+  // is the implementation's. Unset for methods that are not overloaded.
+  overloads?: MethodSignature[];
+  // `get total()` or `set total(value)`; a getter and setter pair is recorded as two members
+  accessor?: 'get' | 'set';
+  // A class field holding an arrow function or function expression: `save = async (p: Project) => ...`
+  isField?: boolean;
+  isAsync: boolean;
+  visibility: 'public' | 'private' | 'protected';
+  isStatic?: boolean;
+  isAbstract?: boolean;
+  // Base class that declares the member when it was flattened in from the superclass chain
+  inheritedFrom?: string;
+  // File of that base class
+  inheritedFromFile?: string;
+  // Call sites plus template references across the codebase, counted by linkCallGraph()
+  usageCount?: number;
+}
+
+export interface ParameterInfo {
+  // The pattern as written for destructured parameters, e.g. '{ id, name }'
+  name: string;
+  type?: string;
+  resolvedType?: string;
+  optional: boolean;
+  defaultValue?: string;
+  // `...ids: string[]`
+  rest?: boolean;
+  // Names a destructured parameter binds, nested patterns included
+  destructured?: string[];
+}
+
+export interface PropertyInfo extends Documented {
+  name: string;
+  type?: string;
+  resolvedType?: string;
+  visibility: 'public' | 'private' | 'protected';
+  readonly: boolean;
+  isStatic?: boolean;
+  inheritedFrom?: string;
+  inheritedFromFile?: string;
+}
+
+// An input declared with @Input() or input()/input.required()/model()
+export interface InputInfo {
+  name: string;
+  alias?: string;
+  type?: string;
+  required: boolean;
+  // Declared with a signal function rather than a decorator
+  signal: boolean;
+  // model() inputs also emit `<name>Change`
+  model: boolean;
+}
+
+// An output declared with @Output() or output()/outputFromObservable()/model()
+export interface OutputInfo {
+  name: string;
+  alias?: string;
+  type?: string;
+  signal: boolean;
+}
+
+// A view or content query declared with @ViewChild() and friends or viewChild()/contentChildren()
+export interface QueryInfo {
+  name: string;
+  kind: 'viewChild' | 'viewChildren' | 'contentChild' | 'contentChildren';
+  // Component/directive class or template reference name the query selects
+  locator?: string;
+  type?: string;
+  required: boolean;
+  signal: boolean;
+}
+
+// Generic parameters and superclass of a class, used to flatten inherited members
+export interface ClassHeritage {
+  typeParameters?: string[];
+  extends?: string;
+  // Module the base class is imported from and the name it is exported under ('default' for a
+  // default export); undefined when it is declared in the same file
+  extendsImport?: { from: string; name: string };
+  extendsTypeArguments?: string[];
+}
+
+// What a component's template (templateUrl or inline) uses, as parsed by @angular/compiler
+export interface ComponentTemplate {
+  inline: boolean;
+  elements: string[];
+  propertyBindings: string[];
+  eventBindings: string[];
+  pipes: string[];
+  structuralDirectives: string[];
+  controlFlowBlocks: string[];
+  referencedMethods: string[];
+  referencedProperties: string[];
+  errors?: string[];
+}
+
+export interface AngularComponent extends Identified, ClassHeritage, Documented, Injecting {
+  name: string;
+  selector?: string;
+  templateUrl?: string;
+  styleUrls?: string[];
+  inputs: string[];
+  outputs: string[];
+  inputDetails?: InputInfo[];
+  outputDetails?: OutputInfo[];
+  queries?: QueryInfo[];
+  methods: MethodInfo[];
+  properties?: PropertyInfo[];
+  staticMethods?: MethodInfo[];
+  filePath: string;
+  standalone?: boolean;
+  imports?: string[];
+  providers?: string[];
+  template?: ComponentTemplate;
+  // Components whose templates use this component's element selector
+  renderedBy?: string[];
+}
+
+export interface AngularService extends Identified, ClassHeritage, Documented, Injecting {
+  name: string;
+  injectable: boolean;
+  providedIn?: string;
+  methods: MethodInfo[];
+  properties: PropertyInfo[];
+  dependencies: string[];
+  filePath: string;
+  staticMethods?: MethodInfo[];
+  // Classes and functions that inject it, filled in by linkDependencyInjection()
+  injectedBy?: string[];
+}
+
+export interface AngularDirective extends Identified, Documented, Injecting {
+  name: string;
+  selector?: string;
+  inputs: string[];
+  outputs: string[];
+  inputDetails?: InputInfo[];
+  outputDetails?: OutputInfo[];
+  queries?: QueryInfo[];
+  methods: MethodInfo[];
+  filePath: string;
+  standalone?: boolean;
+}
+
+export interface AngularPipe extends Identified, Documented, Injecting {
+  name: string;
+  pipeName?: string;
+  methods: MethodInfo[];
+  filePath: string;
+  standalone?: boolean;
+  pure?: boolean;
+}
+
+export type GuardKind = 'canActivate' | 'canActivateChild' | 'canDeactivate' | 'canMatch' | 'canLoad';
+
+export interface AngularGuard extends Identified, Documented, Injecting {
+  name: string;
+  type: 'class' | 'function';
+  guardType?: string; // CanActivate, CanActivateFn, etc.
+  kinds: GuardKind[];
+  // A function returning the guard, registered as `roleGuard('admin')`
+  factory?: boolean;
+  methods?: MethodInfo[];
+  // Absolute URLs of the routes that register it, filled in by linkRouteHandlers()
+  usedBy?: string[];
+  filePath: string;
+}
+
+export interface AngularResolver extends Identified, Documented, Injecting {
+  name: string;
+  type: 'class' | 'function';
+  // T of ResolveFn<T> / Resolve<T>
+  resolvedType?: string;
+  factory?: boolean;
+  methods?: MethodInfo[];
+  // Absolute URLs of the routes that register it, filled in by linkRouteHandlers()
+  usedBy?: string[];
+  filePath: string;
+}
+
+export interface AngularInterceptor extends Identified, Documented, Injecting {
+  name: string;
+  type: 'class' | 'function';
+  factory?: boolean;
+  methods?: MethodInfo[];
+  // Files that register it through withInterceptors() or HTTP_INTERCEPTORS, filled in by
+  // linkHttpInterceptors()
+  registeredIn?: string[];
+  filePath: string;
+}
+
+export interface InterfaceInfo extends Identified, Documented {
+  name: string;
+  properties: PropertyInfo[];
+  methods?: MethodInfo[];
+  filePath: string;
+  extends?: string[];
+}
+
+export interface ModelInfo extends Identified, Documented {
+  name: string;
+  properties: PropertyInfo[];
+  filePath: string;
+}
+
+export interface TypeDefinition extends Identified, Documented {
+  name: string;
+  type: string;
+  filePath: string;
+}
+
+export interface EnumDefinition extends Identified, Documented {
+  name: string;
+  members: string[];
+  filePath: string;
+}
+
+export interface UtilityFunction extends Identified, Documented {
+  name: string;
+  parameters: ParameterInfo[];
+  returnType?: string;
+  resolvedReturnType?: string;
+  isAsync: boolean;
+  filePath: string;
+  isExported: boolean;
+  // Call sites across the codebase, counted by linkCallGraph()
+  usageCount?: number;
+}
+
+export interface AbstractClass extends Identified, ClassHeritage, Documented, Injecting {
+  name: string;
+  methods: MethodInfo[];
+  properties: PropertyInfo[];
+  filePath: string;
+}
+
+export interface CustomProvider extends Identified {
+  token: string;
+  type: 'useClass' | 'useFactory' | 'useValue' | 'useExisting';
+  // The class, factory or existing token it points at, when it is a plain reference
+  target?: string;
+  filePath: string;
+  deps?: string[];
+}
+
+// `export const API_URL = new InjectionToken<string>('API_URL', { providedIn: 'root', factory: ... })`
+export interface InjectionTokenInfo extends Identified, Documented {
+  name: string;
+  description?: string;
+  // T of InjectionToken<T>
+  valueType?: string;
+  providedIn?: string;
+  hasFactory?: boolean;
+  // Classes and functions that inject it, filled in by linkDependencyInjection()
+  injectedBy?: string[];
+  filePath: string;
+}
+
+// Injector a provider is registered in. 'root', 'platform' and 'any' come from `providedIn`,
+// 'environment' from app configs and makeEnvironmentProviders(), 'module' from NgModule
+// providers and 'route', 'component' and 'directive' from the providers of those.
+export type ProviderScope = 'root' | 'platform' | 'any' | 'environment' | 'module' | 'route' | 'component' | 'directive';
+
+// One place a token is provided
+export interface ProviderRegistration extends Identified {
+  token: string;
+  scope: ProviderScope;
+  // The NgModule, component or directive that lists it, or the path of the route
+  owner?: string;
+  // Listed in a component's viewProviders
+  view?: boolean;
+  // 'class' for `providedIn` and plain classes in a providers array; 'opaque' for provideX() calls
+  // of the codebase and importProvidersFrom(), whose token is the function called
+  provider: 'class' | 'opaque' | CustomProvider['type'];
+  target?: string;
+  multi?: boolean;
+  filePath: string;
+}
+
+// `createAction('[Projects] Load', props<{ id: string }>())`, or one event of a
+// `createActionGroup`, named the way it is called: `ProjectsActions.loadProjects`
+export interface NgrxAction extends Identified {
+  name: string;
+  // The action type string, e.g. '[Projects] Load Projects'
+  type: string;
+  // Variable holding the action group
+  group?: string;
+  // T of props<T>()
+  props?: string;
+  filePath: string;
+}
+
+// `createSelector(...)`, `createFeatureSelector(...)` or a selector generated by `createFeature`
+export interface NgrxSelector extends Identified {
+  name: string;
+  // Feature name of createFeatureSelector/createFeature
+  feature?: string;
+  // Variable holding the createFeature result, which exposes generated selectors as properties
+  featureVariable?: string;
+  // Selectors a createSelector combines
+  inputs?: string[];
+  filePath: string;
+}
+
+// `createEffect(...)` as a class property or a functional effect
+export interface NgrxEffect extends Identified {
+  name: string;
+  className?: string;
+  functional: boolean;
+  // Actions passed to ofType()
+  ofType: string[];
+  // `{ dispatch: false }` effects emit no actions
+  dispatch: boolean;
+  filePath: string;
+}
+
+// `signalStore(withState(...), withComputed(...), withMethods(...))`. Its members are called as
+// signals and methods on the injected store.
+export interface SignalStoreInfo extends Identified, Documented {
+  name: string;
+  providedIn?: string;
+  state: string[];
+  computed: string[];
+  methods: string[];
+  // withHooks callbacks: onInit, onDestroy
+  hooks?: string[];
+  // Other features, e.g. withEntities, withDevtools or custom signalStoreFeature()s
+  features: string[];
+  // Classes and functions that inject it, filled in by linkDependencyInjection()
+  injectedBy?: string[];
+  filePath: string;
+}
+
+// A `provideHttpClient(...)` call and the functional interceptors it registers, in order
+export interface HttpClientRegistration extends Identified {
+  interceptors: string[];
+  // withFetch, withInterceptorsFromDi, ...
+  features: string[];
+  filePath: string;
+}
+
+// A lazily imported route target: `() => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES)`
+export interface LazyRouteTarget {
+  specifier: string;
+  // Export the import resolves to; undefined for a default export
+  exportName?: string;
+  // File the specifier resolves to, filled in by resolveRouteTree()
+  resolvedPath?: string;
+}
+
+export interface RouteConfig extends Identified {
+  path: string;
+  component?: string;
+  loadComponent?: LazyRouteTarget;
+  loadChildren?: LazyRouteTarget;
+  redirectTo?: string;
+  pathMatch?: string;
+  // Named router outlet the component renders into; unset for the primary outlet
+  outlet?: string;
+  title?: string;
+  // Guards and resolvers by name; calls such as `roleGuard('admin')` are recorded by callee
+  canActivate?: string[];
+  canActivateChild?: string[];
+  canDeactivate?: string[];
+  canMatch?: string[];
+  canLoad?: string[];
+  resolve?: Record<string, string>;
+  children?: RouteConfig[];
+  // Top-level routes only: the array they are declared in ('default' for a default export)
+  routesVariable?: string;
+  // Top-level routes only: how the array is handed to the router in the same file
+  registeredWith?: RouterRegistration['kind'];
+  // Absolute URL once the route tree is resolved, e.g. '/admin/users/:id'
+  fullPath?: string;
+  params?: string[];
+  // Absolute URL of redirectTo
+  redirectsTo?: string;
+  filePath: string;
+}
+
+// A route array imported from another file and handed to the router, e.g.
+// `provideRouter(routes)` in app.config.ts with `routes` from './app.routes'
+export interface RouterRegistration extends Identified {
+  kind: 'provideRouter' | 'forRoot' | 'forChild';
+  routesVariable: string;
+  from: string;
+  // File `from` resolves to, filled in by resolveRouteTree()
+  resolvedPath?: string;
+  filePath: string;
+}
+
+// `export * from './x'` (names undefined) or `export { A, B } from './x'`
+export interface ReExportInfo {
+  from: string;
+  names?: string[];
+  // File the specifier resolves to, when it is part of the codebase
+  resolvedPath?: string;
+}
+
+// The export table of one source file, and the aliased imports it depends on
+export interface ModuleInfo extends Identified {
+  filePath: string;
+  // tsconfig `paths` specifiers that resolve to this file, e.g. '@core/services'
+  aliases: string[];
+  // Names the file declares and exports itself ('default' for a default export)
+  localExports: string[];
+  reExports: ReExportInfo[];
+  // Everything importable from the file once re-export chains are followed
+  exports: string[];
+  // Files of the codebase it imports through path aliases (`@org/shared/ui`), the way workspace
+  // libraries are consumed
+  imports?: string[];
+}
+
+// An application or library of an Angular CLI or Nx workspace, from angular.json or project.json
+export interface WorkspaceProject extends Identified {
+  name: string;
+  type: 'application' | 'library';
+  // Project and source directories, in the same form as entity file paths
+  root: string;
+  sourceRoot?: string;
+  // Component selector prefix
+  prefix?: string;
+  // Nx tags, used by module boundary rules
+  tags?: string[];
+  // Workspace projects it imports from, plus its Nx implicitDependencies
+  dependencies: string[];
+  implicitDependencies?: string[];
+  // The angular.json or project.json that defines it
+  filePath: string;
+}
+
+// Export table of one installed dependency, read from its .d.ts entry points
+export interface PackageExports extends Identified {
+  name: string;
+  version: string;
+  // package.json has an `exports` map, so only the listed subpaths can be imported
+  restrictsSubpaths: boolean;
+  entryPoints: Array<{
+    specifier: string;
+    exports: string[];
+  }>;
+  // Subpaths of the `exports` map that can be imported but have no export table: wildcard patterns
+  // such as `lodash-es/*` and non-module files such as `pkg/package.json`
+  unindexedSubpaths?: string[];
+}
+
+export interface EnvironmentKey {
+  // Dotted path below the environment object, e.g. 'firebase.projectId'
+  path: string;
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'unknown';
+}
+
+// An `export const environment = { ... }` in src/environments/environment*.ts
+export interface EnvironmentFile extends Identified {
+  // 'default' for environment.ts, otherwise the file suffix: 'prod', 'development', ...
+  variant: string;
+  variable: string;
+  keys: EnvironmentKey[];
+  // Objects spread in from other files, whose keys are not known
+  spreads?: string[];
+  // Keys the other environment files of the same directory define and this one lacks, filled in
+  // by linkEnvironmentKeys()
+  missingKeys?: string[];
+  filePath: string;
+}
+
+// Translation keys from one source: an ngx-translate/Transloco JSON file (nested keys joined with
+// dots), an XLIFF file (unit ids) or the `@@id` custom ids of `$localize` messages in a source file
+export interface TranslationCatalog extends Identified {
+  format: 'json' | 'xliff' | 'localize';
+  // en, fr-CA, ...; undefined for $localize ids
+  locale?: string;
+  keys: string[];
+  filePath: string;
+}
+
+// What a project .scss file declares for other styles to use: the theme's mixins, functions,
+// top-level variables and CSS custom properties
+export interface StylesheetInfo extends Identified {
+  mixins: string[];
+  functions: string[];
+  // Without the $
+  variables: string[];
+  // e.g. --primary-color
+  customProperties: string[];
+  filePath: string;
+}
+
+// A Firestore collection the code reads or writes, once per file. Document ids are `{id}`
+// placeholders, so subcollections appear as templates like `projects/{id}/tasks`.
+export interface FirestoreCollectionRef extends Identified {
+  path: string;
+  // Last path segment, the id collectionGroup() queries match on
+  collectionId: string;
+  // Path of the parent document for subcollections, e.g. `projects/{id}`
+  parentPath?: string;
+  // Referenced through collectionGroup(), i.e. every collection with this id
+  group: boolean;
+  accessors: Array<'collection' | 'doc' | 'collectionGroup'>;
+  // The interface documents are typed with or converted to, as written here or, when this
+  // reference is untyped, at another reference to the same collection
+  documentType?: string;
+  // documentType comes from another reference, filled in by linkFirestoreCollections()
+  documentTypeInferred?: boolean;
+  // Where documentType is declared, filled in by linkFirestoreCollections()
+  documentTypeFilePath?: string;
+  filePath: string;
+}
+
+// One call of a class method or utility function, e.g. `this.projectService.getAll()` with the
+// receiver resolved through constructor injection or inject()
+export interface CallSite extends Identified {
+  // 'ProjectService.getAll' for methods, 'formatDate' for functions
+  callee: string;
+  // Class of the receiver for method calls
+  className?: string;
+  member: string;
+  // Module the called class or function is imported from and the name it is exported under;
+  // undefined when it is declared in the calling file
+  calleeImport?: { from: string; name: string };
+  // Enclosing member or function, e.g. 'ProjectListComponent.ngOnInit'
+  caller?: string;
+  // The call as written, on one line and shortened
+  code: string;
+  line: number;
+  column: number;
+  // The callee exists in the graph; set by linkCallGraph()
+  resolved?: boolean;
+  // Base class that declares an inherited method; set by linkCallGraph()
+  declaredBy?: string;
+  filePath: string;
+}
+
+// Something the parser could not fully extract from a file: the file could not be read or
+// parsed, an extractor threw, Angular rejected a template, type resolution failed, or a construct
+// the extractors cannot represent ('unsupported') or an entity they could not record ('skipped')
+// was left out. Kept in the graph so it is reported with the parse instead of going missing.
+export interface ParseDiagnostic extends Identified {
+  kind: 'parse-error' | 'read-error' | 'extractor-error' | 'template-error' | 'type-error' | 'unsupported' | 'skipped';
+  message: string;
+  extractor?: string;
+  line?: number;
+  column?: number;
+  filePath: string;
+}
+
+export interface KnowledgeGraph {
+  schemaVersion: string;
+  generatedAt: string;
+  rootPath: string;
+  components: AngularComponent[];
+  services: AngularService[];
+  directives: AngularDirective[];
+  pipes: AngularPipe[];
+  guards: AngularGuard[];
+  resolvers: AngularResolver[];
+  interceptors: AngularInterceptor[];
+  httpClients: HttpClientRegistration[];
+  interfaces: InterfaceInfo[];
+  models: ModelInfo[];
+  types: TypeDefinition[];
+  enums: EnumDefinition[];
+  utilityFunctions: UtilityFunction[];
+  abstractClasses: AbstractClass[];
+  providers: CustomProvider[];
+  injectionTokens: InjectionTokenInfo[];
+  providerRegistrations: ProviderRegistration[];
+  ngrxActions: NgrxAction[];
+  ngrxSelectors: NgrxSelector[];
+  ngrxEffects: NgrxEffect[];
+  signalStores: SignalStoreInfo[];
+  routes: RouteConfig[];
+  routerRegistrations: RouterRegistration[];
+  modules: ModuleInfo[];
+  packages: PackageExports[];
+  firestoreCollections: FirestoreCollectionRef[];
+  environments: EnvironmentFile[];
+  translations: TranslationCatalog[];
+  stylesheets: StylesheetInfo[];
+  workspaceProjects: WorkspaceProject[];
+  callSites: CallSite[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export type KnowledgeGraphCollection = Exclude<keyof KnowledgeGraph, 'schemaVersion' | 'generatedAt' | 'rootPath'>;
+
+// An entity of the given collections; of any collection by default
+export type KnowledgeGraphEntity<K extends KnowledgeGraphCollection = KnowledgeGraphCollection> = KnowledgeGraph[K][number];
+
+// The members shared by the class, interface and other named entities, for code that walks them
+// across collections
+export interface MemberOwner {
+  name: string;
+  methods?: MethodInfo[];
+  staticMethods?: MethodInfo[];
+  properties?: PropertyInfo[];
+}
+
+// Every entity collection in the graph, in the order they are reported and stored
+export const KNOWLEDGE_GRAPH_COLLECTIONS: KnowledgeGraphCollection[] = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'httpClients',
+  'interfaces',
+  'models',
+  'types',
+  'enums',
+  'utilityFunctions',
+  'abstractClasses',
+  'providers',
+  'injectionTokens',
+  'providerRegistrations',
+  'ngrxActions',
+  'ngrxSelectors',
+  'ngrxEffects',
+  'signalStores',
+  'routes',
+  'routerRegistrations',
+  'modules',
+  'packages',
+  'firestoreCollections',
+  'environments',
+  'translations',
+  'stylesheets',
+  'workspaceProjects',
+  'callSites',
+  'diagnostics'
+];
+
+export function createEmptyKnowledgeGraph(rootPath: string = ''): KnowledgeGraph {
+  return {
+    schemaVersion: KNOWLEDGE_GRAPH_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    rootPath,
+    components: [],
+    services: [],
+    directives: [],
+    pipes: [],
+    guards: [],
+    resolvers: [],
+    interceptors: [],
+    httpClients: [],
+    interfaces: [],
+    models: [],
+    types: [],
+    enums: [],
+    utilityFunctions: [],
+    abstractClasses: [],
+    providers: [],
+    injectionTokens: [],
+    providerRegistrations: [],
+    ngrxActions: [],
+    ngrxSelectors: [],
+    ngrxEffects: [],
+    signalStores: [],
+    routes: [],
+    routerRegistrations: [],
+    modules: [],
+    packages: [],
+    firestoreCollections: [],
+    environments: [],
+    translations: [],
+    stylesheets: [],
+    workspaceProjects: [],
+    callSites: [],
+    diagnostics: []
+  };
+}
+
+// The entities of a collection, typed so code walking several collections needs no casts
+export function getCollectionEntities<K extends KnowledgeGraphCollection>(graph: KnowledgeGraph, collection: K): Array<KnowledgeGraphEntity<K>> {
+  return graph[collection];
+}
+
+export function setCollectionEntities<K extends KnowledgeGraphCollection>(graph: KnowledgeGraph, collection: K, entities: Array<KnowledgeGraphEntity<K>>): void {
+  (graph as Record<K, Array<KnowledgeGraphEntity<K>>>)[collection] = entities;
+}
+
+// The name an entity is listed by: its name, provider token or path
+export function getEntityName(entity: KnowledgeGraphEntity): string | undefined {
+  if ('name' in entity && entity.name) return entity.name;
+  if ('token' in entity && entity.token) return entity.token;
+  if ('path' in entity && entity.path) return entity.path;
+  return undefined;
+}
+
+export function mergeKnowledgeGraphs(target: KnowledgeGraph, source: KnowledgeGraph): KnowledgeGraph {
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    getCollectionEntities(target, collection).push(...getCollectionEntities(source, collection));
+  }
+  return target;
+}
+
+export function getKnowledgeGraphStats(graph: KnowledgeGraph): Record<KnowledgeGraphCollection, number> {
+  const stats = {} as Record<KnowledgeGraphCollection, number>;
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    stats[collection] = graph[collection].length;
+  }
+  return stats;
+}
+
+// `getAll<T extends Entity>(filter?: Filter, ...ids: string[]): Observable<T[]>`
+export function formatMethodSignature(name: string, signature: MethodSignature): string {
+  const typeParameters = signature.typeParameters?.length
+    ? `<${signature.typeParameters.map(param =>
+      `${param.name}${param.constraint ? ` extends ${param.constraint}` : ''}${param.default ? ` = ${param.default}` : ''}`).join(', ')}>`
+    : '';
+  const parameters = signature.parameters
+    .map(param => `${param.rest ? '...' : ''}${param.name}${param.optional ? '?' : ''}: ${param.type || 'any'}`)
+    .join(', ');
+  return `${name}${typeParameters}(${parameters})${signature.returnType ? `: ${signature.returnType}` : ''}`;
+}
+
+// Whether a call with this many arguments matches the method or one of its overloads
+export function acceptsArgumentCount(method: MethodInfo, count: number): boolean {
+  return (method.overloads ?? [method]).some(signature => {
+    const required = signature.parameters.filter(param => !param.optional && param.defaultValue === undefined && !param.rest).length;
+    const hasRest = signature.parameters.some(param => param.rest);
+    return count >= required && (hasRest || count <= signature.parameters.length);
+  });
+}
+
+// Drops every entity declared in one of the given files, patching the graph in place
+export function removeFileEntities(graph: KnowledgeGraph, filePaths: Set<string>): KnowledgeGraph {
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    // Package exports belong to no file of the project
+    setCollectionEntities(graph, collection, getCollectionEntities(graph, collection)
+      .filter(entity => !('filePath' in entity && filePaths.has(entity.filePath))));
+  }
+  return graph;
+}
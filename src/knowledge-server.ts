@@ -12,10 +12,25 @@ import {
 import { z } from 'zod';
 import { config } from 'dotenv';
 import winston from 'winston';
+import { relative } from 'path';
 
-import { CodebaseParser } from './codebase-parser.js';
+import { CodebaseParser, IncrementalParseResult } from './codebase-parser.js';
 import { HallucinationDetector } from './hallucination-detector.js';
-import { KnowledgeStorage } from './knowledge-storage.js';
+import { KnowledgeStorage, StoredGraphUpdate } from './knowledge-storage.js';
+import { KnowledgeGraphWriter } from './knowledge-graph-writer.js';
+import { CodebaseWatcher } from './codebase-watcher.js';
+import { ParseSnapshot } from './parse-manifest.js';
+import { findUnusedMembers, findUsages } from './call-graph.js';
+import {
+  KNOWLEDGE_GRAPH_COLLECTIONS,
+  KnowledgeGraph,
+  acceptsArgumentCount,
+  formatMethodSignature,
+  getKnowledgeGraphStats
+} from './knowledge-graph.js';
+import { getProjectGraph } from './workspace.js';
+import { ProjectConfig, loadProjectConfig } from './project-config.js';
+import { createParseDiagnosticsReport, formatParseDiagnostics } from './parse-diagnostics.js';
 
 // Load environment variables
 config();
@@ -33,13 +48,18 @@ const logger = winston.createLogger({
 
 // Validation schemas
 const ParseCodebaseSchema = z.object({
-  path: z.string().optional().default('../'),
-  projectName: z.string().optional().default('fibreflow')
+  path: z.string().optional(),
+  projectName: z.string().optional(),
+  incremental: z.boolean().optional().default(true),
+  watch: z.boolean().optional().default(true),
+  resolveTypes: z.boolean().optional().default(false)
 });
 
 const CheckHallucinationsSchema = z.object({
   code: z.string().min(1, 'Code cannot be empty'),
-  context: z.string().optional()
+  context: z.string().optional(),
+  stylesheets: z.array(z.string()).optional(),
+  filePath: z.string().optional()
 });
 
 const SearchKnowledgeSchema = z.object({
@@ -47,11 +67,20 @@ const SearchKnowledgeSchema = z.object({
   type: z.enum(['services', 'components', 'all']).optional().default('all')
 });
 
+const FindUsagesSchema = z.object({
+  name: z.string().optional(),
+  unused: z.boolean().optional().default(false)
+});
+
 class FibreFlowKnowledgeServer {
   private server: Server;
   private codebaseParser: CodebaseParser;
+  private knowledgeGraphWriter: KnowledgeGraphWriter;
   private knowledgeStorage: KnowledgeStorage | null = null;
   private hallucinationDetector: HallucinationDetector | null = null;
+  private codebaseWatcher: CodebaseWatcher | null = null;
+  // The .antihallrc of the last parsed codebase, or the one above the working directory
+  private projectConfig: ProjectConfig | null = null;
 
   constructor() {
     this.server = new Server(
@@ -67,6 +96,7 @@ class FibreFlowKnowledgeServer {
     );
 
     this.codebaseParser = new CodebaseParser();
+    this.knowledgeGraphWriter = new KnowledgeGraphWriter();
 
     this.setupToolHandlers();
     this.setupErrorHandling();
@@ -89,13 +119,26 @@ class FibreFlowKnowledgeServer {
             properties: {
               path: {
                 type: 'string',
-                description: 'Path to the FibreFlow codebase (default: ../ relative to this MCP server)',
-                default: '../'
+                description: 'Path to the FibreFlow codebase (default: the root set in the nearest .antihallrc, else the working directory)'
               },
               projectName: {
                 type: 'string',
-                description: 'Project name for the knowledge graph (default: fibreflow)',
-                default: 'fibreflow'
+                description: 'Project name for the knowledge graph (default: projectName in .antihallrc, else fibreflow)'
+              },
+              incremental: {
+                type: 'boolean',
+                description: 'Only re-parse files whose content changed since the last parse (default: true)',
+                default: true
+              },
+              watch: {
+                type: 'boolean',
+                description: 'Keep the knowledge graph live by re-parsing .ts/.html/.scss files as they change (default: true)',
+                default: true
+              },
+              resolveTypes: {
+                type: 'boolean',
+                description: 'Record TypeChecker-resolved parameter, return and property types using the project tsconfig.json (slower; default: false)',
+                default: false
               }
             }
           }
@@ -113,6 +156,15 @@ class FibreFlowKnowledgeServer {
               context: {
                 type: 'string',
                 description: 'Optional context about what the code is supposed to do'
+              },
+              stylesheets: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'SCSS of the files in the component\'s styleUrls, checked against the project theme like inline styles'
+              },
+              filePath: {
+                type: 'string',
+                description: 'Path of the file the code is for. In Angular CLI/Nx workspaces, validation is scoped to its project and the libraries it may import'
               }
             },
             required: ['code']
@@ -146,8 +198,25 @@ class FibreFlowKnowledgeServer {
             properties: {
               projectName: {
                 type: 'string',
-                description: 'Project name (default: fibreflow)',
-                default: 'fibreflow'
+                description: 'Project name (default: projectName in .antihallrc, else fibreflow)'
+              }
+            }
+          }
+        },
+        {
+          name: 'find_usages',
+          description: 'Find every call site of a service/component method or utility function, or list methods nothing calls',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Method or function, e.g. ProjectService.getAll or formatDate'
+              },
+              unused: {
+                type: 'boolean',
+                description: 'List public methods and exported functions without any call sites instead',
+                default: false
               }
             }
           }
@@ -160,7 +229,7 @@ class FibreFlowKnowledgeServer {
             properties: {
               serviceName: {
                 type: 'string',
-                description: 'Name of the service (e.g., AuthService, ProjectService)'
+                description: 'Name of the service (e.g., AuthService, ProjectService), or its id when several services share the name'
               },
               methodName: {
                 type: 'string',
@@ -199,6 +268,9 @@ class FibreFlowKnowledgeServer {
           
           case 'validate_service_usage':
             return await this.handleValidateServiceUsage(args);
+
+          case 'find_usages':
+            return await this.handleFindUsages(args);
           
           default:
             throw new Error(`Unknown tool: ${name}`);
@@ -218,38 +290,59 @@ class FibreFlowKnowledgeServer {
   }
 
   private async handleParseCodebase(args: unknown): Promise<CallToolResult> {
-    const { path, projectName } = ParseCodebaseSchema.parse(args);
-    
-    logger.info(`Parsing codebase at: ${path}`);
-    
+    const { path: requestedPath, projectName: requestedProjectName, incremental, watch, resolveTypes } = ParseCodebaseSchema.parse(args);
+
     try {
+      this.projectConfig = loadProjectConfig(requestedPath);
+      const path = requestedPath ?? this.projectConfig.root ?? process.cwd();
+      const projectName = requestedProjectName ?? this.projectConfig.projectName;
+      logger.info(`Parsing codebase at: ${path}`);
+
       // Ensure knowledge storage is initialized
       this.ensureKnowledgeStorage();
       
-      // Parse the codebase
-      const codebase = await this.codebaseParser.parseCodebase(path);
+      // A running watcher would patch the graph on disk while it is being re-parsed
+      await this.restartWatcher(null);
+      this.codebaseParser = new CodebaseParser({ resolveTypes, config: this.projectConfig });
+
+      // Parse the codebase, re-using the last graph on disk when only some files changed
+      const previous = incremental ? this.knowledgeGraphWriter.load() : null;
+      // The previous graph is patched in place
+      const previousGeneratedAt = previous?.graph.generatedAt;
+      const previousPackageCount = previous?.graph.packages.length;
+      const result = await this.codebaseParser.parseCodebaseIncremental(path, previous ?? undefined);
+      const { graph: codebase, manifest, changes } = result;
+      this.knowledgeGraphWriter.write(codebase, manifest);
       
-      // Store in Firebase
-      await this.knowledgeStorage!.storeCodebaseKnowledge(codebase, projectName);
+      // Store in Firebase, writing only the changed files when the stored graph is the previous one
+      await this.knowledgeStorage!.storeCodebaseKnowledge(codebase, projectName, result.incremental ? {
+        ...changes,
+        since: previousGeneratedAt!,
+        // Export tables are also built when the previous graph had none
+        packagesChanged: manifest.lockfileHash !== previous!.manifest.lockfileHash || previousPackageCount === 0
+      } : undefined);
       
       // Initialize hallucination detector with the parsed codebase
-      this.hallucinationDetector = new HallucinationDetector(codebase);
+      this.hallucinationDetector = new HallucinationDetector(codebase, this.projectConfig.rules);
+
+      await this.restartWatcher(watch ? { graph: codebase, manifest } : null, projectName);
       
       const responseText = `✅ Successfully parsed FibreFlow codebase!
 
+🔄 **Files:** ${changes.added.length} added, ${changes.changed.length} changed, ${changes.deleted.length} deleted, ${changes.unchanged} unchanged
+
 📊 **Codebase Statistics:**
-- Components: ${codebase.components.length}
-- Services: ${codebase.services.length}
-- Interfaces: ${codebase.interfaces.length}
-- Models: ${codebase.models.length}
+${Object.entries(getKnowledgeGraphStats(codebase)).map(([collection, count]) => `- ${collection}: ${count}`).join('\\n')}
 
 🔍 **Sample Components:**
 ${codebase.components.slice(0, 3).map(c => `- ${c.name} (${c.selector || 'no selector'})`).join('\\n')}
 
 🛠️ **Sample Services:**
 ${codebase.services.slice(0, 3).map(s => `- ${s.name} (${s.methods.length} methods)`).join('\\n')}
+${this.formatWorkspaceProjects(codebase)}
+${formatParseDiagnostics(createParseDiagnosticsReport(codebase), 5)}
 
-The knowledge graph is now ready for hallucination detection!`;
+The knowledge graph is now ready for hallucination detection!${watch ? `\\n\\n👀 Watching ${path} for changes.` : ''}`;
 
       return {
         content: [
@@ -265,12 +358,13 @@ The knowledge graph is now ready for hallucination detection!`;
   }
 
   private async handleCheckHallucinations(args: unknown): Promise<CallToolResult> {
-    const { code, context } = CheckHallucinationsSchema.parse(args);
+    const { code, context, stylesheets, filePath } = CheckHallucinationsSchema.parse(args);
     
     // Ensure we have a knowledge base loaded
     if (!this.hallucinationDetector) {
       this.ensureKnowledgeStorage();
-      const codebase = await this.knowledgeStorage!.getStoredCodebase();
+      const config = this.getProjectConfig();
+      const codebase = await this.knowledgeStorage!.getStoredCodebase(config.projectName);
       if (!codebase) {
         return {
           content: [
@@ -281,10 +375,10 @@ The knowledge graph is now ready for hallucination detection!`;
           ]
         };
       }
-      this.hallucinationDetector = new HallucinationDetector(codebase);
+      this.hallucinationDetector = new HallucinationDetector(codebase, config.rules);
     }
     
-    const result = await this.hallucinationDetector.detectHallucinations(code, context);
+    const result = await this.hallucinationDetector.detectHallucinations(code, context, stylesheets, filePath);
     
     let responseText = '';
     
@@ -362,12 +456,20 @@ Found ${result.issues.length} issue(s):
       if (result.type === 'service') {
         const service = result.item;
         responseText += `📦 **Service: ${service.name}**\\n`;
+        if (service.docs?.summary) {
+          responseText += `   ${service.docs.summary.split('\n')[0]}\\n`;
+        }
         responseText += `   Injectable: ${service.injectable ? 'Yes' : 'No'}\\n`;
-        responseText += `   Dependencies: ${service.dependencies.join(', ') || 'None'}\\n`;
+        responseText += `   Provided in: ${service.providedIn || 'not providedIn (needs a providers entry)'}\\n`;
+        // Older graphs only have the constructor dependencies
+        const dependencies = service.injections?.map(injection => injection.token) ?? service.dependencies;
+        responseText += `   Dependencies: ${dependencies.join(', ') || 'None'}\\n`;
         responseText += `   Methods:\\n`;
         service.methods.slice(0, 5).forEach((method: any) => {
-          const params = method.parameters.map((p: any) => `${p.name}: ${p.type || 'any'}`).join(', ');
-          responseText += `   - ${method.name}(${params})${method.returnType ? ': ' + method.returnType : ''}\\n`;
+          const deprecated = method.docs?.deprecated ? ' (deprecated)' : '';
+          const summary = method.docs?.summary ? ` - ${method.docs.summary.split('\n')[0]}` : '';
+          const accessor = method.accessor ? `${method.accessor} ` : '';
+          responseText += `   - ${accessor}${formatMethodSignature(method.name, method.overloads?.[0] ?? method)}${method.overloads ? ` (+${method.overloads.length - 1} overloads)` : ''}${deprecated}${summary}\\n`;
         });
         if (service.methods.length > 5) {
           responseText += `   ... and ${service.methods.length - 5} more methods\\n`;
@@ -376,6 +478,9 @@ Found ${result.issues.length} issue(s):
       } else if (result.type === 'component') {
         const component = result.item;
         responseText += `🎨 **Component: ${component.name}**\\n`;
+        if (component.docs?.summary) {
+          responseText += `   ${component.docs.summary.split('\n')[0]}\\n`;
+        }
         responseText += `   Selector: ${component.selector || 'N/A'}\\n`;
         responseText += `   Inputs: ${component.inputs.join(', ') || 'None'}\\n`;
         responseText += `   Outputs: ${component.outputs.join(', ') || 'None'}\\n`;
@@ -383,6 +488,13 @@ Found ${result.issues.length} issue(s):
         if (component.methods.length > 3) {
           responseText += ` ... (${component.methods.length} total)`;
         }
+        if (component.template) {
+          // Custom elements contain a dash; plain HTML tags are not worth listing
+          const childSelectors = component.template.elements.filter((element: string) => element.includes('-'));
+          responseText += `\\n   Template elements: ${childSelectors.join(', ') || 'None'}`;
+          responseText += `\\n   Template pipes: ${component.template.pipes.join(', ') || 'None'}`;
+        }
+        responseText += `\\n   Rendered by: ${component.renderedBy?.join(', ') || 'None'}`;
         responseText += '\\n\\n';
       }
     });
@@ -398,8 +510,8 @@ Found ${result.issues.length} issue(s):
   }
 
   private async handleGetCodebaseStats(args: unknown): Promise<CallToolResult> {
-    const { projectName } = z.object({
-      projectName: z.string().optional().default('fibreflow')
+    const { projectName = this.getProjectConfig().projectName ?? 'fibreflow' } = z.object({
+      projectName: z.string().optional()
     }).parse(args);
     
     this.ensureKnowledgeStorage();
@@ -416,13 +528,16 @@ Found ${result.issues.length} issue(s):
       };
     }
     
-    const responseText = `📊 **FibreFlow Codebase Statistics**
+    // diagnostics.json holds the details of the last local parse; only show it if that is the stored graph
+    const diagnostics = this.knowledgeGraphWriter.loadDiagnostics();
+    const diagnosticsText = diagnostics && diagnostics.generated === stats.generatedAt
+      ? `\\n${formatParseDiagnostics(diagnostics)}\\n`
+      : '';
 
-🎨 Components: ${stats.components || 0}
-📦 Services: ${stats.services || 0}
-🔗 Interfaces: ${stats.interfaces || 0}
-📋 Models: ${stats.models || 0}
+    const responseText = `📊 **FibreFlow Codebase Statistics**
 
+${KNOWLEDGE_GRAPH_COLLECTIONS.map(collection => `- ${collection}: ${stats[collection] || 0}`).join('\\n')}
+${diagnosticsText}
 Last Updated: ${stats.lastUpdated ? new Date(stats.lastUpdated.toDate()).toLocaleString() : 'Unknown'}
 
 Use the search_knowledge tool to explore specific components or services.`;
@@ -447,7 +562,9 @@ Use the search_knowledge tool to explore specific components or services.`;
     // Search for the service
     this.ensureKnowledgeStorage();
     const services = await this.knowledgeStorage!.searchServices(serviceName);
-    const service = services.find(s => s.name === serviceName);
+    // Services in different files can share a name; the one declaring the method is checked
+    const matches = services.filter(s => s.id === serviceName || s.name === serviceName);
+    const service = matches.find(s => s.methods.some(m => m.name === methodName)) ?? matches[0];
     
     if (!service) {
       return {
@@ -467,29 +584,34 @@ Use the search_knowledge tool to explore specific components or services.`;
       const publicMethods = service.methods
         .filter((m: any) => m.visibility === 'public')
         .map(m => `${m.name}(${m.parameters.map(p => p.type || 'any').join(', ')})`);
+      const declaredIn = matches.length > 1
+        ? `\\n\\n${serviceName} is declared ${matches.length} times; methods listed for ${service.id}. Others: ${matches.slice(1).map(s => s.id).join(', ')}`
+        : '';
       
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Method '${methodName}' not found on ${serviceName}.\\n\\nAvailable public methods:\\n${publicMethods.join('\\n')}`
+            text: `❌ Method '${methodName}' not found on ${serviceName}.\\n\\nAvailable public methods:\\n${publicMethods.join('\\n')}${declaredIn}`
           } as TextContent
         ]
       };
     }
     
-    // Validate method usage
-    const paramSignature = method.parameters.map(p => `${p.name}: ${p.type || 'any'}`).join(', ');
-    const returnInfo = method.returnType ? `: ${method.returnType}` : '';
+    // Validate method usage; callers of an overloaded method see the overloads
+    const signatures = (method.overloads ?? [method]).map(signature => `${serviceName}.${formatMethodSignature(methodName, signature)}`);
     
     let responseText = `✅ **Valid method found!**\\n\\n`;
-    responseText += `${serviceName}.${methodName}(${paramSignature})${returnInfo}\\n\\n`;
+    responseText += `${signatures.join('\\n')}\\n\\n`;
     responseText += `Visibility: ${method.visibility}\\n`;
     responseText += `Async: ${method.isAsync ? 'Yes' : 'No'}\\n`;
+    if (method.accessor) {
+      responseText += `\\n⚠️ Warning: ${methodName} is a ${method.accessor === 'get' ? 'getter' : 'setter'}; it is ${method.accessor === 'get' ? 'read' : 'assigned'} as a property, not called`;
+    }
     
     if (parameters && parameters.length > 0) {
-      if (parameters.length !== method.parameters.length) {
-        responseText += `\\n⚠️ Warning: Expected ${method.parameters.length} parameters but got ${parameters.length}`;
+      if (!acceptsArgumentCount(method, parameters.length)) {
+        responseText += `\\n⚠️ Warning: No signature of ${methodName} takes ${parameters.length} parameters`;
       }
     }
     
@@ -503,6 +625,116 @@ Use the search_knowledge tool to explore specific components or services.`;
     };
   }
 
+  // Answers from the local graph on disk, which holds every call site and follows watch mode
+  private async handleFindUsages(args: unknown): Promise<CallToolResult> {
+    const { name, unused } = FindUsagesSchema.parse(args);
+
+    const snapshot = this.knowledgeGraphWriter.load();
+    if (!snapshot) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '❌ No knowledge graph found. Please run `parse_fibreflow_codebase` first to analyze your codebase.'
+          } as TextContent
+        ]
+      };
+    }
+
+    let responseText: string;
+    if (unused || !name) {
+      const members = findUnusedMembers(snapshot.graph);
+      responseText = members.length > 0
+        ? `🧹 **${members.length} method(s) and function(s) without call sites:**\\n\\n${members.map(member => `- ${member}`).join('\\n')}`
+        : '✅ Every public method and exported function is called somewhere.';
+    } else {
+      const usages = findUsages(snapshot.graph, name);
+      responseText = usages.length > 0
+        ? `🔗 **${usages.length} usage(s) of ${name}:**\\n\\n${usages.map(site =>
+          `- ${relative(snapshot.graph.rootPath, site.filePath)}:${site.line} in ${site.caller || 'top level'}: \`${site.code}\``).join('\\n')}`
+        : `No call sites found for ${name}.`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText
+        } as TextContent
+      ]
+    };
+  }
+
+  // One line per application/library of a multi-project workspace, with its own graph's size
+  private formatWorkspaceProjects(graph: KnowledgeGraph): string {
+    if (graph.workspaceProjects.length < 2) return '';
+
+    const lines = graph.workspaceProjects.map(project => {
+      const projectGraph = getProjectGraph(graph, project.name);
+      const dependencies = project.dependencies.length > 0 ? ` → ${project.dependencies.join(', ')}` : '';
+      return `- ${project.name} (${project.type}, ${projectGraph.components.length} components, ${projectGraph.services.length} services)${dependencies}`;
+    });
+    return `\\n🗂️ **Workspace Projects:**\\n${lines.join('\\n')}\\n`;
+  }
+
+  private getProjectConfig(): ProjectConfig {
+    this.projectConfig = this.projectConfig ?? loadProjectConfig();
+    return this.projectConfig;
+  }
+
+  // Replaces any running watcher; the detector, the graph on disk and the stored graph follow
+  // every graph update it makes
+  private async restartWatcher(snapshot: ParseSnapshot | null, projectName?: string): Promise<void> {
+    await this.codebaseWatcher?.stop();
+    this.codebaseWatcher = null;
+
+    if (!snapshot) return;
+
+    // Updates made while the previous one is being stored are written together after it. A
+    // failed write leaves the stored graph unknown, so the next one rewrites it completely.
+    let storedAt = snapshot.graph.generatedAt;
+    let pendingUpdate: StoredGraphUpdate | null = null;
+    let storing = false;
+    const storeUpdates = async (graph: KnowledgeGraph) => {
+      storing = true;
+      while (pendingUpdate) {
+        const update: StoredGraphUpdate = pendingUpdate;
+        pendingUpdate = null;
+        const generatedAt = graph.generatedAt;
+        try {
+          await this.knowledgeStorage!.storeCodebaseKnowledge(graph, projectName, update);
+          storedAt = generatedAt;
+        } catch (error) {
+          logger.warn(`Failed to store the updated knowledge graph: ${error}`);
+          storedAt = '';
+        }
+      }
+      storing = false;
+    };
+
+    this.codebaseWatcher = new CodebaseWatcher(this.codebaseParser, snapshot);
+    this.codebaseWatcher.on('updated', ({ graph, manifest, changes }: IncrementalParseResult) => {
+      this.hallucinationDetector?.updateKnowledgeBase(graph);
+      this.knowledgeGraphWriter.write(graph, manifest);
+
+      pendingUpdate = pendingUpdate
+        ? {
+          ...pendingUpdate,
+          added: [...pendingUpdate.added, ...changes.added],
+          changed: [...pendingUpdate.changed, ...changes.changed],
+          deleted: [...pendingUpdate.deleted, ...changes.deleted]
+        }
+        : { added: changes.added, changed: changes.changed, deleted: changes.deleted, since: storedAt, packagesChanged: false };
+      if (!storing) {
+        storeUpdates(graph);
+      }
+    });
+    this.codebaseWatcher.on('error', error => {
+      logger.warn('Codebase watcher error:', error);
+    });
+    this.codebaseWatcher.start();
+  }
+
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
       logger.error('Server error:', error);
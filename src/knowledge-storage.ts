@@ -1,7 +1,20 @@
 import { initializeApp, getApps, App, applicationDefault, cert } from 'firebase-admin/app';
-import { getFirestore, Firestore, FieldValue } from 'firebase-admin/firestore';
+import { getFirestore, Firestore, FieldValue, CollectionReference, DocumentReference } from 'firebase-admin/firestore';
 import { readFileSync } from 'fs';
-import { ParsedCodebase, AngularComponent, AngularService, InterfaceInfo, ModelInfo } from './codebase-parser.js';
+import { join } from 'path';
+import {
+  KnowledgeGraph,
+  AngularComponent,
+  AngularService,
+  KnowledgeGraphEntity,
+  KNOWLEDGE_GRAPH_COLLECTIONS,
+  KNOWLEDGE_GRAPH_SCHEMA_VERSION,
+  createEmptyKnowledgeGraph,
+  getCollectionEntities,
+  getKnowledgeGraphStats,
+  setCollectionEntities
+} from './knowledge-graph.js';
+import { IncrementalParseResult } from './codebase-parser.js';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -15,6 +28,14 @@ const logger = winston.createLogger({
   ]
 });
 
+// What changed since the stored graph, from CodebaseParser
+export interface StoredGraphUpdate extends Pick<IncrementalParseResult['changes'], 'added' | 'changed' | 'deleted'> {
+  // generatedAt of the graph the changes were made to
+  since: string;
+  // The package export tables were rebuilt
+  packagesChanged: boolean;
+}
+
 export class KnowledgeStorage {
   private app!: App;
   private db: Firestore;
@@ -83,86 +104,110 @@ export class KnowledgeStorage {
     }
   }
 
-  async storeCodebaseKnowledge(codebase: ParsedCodebase, projectName: string = 'fibreflow'): Promise<void> {
-    const batch = this.db.batch();
+  // Firestore rejects batches with more than 500 writes
+  private static readonly MAX_BATCH_WRITES = 450;
+  // and 'in' filters with more than 30 values
+  private static readonly MAX_IN_FILTER_VALUES = 30;
+
+  // Doc id for an entity: its graph id, so same-named classes in different files are stored side
+  // by side. Graphs parsed before ids existed fall back to class effects keyed by class and name,
+  // providers by token (registrations also by scope and owner), routes by path and call sites by position.
+  private getEntityDocId(entity: any): string {
+    const key = entity.id ?? (entity.className && entity.name ? `${entity.className}.${entity.name}` : entity.name) ??
+      (entity.scope !== undefined ? `${entity.token}:${entity.scope}:${entity.owner ?? entity.filePath}` : entity.token) ??
+      (entity.path !== undefined ? `${entity.filePath}:${entity.path}` :
+        entity.line !== undefined ? `${entity.filePath}:${entity.line}:${entity.column}` : entity.filePath);
+    return String(key).replace(/\//g, '__') || '_root';
+  }
+
+  // Writes the graph under the project's doc. Given the changes since the stored graph, only the
+  // entities of the added and changed files are written and those of changed and deleted files
+  // that are gone removed; linked fields of entities in other files (usage counts, inherited
+  // members) catch up on the next full write. The project doc is written last, so readers never
+  // take a half-written graph for a complete one.
+  async storeCodebaseKnowledge(codebase: KnowledgeGraph, projectName: string = 'fibreflow', update?: StoredGraphUpdate): Promise<void> {
     const timestamp = FieldValue.serverTimestamp();
+    const projectRef = this.db.collection('knowledge_graph').doc(projectName);
+    // A watcher can patch the graph while it is written; the next update writes what it changed
+    const generatedAt = codebase.generatedAt;
 
     try {
-      // Store project metadata
-      const projectRef = this.db.collection('knowledge_graph').doc(projectName);
-      batch.set(projectRef, {
-        name: projectName,
-        lastUpdated: timestamp,
-        stats: {
-          components: codebase.components.length,
-          services: codebase.services.length,
-          interfaces: codebase.interfaces.length,
-          models: codebase.models.length
+      const stored = (await projectRef.get()).data();
+      const incremental = !!update && stored?.status === 'complete' &&
+        stored.schemaVersion === codebase.schemaVersion &&
+        stored.rootPath === codebase.rootPath &&
+        stored.generatedAt === update.since;
+
+      await projectRef.set({ status: 'writing' }, { merge: true });
+
+      let batch = this.db.batch();
+      let pendingWrites = 0;
+
+      const countWrite = async () => {
+        if (++pendingWrites >= KnowledgeStorage.MAX_BATCH_WRITES) {
+          await batch.commit();
+          batch = this.db.batch();
+          pendingWrites = 0;
         }
-      }, { merge: true });
+      };
+      const queueWrite = async (ref: DocumentReference, data: any) => {
+        batch.set(ref, data);
+        await countWrite();
+      };
+      const queueDelete = async (ref: DocumentReference) => {
+        batch.delete(ref);
+        await countWrite();
+      };
 
-      // Store components
-      for (const component of codebase.components) {
-        const componentRef = this.db
-          .collection('knowledge_graph')
-          .doc(projectName)
-          .collection('components')
-          .doc(component.name);
+      const toPath = (relativePath: string) => join(codebase.rootPath, relativePath);
+      const writtenFiles = new Set(update ? [...update.added, ...update.changed].map(toPath) : []);
+      const staleFiles = update ? [...update.changed, ...update.deleted].map(toPath) : [];
 
-        const cleanComponent = this.cleanData({
-          ...component,
-          lastUpdated: timestamp
-        });
-        batch.set(componentRef, cleanComponent);
-      }
+      for (const collectionName of KNOWLEDGE_GRAPH_COLLECTIONS) {
+        const collectionRef = projectRef.collection(collectionName);
+        // Workspace projects are re-read on every parse and packages re-indexed when the lockfile
+        // changes, outside the file changes
+        const wholeCollection = !incremental || collectionName === 'workspaceProjects' ||
+          (collectionName === 'packages' && update!.packagesChanged);
+        const docIds = new Set<string>();
 
-      // Store services
-      for (const service of codebase.services) {
-        const serviceRef = this.db
-          .collection('knowledge_graph')
-          .doc(projectName)
-          .collection('services')
-          .doc(service.name);
+        for (const entity of getCollectionEntities(codebase, collectionName)) {
+          if (!wholeCollection && !('filePath' in entity && writtenFiles.has(entity.filePath))) continue;
 
-        const cleanService = this.cleanData({
-          ...service,
-          lastUpdated: timestamp
-        });
-        batch.set(serviceRef, cleanService);
-      }
+          const docId = this.getEntityDocId(entity);
+          docIds.add(docId);
 
-      // Store interfaces
-      for (const iface of codebase.interfaces) {
-        const interfaceRef = this.db
-          .collection('knowledge_graph')
-          .doc(projectName)
-          .collection('interfaces')
-          .doc(iface.name);
+          await queueWrite(collectionRef.doc(docId), this.cleanData({
+            ...entity,
+            lastUpdated: timestamp
+          }));
+        }
 
-        const cleanInterface = this.cleanData({
-          ...iface,
-          lastUpdated: timestamp
-        });
-        batch.set(interfaceRef, cleanInterface);
+        // Entities removed from the codebase, and docs stored under an older doc id scheme
+        const candidates = wholeCollection
+          ? await collectionRef.listDocuments()
+          : await this.findFileDocuments(collectionRef, staleFiles);
+        for (const docRef of candidates) {
+          if (!docIds.has(docRef.id)) {
+            await queueDelete(docRef);
+          }
+        }
       }
 
-      // Store models
-      for (const model of codebase.models) {
-        const modelRef = this.db
-          .collection('knowledge_graph')
-          .doc(projectName)
-          .collection('models')
-          .doc(model.name);
-
-        const cleanModel = this.cleanData({
-          ...model,
-          lastUpdated: timestamp
-        });
-        batch.set(modelRef, cleanModel);
+      if (pendingWrites > 0) {
+        await batch.commit();
       }
 
-      await batch.commit();
-      logger.info(`Stored knowledge graph for ${projectName}`);
+      await projectRef.set({
+        name: projectName,
+        status: 'complete',
+        schemaVersion: codebase.schemaVersion,
+        rootPath: codebase.rootPath,
+        generatedAt,
+        lastUpdated: timestamp,
+        stats: getKnowledgeGraphStats(codebase)
+      });
+      logger.info(`Stored knowledge graph for ${projectName}${incremental ? ' (incremental)' : ''}`);
 
     } catch (error) {
       logger.error('Error storing codebase knowledge:', error);
@@ -170,29 +215,49 @@ export class KnowledgeStorage {
     }
   }
 
-  async getStoredCodebase(projectName: string = 'fibreflow'): Promise<ParsedCodebase | null> {
+  // Docs of the entities declared in the given files
+  private async findFileDocuments(collectionRef: CollectionReference, filePaths: string[]): Promise<DocumentReference[]> {
+    const refs: DocumentReference[] = [];
+    for (let start = 0; start < filePaths.length; start += KnowledgeStorage.MAX_IN_FILTER_VALUES) {
+      const snapshot = await collectionRef
+        .where('filePath', 'in', filePaths.slice(start, start + KnowledgeStorage.MAX_IN_FILTER_VALUES))
+        .select()
+        .get();
+      refs.push(...snapshot.docs.map(doc => doc.ref));
+    }
+    return refs;
+  }
+
+  async getStoredCodebase(projectName: string = 'fibreflow'): Promise<KnowledgeGraph | null> {
     try {
-      const projectDoc = await this.db.collection('knowledge_graph').doc(projectName).get();
+      const projectRef = this.db.collection('knowledge_graph').doc(projectName);
+      const projectDoc = await projectRef.get();
       
       if (!projectDoc.exists) {
         logger.warn(`No knowledge graph found for project: ${projectName}`);
         return null;
       }
 
+      const project = projectDoc.data();
+      if (project?.status !== 'complete') {
+        logger.warn(`Stored knowledge graph for ${projectName} is incomplete. Re-parse the codebase.`);
+        return null;
+      }
+      if (project.schemaVersion !== KNOWLEDGE_GRAPH_SCHEMA_VERSION) {
+        logger.warn(`Stored knowledge graph for ${projectName} uses schema ${project.schemaVersion || 'unversioned'}, expected ${KNOWLEDGE_GRAPH_SCHEMA_VERSION}. Re-parse the codebase.`);
+        return null;
+      }
+
       // Fetch all collections in parallel
-      const [componentsSnapshot, servicesSnapshot, interfacesSnapshot, modelsSnapshot] = await Promise.all([
-        this.db.collection('knowledge_graph').doc(projectName).collection('components').get(),
-        this.db.collection('knowledge_graph').doc(projectName).collection('services').get(),
-        this.db.collection('knowledge_graph').doc(projectName).collection('interfaces').get(),
-        this.db.collection('knowledge_graph').doc(projectName).collection('models').get()
-      ]);
-
-      const codebase: ParsedCodebase = {
-        components: componentsSnapshot.docs.map(doc => doc.data() as AngularComponent),
-        services: servicesSnapshot.docs.map(doc => doc.data() as AngularService),
-        interfaces: interfacesSnapshot.docs.map(doc => doc.data() as InterfaceInfo),
-        models: modelsSnapshot.docs.map(doc => doc.data() as ModelInfo)
-      };
+      const snapshots = await Promise.all(
+        KNOWLEDGE_GRAPH_COLLECTIONS.map(collectionName => projectRef.collection(collectionName).get())
+      );
+
+      const codebase = createEmptyKnowledgeGraph(project.rootPath);
+      codebase.generatedAt = project.generatedAt;
+      KNOWLEDGE_GRAPH_COLLECTIONS.forEach((collectionName, index) => {
+        setCollectionEntities(codebase, collectionName, snapshots[index].docs.map(doc => doc.data() as KnowledgeGraphEntity));
+      });
 
       logger.info(`Retrieved knowledge graph for ${projectName}`);
       return codebase;
@@ -218,8 +283,8 @@ export class KnowledgeStorage {
         const service = doc.data() as AngularService;
         const lowerQuery = query.toLowerCase();
 
-        // Check service name
-        if (service.name.toLowerCase().includes(lowerQuery)) {
+        // Check service id and name
+        if (service.id === query || service.name.toLowerCase().includes(lowerQuery)) {
           results.push(service);
           return;
         }
@@ -280,6 +345,7 @@ export class KnowledgeStorage {
       const data = projectDoc.data();
       return {
         ...data?.stats,
+        generatedAt: data?.generatedAt,
         lastUpdated: data?.lastUpdated
       };
 
@@ -292,9 +358,7 @@ export class KnowledgeStorage {
   async clearKnowledgeGraph(projectName: string = 'fibreflow'): Promise<void> {
     try {
       // Delete all subcollections
-      const collections = ['components', 'services', 'interfaces', 'models'];
-      
-      for (const collectionName of collections) {
+      for (const collectionName of KNOWLEDGE_GRAPH_COLLECTIONS) {
         const collectionRef = this.db
           .collection('knowledge_graph')
           .doc(projectName)
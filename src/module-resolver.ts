@@ -0,0 +1,175 @@
+import ts from 'typescript';
+import { basename, dirname, resolve, sep } from 'path';
+import winston from 'winston';
+import { KnowledgeGraph, ModuleInfo } from './knowledge-graph.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+export interface ProjectConfig {
+  configPath: string;
+  parsed: ts.ParsedCommandLine;
+}
+
+// Loads the tsconfig.json at or above rootPath (or the given one), or null if there is none
+export function readProjectConfig(rootPath: string, tsconfigPath?: string): ProjectConfig | null {
+  const configPath = tsconfigPath ?? ts.findConfigFile(resolve(rootPath), ts.sys.fileExists, 'tsconfig.json');
+  if (!configPath) return null;
+
+  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (configFile.error) {
+    logger.warn(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`);
+    return null;
+  }
+
+  return {
+    configPath,
+    parsed: ts.parseJsonConfigFileContent(configFile.config, ts.sys, dirname(configPath))
+  };
+}
+
+// Resolves module specifiers the way the TypeScript compiler does, honouring the project's
+// `baseUrl` and `paths`, and works out which path aliases point at a given file
+export class ModuleResolver {
+  private aliasPatterns: Array<{ alias: string; prefix: string; suffix: string; wildcard: boolean }> = [];
+  private compilerOptions: ts.CompilerOptions;
+
+  constructor(compilerOptions: ts.CompilerOptions = {}, configDir: string = process.cwd()) {
+    // Without an explicit setting TypeScript falls back to classic resolution, which does not
+    // know about index files; every Angular project resolves like Node
+    this.compilerOptions = {
+      ...compilerOptions,
+      moduleResolution: compilerOptions.moduleResolution ?? ts.ModuleResolutionKind.Node10
+    };
+
+    // paths are relative to baseUrl, or to the tsconfig.json that declares them when there is none
+    const pathsBase = compilerOptions.baseUrl ?? (compilerOptions as any).pathsBasePath ?? configDir;
+
+    for (const [alias, targets] of Object.entries(compilerOptions.paths || {})) {
+      for (const target of targets) {
+        const [prefix, suffix = ''] = target.split('*');
+        this.aliasPatterns.push({
+          alias,
+          // resolve() drops the trailing slash that separates the prefix from the wildcard
+          prefix: resolve(pathsBase, prefix) + (prefix.endsWith('/') ? sep : ''),
+          suffix: stripExtension(suffix),
+          wildcard: target.includes('*') && alias.includes('*')
+        });
+      }
+    }
+  }
+
+  static fromProject(rootPath: string, tsconfigPath?: string): ModuleResolver {
+    const config = readProjectConfig(rootPath, tsconfigPath);
+    if (!config) {
+      return new ModuleResolver({}, resolve(rootPath));
+    }
+    return new ModuleResolver(config.parsed.options, dirname(config.configPath));
+  }
+
+  // Absolute path of the source file a specifier resolves to from containingFile
+  resolve(specifier: string, containingFile: string): string | undefined {
+    const { resolvedModule } = ts.resolveModuleName(specifier, resolve(containingFile), this.compilerOptions, ts.sys);
+    return resolvedModule && !resolvedModule.isExternalLibraryImport ? resolvedModule.resolvedFileName : undefined;
+  }
+
+  // Every `paths` alias that resolves to the file, e.g. '@core/services' for core/services/index.ts
+  getAliases(filePath: string): string[] {
+    const withoutExtension = stripExtension(resolve(filePath));
+    const candidates = basename(withoutExtension) === 'index'
+      ? [withoutExtension, dirname(withoutExtension)]
+      : [withoutExtension];
+
+    const aliases = new Set<string>();
+    for (const pattern of this.aliasPatterns) {
+      for (const candidate of candidates) {
+        if (!pattern.wildcard) {
+          if (stripExtension(pattern.prefix) === candidate) {
+            aliases.add(pattern.alias);
+          }
+        } else if (candidate.startsWith(pattern.prefix) && candidate.endsWith(pattern.suffix)) {
+          const matched = candidate.slice(pattern.prefix.length, candidate.length - pattern.suffix.length);
+          if (matched) {
+            aliases.add(pattern.alias.replace('*', matched.split(sep).join('/')));
+          }
+        }
+      }
+    }
+    return [...aliases];
+  }
+}
+
+// Resolves `export * from` / `export { X } from` chains so every module lists the names it
+// really exports, and records the path aliases it can be imported through. Runs over the whole
+// graph because a barrel's exports change when any module it re-exports from changes.
+export function resolveModuleExports(graph: KnowledgeGraph, resolver: ModuleResolver): KnowledgeGraph {
+  const modulesByPath = new Map<string, ModuleInfo>();
+  graph.modules.forEach(module => modulesByPath.set(resolve(module.filePath), module));
+
+  const resolved = new Map<ModuleInfo, Set<string>>();
+
+  const collectExports = (module: ModuleInfo, visiting: Set<ModuleInfo>): Set<string> => {
+    const cached = resolved.get(module);
+    if (cached) return cached;
+
+    const exports = new Set(module.localExports);
+    // Circular barrels: the partial set is all we can say without looping forever
+    if (visiting.has(module)) return exports;
+    visiting.add(module);
+
+    for (const reExport of module.reExports) {
+      reExport.resolvedPath = resolver.resolve(reExport.from, module.filePath);
+      if (reExport.names) {
+        reExport.names.forEach(name => exports.add(name));
+        continue;
+      }
+
+      const target = reExport.resolvedPath && modulesByPath.get(resolve(reExport.resolvedPath));
+      if (target) {
+        // `export *` never re-exports the default export
+        collectExports(target, visiting).forEach(name => name !== 'default' && exports.add(name));
+      }
+    }
+
+    visiting.delete(module);
+    resolved.set(module, exports);
+    return exports;
+  };
+
+  for (const module of graph.modules) {
+    module.exports = [...collectExports(module, new Set())];
+    module.aliases = resolver.getAliases(module.filePath);
+  }
+
+  return graph;
+}
+
+// The file that declares an export, following `export * from` and `export { X } from` through
+// barrels. Files the graph has no module for are taken to declare it.
+export function findDeclaringFile(modulesByPath: Map<string, ModuleInfo>, filePath: string, name: string, visited: Set<string>): string | undefined {
+  const module = modulesByPath.get(resolve(filePath));
+  if (!module || module.localExports.includes(name)) return filePath;
+  if (visited.has(module.filePath)) return undefined;
+  visited.add(module.filePath);
+
+  for (const reExport of module.reExports) {
+    const reExported = reExport.names ? reExport.names.includes(name) : name !== 'default';
+    if (!reExported || !reExport.resolvedPath) continue;
+
+    const declaringFile = findDeclaringFile(modulesByPath, reExport.resolvedPath, name, visited);
+    if (declaringFile) return declaringFile;
+  }
+  return undefined;
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.(d\.)?tsx?$/, '');
+}
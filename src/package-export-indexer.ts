@@ -0,0 +1,176 @@
+import ts from 'typescript';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import winston from 'winston';
+import { PackageExports } from './knowledge-graph.js';
+import { hashContent } from './parse-manifest.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+// Export conditions that can lead to a declaration file, in the order TypeScript prefers them
+const TYPE_CONDITIONS = ['types', 'typings', 'import', 'require', 'node', 'default'];
+
+interface EntryPoint {
+  specifier: string;
+  typesPath: string;
+}
+
+interface PackageEntryPoints {
+  entryPoints: EntryPoint[];
+  unindexedSubpaths: string[];
+}
+
+// Builds exact export lists for the project's installed dependencies by loading the .d.ts entry
+// point of every package subpath (`@angular/material/button`, `rxjs/operators`, ...) into one
+// TypeScript program and asking the checker what each module exports.
+export class PackageExportIndexer {
+  constructor(private projectRoot: string) {}
+
+  // The nearest directory at or above startPath that has a package.json
+  static findProjectRoot(startPath: string): string | null {
+    let dir = resolve(startPath);
+    while (!existsSync(join(dir, 'package.json'))) {
+      const parent = dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+    return dir;
+  }
+
+  // Changes whenever dependencies are installed or upgraded, so a stored index can be reused until then
+  getLockfileHash(): string | undefined {
+    const lockfile = LOCKFILES.map(name => join(this.projectRoot, name)).find(path => existsSync(path));
+    return lockfile ? hashContent(readFileSync(lockfile, 'utf-8')) : undefined;
+  }
+
+  // Dev dependencies are indexed too: test setups, build scripts and tooling such as
+  // @angular/cdk/testing import from them. @types packages are read as the types of the package
+  // they describe rather than on their own.
+  indexDependencies(): PackageExports[] {
+    const packageJson = this.readJson(join(this.projectRoot, 'package.json'));
+    const dependencies = [...new Set([
+      ...Object.keys(packageJson?.dependencies || {}),
+      ...Object.keys(packageJson?.devDependencies || {})
+    ])].filter(name => !name.startsWith('@types/'));
+
+    const packages: Array<{ name: string; version: string; restrictsSubpaths: boolean } & PackageEntryPoints> = [];
+    for (const name of dependencies) {
+      const packageDir = join(this.projectRoot, 'node_modules', name);
+      const manifest = this.readJson(join(packageDir, 'package.json'));
+      if (!manifest) {
+        logger.warn(`Dependency ${name} is not installed; skipping its export table`);
+        continue;
+      }
+
+      const { entryPoints, unindexedSubpaths } = this.findEntryPoints(name, packageDir, manifest);
+      if (entryPoints.length > 0 || unindexedSubpaths.length > 0) {
+        packages.push({ name, version: manifest.version, restrictsSubpaths: !!manifest.exports, entryPoints, unindexedSubpaths });
+      }
+    }
+
+    const program = ts.createProgram({
+      rootNames: packages.flatMap(pkg => pkg.entryPoints.map(entry => entry.typesPath)),
+      options: { noEmit: true, skipLibCheck: true, allowJs: false, moduleResolution: ts.ModuleResolutionKind.Node10 }
+    });
+    const checker = program.getTypeChecker();
+
+    const result = packages.map(pkg => ({
+      name: pkg.name,
+      version: pkg.version,
+      restrictsSubpaths: pkg.restrictsSubpaths,
+      entryPoints: pkg.entryPoints.map(entry => {
+        const sourceFile = program.getSourceFile(entry.typesPath);
+        const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+        return {
+          specifier: entry.specifier,
+          exports: moduleSymbol ? checker.getExportsOfModule(moduleSymbol).map(symbol => symbol.getName()) : []
+        };
+      }),
+      ...(pkg.unindexedSubpaths.length > 0 ? { unindexedSubpaths: pkg.unindexedSubpaths } : {})
+    }));
+
+    logger.info(`Indexed exports of ${result.length} packages (${result.reduce((sum, pkg) => sum + pkg.entryPoints.length, 0)} entry points)`);
+    return result;
+  }
+
+  // Subpaths from the `exports` map, falling back to `types`/`typings` and then @types/<name>
+  private findEntryPoints(name: string, packageDir: string, manifest: any): PackageEntryPoints {
+    const entryPoints: EntryPoint[] = [];
+    const unindexedSubpaths: string[] = [];
+
+    if (manifest.exports && typeof manifest.exports === 'object' && !Array.isArray(manifest.exports)) {
+      const hasSubpaths = Object.keys(manifest.exports).some(key => key.startsWith('.'));
+      const subpaths: Record<string, any> = hasSubpaths ? manifest.exports : { '.': manifest.exports };
+
+      for (const [subpath, target] of Object.entries(subpaths)) {
+        // A null target hides the subpath
+        if (target === null) continue;
+
+        const specifier = subpath === '.' ? name : `${name}/${subpath.replace(/^\.\//, '')}`;
+        // Wildcard subpaths and package.json itself are not modules we can enumerate
+        if (subpath.includes('*') || subpath.endsWith('.json')) {
+          unindexedSubpaths.push(specifier);
+          continue;
+        }
+
+        const types = this.findTypesPath(packageDir, target);
+        if (types) {
+          entryPoints.push({ specifier, typesPath: types });
+        }
+      }
+    }
+
+    if (!entryPoints.some(entry => entry.specifier === name)) {
+      const types = manifest.types ?? manifest.typings ?? 'index.d.ts';
+      if (existsSync(join(packageDir, types))) {
+        entryPoints.push({ specifier: name, typesPath: join(packageDir, types) });
+      } else {
+        // `@scope/pkg` is published as @types/scope__pkg
+        const typesDir = join(this.projectRoot, 'node_modules', '@types', name.replace(/^@/, '').replace('/', '__'));
+        const typesManifest = this.readJson(join(typesDir, 'package.json'));
+        const typesFile = join(typesDir, typesManifest?.types ?? typesManifest?.typings ?? 'index.d.ts');
+        if (existsSync(typesFile)) {
+          entryPoints.push({ specifier: name, typesPath: typesFile });
+        }
+      }
+    }
+
+    return { entryPoints, unindexedSubpaths };
+  }
+
+  private findTypesPath(packageDir: string, target: any): string | undefined {
+    if (typeof target === 'string') {
+      const declaration = /\.d\.[cm]?ts$/.test(target) ? target : target.replace(/\.[cm]?js$/, '.d.ts');
+      return existsSync(join(packageDir, declaration)) ? join(packageDir, declaration) : undefined;
+    }
+
+    if (target && typeof target === 'object') {
+      for (const condition of TYPE_CONDITIONS) {
+        if (condition in target) {
+          const found = this.findTypesPath(packageDir, target[condition]);
+          if (found) return found;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private readJson(path: string): any {
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+}
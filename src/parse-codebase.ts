@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+import winston from 'winston';
+import { CodebaseParser, IncrementalParseResult } from './codebase-parser.js';
+import { CodebaseWatcher } from './codebase-watcher.js';
+import { KnowledgeGraphWriter } from './knowledge-graph-writer.js';
+import { loadProjectConfig } from './project-config.js';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.simple()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+// Usage: npm run parse [rootPath] [--full] [--watch] [--types]
+// Without rootPath the root set in the nearest .antihallrc is parsed, else the working directory.
+// Re-uses knowledge-graphs/manifest.json so only files changed since the last run are re-parsed.
+// With --watch the process keeps running and rewrites the graph whenever a source file changes.
+// With --types member types are resolved by the TypeScript TypeChecker using the project tsconfig.json.
+async function parseCodebase() {
+  const args = process.argv.slice(2);
+  const requestedPath = args.find(arg => !arg.startsWith('--'));
+  const config = loadProjectConfig(requestedPath);
+  const rootPath = requestedPath ?? config.root ?? process.cwd();
+  const full = args.includes('--full');
+  const watch = args.includes('--watch');
+  const resolveTypes = args.includes('--types');
+
+  const writer = new KnowledgeGraphWriter();
+  const previous = full ? null : writer.load();
+
+  const parser = new CodebaseParser({ resolveTypes, config });
+  const { graph, manifest, changes } = await parser.parseCodebaseIncremental(rootPath, previous ?? undefined);
+
+  writer.write(graph, manifest);
+
+  logger.info(`✅ Knowledge graph updated: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.deleted.length} deleted, ${changes.unchanged} unchanged`);
+
+  if (watch) {
+    const watcher = new CodebaseWatcher(parser, { graph, manifest });
+    watcher.on('updated', (result: IncrementalParseResult) => writer.write(result.graph, result.manifest));
+    watcher.on('error', error => logger.warn(`Watch update failed: ${error}`));
+    watcher.start();
+
+    process.on('SIGINT', async () => {
+      await watcher.stop();
+      process.exit(0);
+    });
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  parseCodebase().catch(error => {
+    logger.error('❌ Parse failed:', error);
+    process.exit(1);
+  });
+}
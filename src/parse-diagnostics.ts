@@ -0,0 +1,65 @@
+import { relative } from 'path';
+import { KnowledgeGraph, ParseDiagnostic } from './knowledge-graph.js';
+
+// Kinds that mean nothing at all was extracted from the file
+const FILE_FAILURE_KINDS: ParseDiagnostic['kind'][] = ['parse-error', 'read-error'];
+
+export interface ParseDiagnosticsReport {
+  generated: string;
+  rootPath: string;
+  total: number;
+  byKind: Partial<Record<ParseDiagnostic['kind'], number>>;
+  // Files missing from the graph entirely, with the first reason each failed
+  failedFiles: Array<{ filePath: string; reason: string }>;
+  diagnostics: ParseDiagnostic[];
+}
+
+export function createParseDiagnosticsReport(graph: KnowledgeGraph): ParseDiagnosticsReport {
+  const byKind: ParseDiagnosticsReport['byKind'] = {};
+  const failedFiles = new Map<string, string>();
+
+  for (const diagnostic of graph.diagnostics) {
+    byKind[diagnostic.kind] = (byKind[diagnostic.kind] ?? 0) + 1;
+    if (FILE_FAILURE_KINDS.includes(diagnostic.kind) && !failedFiles.has(diagnostic.filePath)) {
+      failedFiles.set(diagnostic.filePath, diagnostic.message);
+    }
+  }
+
+  return {
+    generated: graph.generatedAt,
+    rootPath: graph.rootPath,
+    total: graph.diagnostics.length,
+    byKind,
+    failedFiles: [...failedFiles].map(([filePath, reason]) => ({ filePath, reason })),
+    diagnostics: graph.diagnostics
+  };
+}
+
+// Markdown for tool responses: counts by kind, the failed files, then the first other diagnostics
+export function formatParseDiagnostics(report: ParseDiagnosticsReport, limit: number = 10): string {
+  if (report.total === 0) {
+    return '✅ **Parse Diagnostics:** none';
+  }
+
+  const location = (diagnostic: { filePath: string; line?: number }) =>
+    `${relative(report.rootPath, diagnostic.filePath)}${diagnostic.line ? `:${diagnostic.line}` : ''}`;
+  const others = report.diagnostics.filter(diagnostic => !FILE_FAILURE_KINDS.includes(diagnostic.kind));
+
+  const lines = [
+    `⚠️ **Parse Diagnostics:** ${Object.entries(report.byKind).map(([kind, count]) => `${count} ${kind}`).join(', ')}`
+  ];
+  if (report.failedFiles.length > 0) {
+    lines.push('', '**Files missing from the graph:**');
+    lines.push(...report.failedFiles.slice(0, limit).map(file => `- ${location(file)}: ${file.reason}`));
+  }
+  if (others.length > 0) {
+    lines.push('', '**Partially extracted:**');
+    lines.push(...others.slice(0, limit).map(diagnostic =>
+      `- ${location(diagnostic)} [${diagnostic.kind}${diagnostic.extractor ? `, ${diagnostic.extractor}` : ''}]: ${diagnostic.message}`));
+  }
+  const hidden = Math.max(0, report.failedFiles.length - limit) + Math.max(0, others.length - limit);
+  if (hidden > 0) {
+    lines.push('', `…and ${hidden} more in diagnostics.json`);
+  }
+  return lines.join('\n');
+}
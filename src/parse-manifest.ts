@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import {
+  KnowledgeGraph,
+  KnowledgeGraphCollection,
+  KNOWLEDGE_GRAPH_COLLECTIONS,
+  KNOWLEDGE_GRAPH_SCHEMA_VERSION,
+  WorkspaceProject,
+  getCollectionEntities,
+  getEntityName
+} from './knowledge-graph.js';
+
+// Per-file record of what the last parse saw, used to skip unchanged files on re-parse
+export interface FileManifestEntry {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  entities: Partial<Record<KnowledgeGraphCollection, string[]>>;
+  // Hashes of files the source pulled in (templateUrl, styleUrls), keyed by the path as written
+  resources?: Record<string, string>;
+}
+
+// The workspace projects as last read, with the mtimes of the workspace files they were read
+// from (angular.json, workspace.json, nx.json and every project.json), keyed by path relative to
+// rootPath. The projects are read again when any of those files changes, appears or goes away.
+export interface WorkspaceManifest {
+  files: Record<string, number>;
+  projects: WorkspaceProject[];
+}
+
+export interface ParseManifest {
+  schemaVersion: string;
+  rootPath: string;
+  updatedAt: string;
+  // Whether entities carry TypeChecker-resolved types
+  resolvedTypes: boolean;
+  // Lockfile the package export tables were built from; they are rebuilt when it changes
+  lockfileHash?: string;
+  workspace?: WorkspaceManifest;
+  // Keyed by path relative to rootPath
+  files: Record<string, FileManifestEntry>;
+}
+
+// A graph together with the manifest describing the files it was parsed from
+export interface ParseSnapshot {
+  graph: KnowledgeGraph;
+  manifest: ParseManifest;
+}
+
+export function createParseManifest(rootPath: string, resolvedTypes: boolean = false): ParseManifest {
+  return {
+    schemaVersion: KNOWLEDGE_GRAPH_SCHEMA_VERSION,
+    rootPath,
+    updatedAt: new Date().toISOString(),
+    resolvedTypes,
+    files: {}
+  };
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Names of the entities a file fragment produced, grouped by collection
+export function summarizeFileEntities(fragment: KnowledgeGraph): FileManifestEntry['entities'] {
+  const entities: FileManifestEntry['entities'] = {};
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    const names = getCollectionEntities(fragment, collection)
+      .map(getEntityName)
+      .filter((name): name is string => typeof name === 'string');
+    if (names.length > 0) {
+      entities[collection] = names;
+    }
+  }
+  return entities;
+}
+
+export function loadParseManifest(manifestPath: string): ParseManifest | null {
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as ParseManifest;
+  // A manifest from another schema version describes entities we can no longer patch safely
+  return manifest.schemaVersion === KNOWLEDGE_GRAPH_SCHEMA_VERSION ? manifest : null;
+}
+
+export function saveParseManifest(manifestPath: string, manifest: ParseManifest): void {
+  mkdirSync(dirname(manifestPath), { recursive: true });
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
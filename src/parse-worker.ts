@@ -0,0 +1,17 @@
+import { parentPort, workerData } from 'worker_threads';
+import { DEFAULT_EXTRACTORS } from './extractors/index.js';
+import { extractSourceFile } from './file-extraction.js';
+import { ModuleResolver } from './module-resolver.js';
+import { ParseWorkerData, ParseWorkerRequest, ParseWorkerResponse } from './parser-pool.js';
+
+// Entry point of a ParserPool worker thread: extracts the files it is sent with the built-in
+// extractors the project config leaves on and posts the fragments back
+const { rootPath, tsconfigPath, extractors: extractorNames } = workerData as ParseWorkerData;
+const extractors = DEFAULT_EXTRACTORS.filter(extractor => extractorNames.includes(extractor.name));
+let moduleResolver: ModuleResolver | undefined;
+const getModuleResolver = () => moduleResolver = moduleResolver ?? ModuleResolver.fromProject(rootPath, tsconfigPath);
+
+parentPort!.on('message', ({ id, filePath, content }: ParseWorkerRequest) => {
+  const response: ParseWorkerResponse = { id, ...extractSourceFile(filePath, content, extractors, getModuleResolver) };
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,66 @@
+import { Worker } from 'worker_threads';
+import { ExtractedFile } from './file-extraction.js';
+
+export interface ParseWorkerData {
+  rootPath: string;
+  tsconfigPath?: string;
+  // Names of the built-in extractors to run, in order
+  extractors: string[];
+}
+
+export interface ParseWorkerRequest {
+  id: number;
+  filePath: string;
+  content: string;
+}
+
+export type ParseWorkerResponse = ExtractedFile & { id: number };
+
+interface PendingFile {
+  resolve: (result: ExtractedFile) => void;
+  reject: (error: Error) => void;
+}
+
+// A fixed set of worker threads that extract files in parallel. Each file goes to the worker
+// with the fewest files in flight; results come back as structured-cloned graph fragments.
+export class ParserPool {
+  private workers: Array<{ worker: Worker; pending: Map<number, PendingFile> }> = [];
+  private nextId = 0;
+
+  constructor(size: number, workerData: ParseWorkerData) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('./parse-worker.js', import.meta.url), { workerData });
+      const entry = { worker, pending: new Map<number, PendingFile>() };
+
+      worker.on('message', ({ id, ...result }: ParseWorkerResponse) => {
+        entry.pending.get(id)?.resolve(result);
+        entry.pending.delete(id);
+      });
+      // A worker that dies takes its files with it; the parse fails rather than missing them
+      const failPending = (error: Error) => {
+        entry.pending.forEach(file => file.reject(error));
+        entry.pending.clear();
+      };
+      worker.on('error', failPending);
+      worker.on('exit', code => failPending(new Error(`Parse worker exited with code ${code}`)));
+
+      this.workers.push(entry);
+    }
+  }
+
+  extract(filePath: string, content: string): Promise<ExtractedFile> {
+    const entry = this.workers.reduce((least, candidate) => candidate.pending.size < least.pending.size ? candidate : least);
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      entry.pending.set(id, { resolve, reject });
+      const request: ParseWorkerRequest = { id, filePath, content };
+      entry.worker.postMessage(request);
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+    this.workers = [];
+  }
+}
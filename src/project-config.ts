@@ -0,0 +1,210 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import ignorePackage, { Ignore } from 'ignore';
+import yaml from 'js-yaml';
+import { Minimatch } from 'minimatch';
+import winston from 'winston';
+
+// ignore is CommonJS but its typings declare an ES default export, which Node16 resolution
+// reads as a property of the module; the package sets that property to itself at runtime
+const ignore = ignorePackage.default;
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+// Looked up in this order in each directory; .antihallrc itself may be JSON or YAML
+const CONFIG_FILES = ['.antihallrc', '.antihallrc.json', '.antihallrc.yaml', '.antihallrc.yml'];
+
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/dist/**', '**/venv/**', '**/.*/**', '**/*.spec.ts'];
+
+export interface ProjectConfig {
+  // The config file the settings came from; undefined when none was found
+  configPath?: string;
+  // Codebase root, resolved against the config file's directory (default: that directory)
+  root?: string;
+  // Project name the knowledge graph is stored under
+  projectName?: string;
+  // Globs relative to the root; a file is parsed when it matches an include and no exclude
+  include: string[];
+  exclude: string[];
+  // Skip files ignored by the .gitignore files of the root and the directories above it up to
+  // the repository root (default: true)
+  gitignore: boolean;
+  // Extensions parsed as TypeScript besides .ts, e.g. ".mts"
+  extensions: string[];
+  // Extractors and detector rules switched on or off by name; anything not listed stays on
+  extractors: Record<string, boolean>;
+  rules: Record<string, boolean>;
+}
+
+// The settings used without a config file, which match what the parser always did
+export function createDefaultProjectConfig(): ProjectConfig {
+  return {
+    include: ['**/*'],
+    exclude: [...DEFAULT_EXCLUDE],
+    gitignore: true,
+    extensions: [],
+    extractors: {},
+    rules: {}
+  };
+}
+
+// Nearest config file at or above startPath
+export function findProjectConfigFile(startPath: string = process.cwd()): string | null {
+  let dir = resolve(startPath);
+  if (existsSync(dir) && !statSync(dir).isDirectory()) {
+    dir = dirname(dir);
+  }
+
+  while (true) {
+    const file = CONFIG_FILES.map(name => join(dir, name)).find(path => existsSync(path));
+    if (file) return file;
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Reads the nearest config file, filling in defaults for what it leaves out. Throws when the
+// file exists but is malformed, rather than silently parsing a different set of files.
+export function loadProjectConfig(startPath: string = process.cwd()): ProjectConfig {
+  const config = createDefaultProjectConfig();
+  const configPath = findProjectConfigFile(startPath);
+  if (!configPath) return config;
+
+  let raw: any;
+  try {
+    // JSON is valid YAML, so one loader covers every config file name
+    raw = yaml.load(readFileSync(configPath, 'utf-8')) ?? {};
+  } catch (error) {
+    throw new Error(`Failed to read ${configPath}: ${error}`);
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${configPath} must contain an object`);
+  }
+
+  const invalid = (field: string, expected: string) => new Error(`${configPath}: '${field}' must be ${expected}`);
+  const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const isSwitchMap = (value: any) => typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(item => typeof item === 'boolean');
+
+  for (const field of ['root', 'projectName']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') throw invalid(field, 'a string');
+  }
+  for (const field of ['include', 'exclude', 'extensions']) {
+    if (raw[field] !== undefined && !isStringArray(raw[field])) throw invalid(field, 'a list of strings');
+  }
+  for (const field of ['extractors', 'rules']) {
+    if (raw[field] !== undefined && !isSwitchMap(raw[field])) throw invalid(field, 'a map of names to true or false');
+  }
+  if (raw.gitignore !== undefined && typeof raw.gitignore !== 'boolean') throw invalid('gitignore', 'true or false');
+
+  const knownFields = new Set([...Object.keys(config), 'root', 'projectName']);
+  Object.keys(raw)
+    .filter(field => !knownFields.has(field))
+    .forEach(field => logger.warn(`${configPath}: unknown setting '${field}'`));
+
+  return {
+    configPath,
+    root: resolve(dirname(configPath), raw.root ?? '.'),
+    projectName: raw.projectName,
+    include: raw.include ?? config.include,
+    exclude: raw.exclude ?? config.exclude,
+    gitignore: raw.gitignore ?? config.gitignore,
+    extensions: (raw.extensions ?? []).map((extension: string) => extension.startsWith('.') ? extension : `.${extension}`),
+    extractors: raw.extractors ?? {},
+    rules: raw.rules ?? {}
+  };
+}
+
+// Whether a switch map leaves the named extractor or rule on
+export function isEnabled(switches: Record<string, boolean>, name: string): boolean {
+  return switches[name] !== false;
+}
+
+// Decides which paths under a root the config selects: include/exclude globs relative to the
+// root, then .gitignore rules. Directories are tested separately so walkers can skip them whole.
+export class ProjectFileFilter {
+  private include: Minimatch[];
+  private exclude: Minimatch[];
+  private gitignoreRoot: string;
+  private gitignores = new Map<string, Ignore | null>();
+
+  constructor(private rootPath: string, private config: ProjectConfig) {
+    this.include = config.include.map(pattern => new Minimatch(pattern, { dot: true }));
+    this.exclude = config.exclude.map(pattern => new Minimatch(pattern, { dot: true }));
+    this.gitignoreRoot = findRepositoryRoot(rootPath) ?? resolve(rootPath);
+  }
+
+  includesFile(filePath: string): boolean {
+    const path = this.toGlobPath(filePath);
+    return this.include.some(pattern => pattern.match(path)) &&
+      !this.exclude.some(pattern => pattern.match(path)) &&
+      !this.isGitIgnored(filePath, false);
+  }
+
+  includesDirectory(dirPath: string): boolean {
+    const path = this.toGlobPath(dirPath);
+    if (path === '') return true;
+    // A trailing slash lets "dir/**" patterns match the directory itself
+    return !this.exclude.some(pattern => pattern.match(`${path}/`)) && !this.isGitIgnored(dirPath, true);
+  }
+
+  private toGlobPath(path: string): string {
+    return relative(resolve(this.rootPath), resolve(path)).split(sep).join('/');
+  }
+
+  // Checks the path against each .gitignore from the repository root down to its directory
+  private isGitIgnored(path: string, isDirectory: boolean): boolean {
+    if (!this.config.gitignore) return false;
+
+    const fullPath = resolve(path);
+    if (!fullPath.startsWith(this.gitignoreRoot + sep)) return false;
+
+    let dir = dirname(fullPath);
+    while (true) {
+      const rules = this.getGitignore(dir);
+      const relativePath = relative(dir, fullPath).split(sep).join('/');
+      if (rules?.ignores(isDirectory ? `${relativePath}/` : relativePath)) return true;
+
+      if (dir === this.gitignoreRoot) return false;
+      dir = dirname(dir);
+    }
+  }
+
+  private getGitignore(dir: string): Ignore | null {
+    if (!this.gitignores.has(dir)) {
+      const file = join(dir, '.gitignore');
+      let rules: Ignore | null = null;
+      if (existsSync(file)) {
+        try {
+          rules = ignore().add(readFileSync(file, 'utf-8'));
+        } catch (error) {
+          logger.warn(`Failed to read ${file}: ${error}`);
+        }
+      }
+      this.gitignores.set(dir, rules);
+    }
+    return this.gitignores.get(dir)!;
+  }
+}
+
+// Nearest directory at or above startPath containing .git
+function findRepositoryRoot(startPath: string): string | null {
+  let dir = resolve(startPath);
+  while (!existsSync(join(dir, '.git'))) {
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+  return dir;
+}
@@ -0,0 +1,129 @@
+import { resolve } from 'path';
+import { AngularGuard, AngularResolver, GuardKind, KnowledgeGraph, RouteConfig } from './knowledge-graph.js';
+import { ModuleResolver } from './module-resolver.js';
+
+// Links the route arrays of every file into one tree starting at the arrays handed to
+// provideRouter()/RouterModule.forRoot(), following loadChildren into other route files, and
+// records the absolute URL, params and redirect target of every route reached
+export function resolveRouteTree(graph: KnowledgeGraph, resolver: ModuleResolver): KnowledgeGraph {
+  graph.routes.forEach(route => clearResolvedPaths(route));
+
+  const topLevel = graph.routes.filter(route => route.routesVariable !== undefined || route.registeredWith);
+  const roots = new Set(topLevel.filter(route => route.registeredWith === 'provideRouter' || route.registeredWith === 'forRoot'));
+
+  for (const registration of graph.routerRegistrations) {
+    registration.resolvedPath = resolver.resolve(registration.from, registration.filePath);
+    if (registration.kind === 'forChild') continue;
+
+    findRouteArray(topLevel, registration.resolvedPath, registration.routesVariable).forEach(route => roots.add(route));
+  }
+
+  // Without a root registration in the parsed files, every array that is not lazily loaded
+  // from elsewhere is treated as a root
+  if (roots.size === 0) {
+    const lazyTargets = new Set<RouteConfig>();
+    const collectLazyTargets = (route: RouteConfig) => {
+      if (route.loadChildren) {
+        const resolvedPath = resolver.resolve(route.loadChildren.specifier, route.filePath);
+        findRouteArray(topLevel, resolvedPath, route.loadChildren.exportName).forEach(target => lazyTargets.add(target));
+      }
+      route.children?.forEach(collectLazyTargets);
+    };
+    graph.routes.forEach(collectLazyTargets);
+
+    topLevel
+      .filter(route => !lazyTargets.has(route) && route.registeredWith !== 'forChild')
+      .forEach(route => roots.add(route));
+  }
+
+  const mounted = new Set<RouteConfig>();
+  const mount = (routes: RouteConfig[], parentPath: string) => {
+    for (const route of routes) {
+      // A lazily loaded array mounted under itself would recurse forever
+      if (mounted.has(route)) continue;
+      mounted.add(route);
+
+      route.fullPath = joinUrl(parentPath, route.path);
+      const params = route.fullPath.split('/').filter(segment => segment.startsWith(':')).map(segment => segment.slice(1));
+      if (params.length > 0) {
+        route.params = params;
+      }
+      if (route.redirectTo !== undefined) {
+        // Absolute redirects start at the root; relative ones replace this route's own path
+        route.redirectsTo = route.redirectTo.startsWith('/') ? route.redirectTo : joinUrl(parentPath, route.redirectTo);
+      }
+
+      if (route.loadComponent) {
+        route.loadComponent.resolvedPath = resolver.resolve(route.loadComponent.specifier, route.filePath);
+      }
+      if (route.children) {
+        mount(route.children, route.fullPath);
+      }
+      if (route.loadChildren) {
+        route.loadChildren.resolvedPath = resolver.resolve(route.loadChildren.specifier, route.filePath);
+        mount(findRouteArray(topLevel, route.loadChildren.resolvedPath, route.loadChildren.exportName), route.fullPath);
+      }
+    }
+  };
+  mount([...roots], '');
+
+  return graph;
+}
+
+const GUARD_KINDS: GuardKind[] = ['canActivate', 'canActivateChild', 'canDeactivate', 'canMatch', 'canLoad'];
+
+// Records on every guard and resolver the routes that register it. Run after resolveRouteTree()
+// so routes are listed by absolute URL; routes outside the tree keep their own path.
+export function linkRouteHandlers(graph: KnowledgeGraph): KnowledgeGraph {
+  const guards = new Map<string, AngularGuard>();
+  const resolvers = new Map<string, AngularResolver>();
+  graph.guards.forEach(guard => {
+    delete guard.usedBy;
+    guards.set(guard.name, guard);
+  });
+  graph.resolvers.forEach(resolver => {
+    delete resolver.usedBy;
+    resolvers.set(resolver.name, resolver);
+  });
+
+  const addUsage = (handler: AngularGuard | AngularResolver | undefined, url: string) => {
+    if (handler && !handler.usedBy?.includes(url)) {
+      handler.usedBy = [...(handler.usedBy || []), url];
+    }
+  };
+
+  const visit = (route: RouteConfig) => {
+    const url = route.fullPath ?? route.path;
+    GUARD_KINDS.forEach(kind => route[kind]?.forEach(name => addUsage(guards.get(name), url)));
+    Object.values(route.resolve || {}).forEach(name => addUsage(resolvers.get(name), url));
+    route.children?.forEach(visit);
+  };
+  graph.routes.forEach(visit);
+
+  return graph;
+}
+
+// The routes of one exported array. Lazy NgModules (`.then(m => m.AdminModule)`) do not name
+// the array, so the file's RouterModule.forChild() routes, or else all its arrays, are used.
+function findRouteArray(topLevel: RouteConfig[], filePath: string | undefined, exportName?: string): RouteConfig[] {
+  if (!filePath) return [];
+
+  const inFile = topLevel.filter(route => resolve(route.filePath) === resolve(filePath));
+  const exported = inFile.filter(route => route.routesVariable === (exportName ?? 'default'));
+  if (exported.length > 0) return exported;
+
+  const forChild = inFile.filter(route => route.registeredWith === 'forChild');
+  return forChild.length > 0 ? forChild : inFile;
+}
+
+function clearResolvedPaths(route: RouteConfig): void {
+  delete route.fullPath;
+  delete route.params;
+  delete route.redirectsTo;
+  route.children?.forEach(clearResolvedPaths);
+}
+
+function joinUrl(parentPath: string, path: string): string {
+  const segments = [...parentPath.split('/'), ...path.split('/')].filter(Boolean);
+  return `/${segments.join('/')}`;
+}
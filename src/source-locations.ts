@@ -0,0 +1,109 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { getSourceRange } from './ast-utils.js';
+import { Identified, KnowledgeGraph, SourceRange } from './knowledge-graph.js';
+
+// Collections whose entities are declared by name at the top level of a file. NgRx actions of a
+// createActionGroup and selectors generated by createFeature point at the variable holding them.
+const DECLARED_COLLECTIONS = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'interfaces',
+  'models',
+  'types',
+  'enums',
+  'utilityFunctions',
+  'abstractClasses',
+  'signalStores',
+  'injectionTokens',
+  'ngrxActions',
+  'ngrxSelectors',
+  'ngrxEffects'
+] as const;
+
+interface Declaration {
+  node: any;
+  exported: boolean;
+  // Class members by name, for effects declared as class properties
+  members: Map<string, any>;
+}
+
+// Sets the source range and export status of every entity a file fragment holds that maps to a
+// top-level declaration. Needs the AST to be parsed with `loc: true`.
+export function annotateDeclarations(ast: any, fragment: KnowledgeGraph): void {
+  const declarations = collectDeclarations(ast);
+
+  for (const collection of DECLARED_COLLECTIONS) {
+    for (const entity of fragment[collection] as Array<Identified & { name: string; className?: string; group?: string; featureVariable?: string }>) {
+      const declaration = declarations.get(entity.className ?? entity.group ?? entity.featureVariable ?? entity.name);
+      if (!declaration) continue;
+
+      const node = entity.className ? declaration.members.get(entity.name) : declaration.node;
+      entity.location ??= getDeclarationRange(node);
+      entity.exported = declaration.exported;
+    }
+  }
+}
+
+// Top-level declarations by name, with `export { A }` and `export default A` applied to the
+// declarations they name
+function collectDeclarations(ast: any): Map<string, Declaration> {
+  const declarations = new Map<string, Declaration>();
+  const exportedNames = new Set<string>();
+
+  for (const statement of ast.body) {
+    if (statement.type === AST_NODE_TYPES.ExportNamedDeclaration && !statement.declaration && !statement.source) {
+      statement.specifiers.forEach((specifier: any) => exportedNames.add(specifier.local?.name));
+      continue;
+    }
+    if (statement.type === AST_NODE_TYPES.ExportDefaultDeclaration && statement.declaration?.type === AST_NODE_TYPES.Identifier) {
+      exportedNames.add(statement.declaration.name);
+      continue;
+    }
+
+    const exported = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ||
+      statement.type === AST_NODE_TYPES.ExportDefaultDeclaration;
+    const node = exported ? statement.declaration : statement;
+    if (!node) continue;
+
+    if (node.type === AST_NODE_TYPES.VariableDeclaration) {
+      node.declarations
+        .filter((decl: any) => decl.id?.name)
+        .forEach((decl: any) => declarations.set(decl.id.name, { node: decl, exported, members: new Map() }));
+    } else if (node.id?.name) {
+      const members = new Map<string, any>();
+      if (node.type === AST_NODE_TYPES.ClassDeclaration) {
+        node.body.body
+          .filter((member: any) => member.key?.name && !members.has(member.key.name))
+          .forEach((member: any) => members.set(member.key.name, member));
+      }
+      // Overloaded functions keep the first signature
+      if (!declarations.has(node.id.name)) {
+        declarations.set(node.id.name, { node, exported, members });
+      }
+    }
+  }
+
+  exportedNames.forEach(name => {
+    const declaration = declarations.get(name);
+    if (declaration) declaration.exported = true;
+  });
+
+  return declarations;
+}
+
+// Decorators written before `export` are outside the class node's range, so the range is
+// widened to start at the first one either way
+function getDeclarationRange(node: any): SourceRange | undefined {
+  const range = getSourceRange(node);
+  const decorator = getSourceRange(node?.decorators?.[0]);
+  if (range && decorator && (decorator.start.line < range.start.line ||
+      (decorator.start.line === range.start.line && decorator.start.column < range.start.column))) {
+    range.start = decorator.start;
+  }
+  return range;
+}
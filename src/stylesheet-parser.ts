@@ -0,0 +1,124 @@
+import { Identified, StylesheetInfo } from './knowledge-graph.js';
+
+export type StyleDeclarations = Omit<StylesheetInfo, 'filePath' | keyof Identified>;
+
+// A mixin, variable or function referenced through an optional `@use` namespace: `theme.$primary`
+export interface StyleReference {
+  namespace?: string;
+  name: string;
+}
+
+export interface StyleReferences {
+  includes: StyleReference[];
+  variables: StyleReference[];
+  customProperties: string[];
+  // Namespace -> URL of each `@use 'url' [as namespace]`
+  uses: Map<string, string>;
+  // URLs whose members are used without a namespace: `@import` and `@use ... as *`
+  globalImports: string[];
+}
+
+export function isStylesheetFile(filePath: string): boolean {
+  return filePath.endsWith('.scss');
+}
+
+// Declarations of a project stylesheet; files that declare nothing are not recorded
+export function parseStylesheet(filePath: string, content: string): StylesheetInfo | undefined {
+  const declarations = collectStyleDeclarations(content);
+  const empty = Object.values(declarations).every(names => names.length === 0);
+  return empty ? undefined : { ...declarations, filePath };
+}
+
+// Mixins, functions and custom properties anywhere in the file, and $variables declared at the top
+// level. Variables inside rules and mixins are local to them; parameters, @each and @for
+// variables are only added by collectLocalVariables().
+export function collectStyleDeclarations(content: string): StyleDeclarations {
+  const text = stripComments(content);
+  const depths = getNestingDepths(text);
+
+  return {
+    mixins: unique(matchAll(text, /@mixin\s+([\w-]+)/g)),
+    functions: unique(matchAll(text, /@function\s+([\w-]+)/g)),
+    variables: unique([...text.matchAll(/\$([\w-]+)\s*:/g)]
+      .filter(match => depths[match.index!] === 0)
+      .map(match => match[1])),
+    customProperties: unique(matchAll(text, /(--[\w-]+)\s*:/g))
+  };
+}
+
+// Every $variable the styles declare for themselves, at any depth: assignments, mixin and
+// function parameters and @each/@for loop variables
+export function collectLocalVariables(content: string): Set<string> {
+  const text = stripComments(content);
+  const variables = new Set(matchAll(text, /\$([\w-]+)\s*:/g));
+
+  for (const match of text.matchAll(/@(?:mixin|function)\s+[\w-]+\s*\(([^)]*)\)/g)) {
+    matchAll(match[1], /\$([\w-]+)/g).forEach(name => variables.add(name));
+  }
+  for (const match of text.matchAll(/@(?:each|for)\s+([^{]+?)\s+(?:in|from)\b/g)) {
+    matchAll(match[1], /\$([\w-]+)/g).forEach(name => variables.add(name));
+  }
+  return variables;
+}
+
+// Mixins included, variables read and custom properties read with var() without a fallback
+export function findStyleReferences(content: string): StyleReferences {
+  const text = stripComments(content);
+
+  const uses = new Map<string, string>();
+  const globalImports: string[] = [];
+  for (const match of text.matchAll(/@use\s+['"]([^'"]+)['"](?:\s+as\s+([\w-]+|\*))?/g)) {
+    // `@use 'src/styles/theme'` is namespaced by the last path segment, without _ or extension
+    const namespace = match[2] ?? getModuleName(match[1]);
+    if (namespace === '*') {
+      globalImports.push(match[1]);
+    } else {
+      uses.set(namespace, match[1]);
+    }
+  }
+  for (const match of text.matchAll(/@import\s+([^;]+)/g)) {
+    globalImports.push(...matchAll(match[1], /['"]([^'"]+)['"]/g));
+  }
+
+  return {
+    includes: [...text.matchAll(/@include\s+(?:([\w-]+)\.)?([\w-]+)/g)].map(match => ({ namespace: match[1], name: match[2] })),
+    // Declarations (`$x:`) are not reads
+    variables: [...text.matchAll(/(?:([\w-]+)\.)?\$([\w-]+)(?![\w-]|\s*:)/g)].map(match => ({ namespace: match[1], name: match[2] })),
+    customProperties: unique(matchAll(text, /var\(\s*(--[\w-]+)\s*\)/g)),
+    uses,
+    globalImports
+  };
+}
+
+// 'src/styles/_theme.scss' -> theme, the name Sass gives the module
+export function getModuleName(url: string): string {
+  return url.split(/[\\/]/).pop()!.replace(/^_/, '').replace(/\.scss$/, '');
+}
+
+// Brace and parenthesis depth before every character, so top-level declarations can be told
+// apart from those inside rules, mixins or parameter lists
+function getNestingDepths(text: string): number[] {
+  const depths: number[] = [];
+  let depth = 0;
+  for (const char of text) {
+    if (char === '}' || char === ')') depth = Math.max(0, depth - 1);
+    depths.push(depth);
+    if (char === '{' || char === '(') depth++;
+  }
+  return depths;
+}
+
+// Block comments and `//` line comments (but not the `//` of a URL)
+function stripComments(content: string): string {
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/(^|[^:])\/\/.*$/gm, '$1');
+}
+
+function matchAll(text: string, pattern: RegExp): string[] {
+  return [...text.matchAll(pattern)].map(match => match[1]);
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
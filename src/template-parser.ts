@@ -0,0 +1,219 @@
+import {
+  parseTemplate,
+  ImplicitReceiver,
+  PropertyRead,
+  RecursiveAstVisitor,
+  TmplAstRecursiveVisitor,
+  tmplAstVisitAll
+} from '@angular/compiler';
+import { ComponentTemplate, KnowledgeGraph } from './knowledge-graph.js';
+
+// Names the template compiler provides rather than the component: the payload of an event
+// binding and the `$any()` cast
+const TEMPLATE_GLOBALS = ['$event', '$any'];
+
+// Parses a component template with Angular's own template parser (the one the compiler uses),
+// so bindings, pipes, control flow blocks and microsyntax follow the real template rules
+export function parseComponentTemplate(template: string, templateUrl?: string): ComponentTemplate {
+  const collector = new TemplateCollector();
+  let errors: string[] = [];
+
+  try {
+    const parsed = parseTemplate(template, templateUrl || 'inline-template.html', {
+      preserveWhitespaces: false
+    });
+    tmplAstVisitAll(collector, parsed.nodes);
+    errors = (parsed.errors || []).map((error: any) => error.toString());
+  } catch (error) {
+    errors.push(`Template parser failed: ${error}`);
+  }
+
+  const referencedMethods = [...collector.methodCalls].filter(name => !collector.variables.has(name));
+  const referencedProperties = [...collector.propertyReads]
+    .filter(name => !collector.variables.has(name) && !collector.methodCalls.has(name));
+
+  const result: ComponentTemplate = {
+    inline: !templateUrl,
+    elements: [...collector.elements],
+    propertyBindings: [...collector.propertyBindings],
+    eventBindings: [...collector.eventBindings],
+    pipes: [...collector.pipes],
+    structuralDirectives: [...collector.structuralDirectives],
+    controlFlowBlocks: [...collector.controlFlowBlocks],
+    referencedMethods,
+    referencedProperties
+  };
+
+  if (errors.length > 0) {
+    result.errors = errors;
+  }
+  return result;
+}
+
+// Records on each component which other components' templates render it, matched by element selector
+export function linkTemplateUsages(graph: KnowledgeGraph): KnowledgeGraph {
+  const renderers = new Map<string, Set<string>>();
+
+  for (const component of graph.components) {
+    for (const element of component.template?.elements || []) {
+      if (!renderers.has(element)) {
+        renderers.set(element, new Set());
+      }
+      renderers.get(element)!.add(component.name);
+    }
+  }
+
+  for (const component of graph.components) {
+    const renderedBy = new Set<string>();
+    for (const selector of getElementSelectors(component.selector)) {
+      renderers.get(selector)?.forEach(name => renderedBy.add(name));
+    }
+    component.renderedBy = [...renderedBy];
+  }
+
+  return graph;
+}
+
+// `app-card, app-tile` -> ['app-card', 'app-tile']; attribute and class selectors are not elements
+function getElementSelectors(selector?: string): string[] {
+  return (selector || '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => /^[a-zA-Z][\w-]*$/.test(part));
+}
+
+class TemplateCollector extends TmplAstRecursiveVisitor {
+  elements = new Set<string>();
+  propertyBindings = new Set<string>();
+  eventBindings = new Set<string>();
+  pipes = new Set<string>();
+  structuralDirectives = new Set<string>();
+  controlFlowBlocks = new Set<string>();
+  methodCalls = new Set<string>();
+  propertyReads = new Set<string>();
+  // Template-local names (let-x, #ref, @for items, @let) that shadow component members
+  variables = new Set<string>(TEMPLATE_GLOBALS);
+
+  private expressions = new ExpressionCollector(this);
+
+  visitElement(element: any): void {
+    this.elements.add(element.name);
+    this.visitBindings(element.inputs, element.outputs);
+    super.visitElement(element);
+  }
+
+  visitTemplate(template: any): void {
+    // `<div *ngFor="let x of xs">` desugars into a template whose first template attribute
+    // names the directive; explicit <ng-template> elements have no template attributes
+    if (template.templateAttrs?.length) {
+      this.structuralDirectives.add(template.templateAttrs[0].name);
+    }
+    this.visitBindings(template.inputs, template.outputs);
+    template.templateAttrs?.forEach((attr: any) => attr.value && this.visitExpression(attr.value));
+    super.visitTemplate(template);
+  }
+
+  visitVariable(variable: any): void {
+    this.variables.add(variable.name);
+  }
+
+  visitReference(reference: any): void {
+    this.variables.add(reference.name);
+  }
+
+  visitBoundText(text: any): void {
+    this.visitExpression(text.value);
+  }
+
+  visitIfBlock(block: any): void {
+    this.controlFlowBlocks.add('if');
+    super.visitIfBlock(block);
+  }
+
+  visitIfBlockBranch(branch: any): void {
+    this.visitExpression(branch.expression);
+    if (branch.expressionAlias) {
+      this.variables.add(branch.expressionAlias.name);
+    }
+    super.visitIfBlockBranch(branch);
+  }
+
+  visitForLoopBlock(block: any): void {
+    this.controlFlowBlocks.add('for');
+    this.variables.add(block.item.name);
+    Object.values(block.contextVariables || {}).forEach((variable: any) => this.variables.add(variable.name));
+    this.visitExpression(block.expression);
+    this.visitExpression(block.trackBy);
+    super.visitForLoopBlock(block);
+  }
+
+  visitSwitchBlock(block: any): void {
+    this.controlFlowBlocks.add('switch');
+    this.visitExpression(block.expression);
+    super.visitSwitchBlock(block);
+  }
+
+  visitSwitchBlockCase(block: any): void {
+    this.visitExpression(block.expression);
+    super.visitSwitchBlockCase(block);
+  }
+
+  visitDeferredBlock(block: any): void {
+    this.controlFlowBlocks.add('defer');
+    super.visitDeferredBlock(block);
+  }
+
+  visitLetDeclaration(declaration: any): void {
+    this.variables.add(declaration.name);
+    this.visitExpression(declaration.value);
+  }
+
+  private visitBindings(inputs: any[] = [], outputs: any[] = []): void {
+    inputs.forEach(input => {
+      this.propertyBindings.add(input.name);
+      this.visitExpression(input.value);
+    });
+    outputs.forEach(output => {
+      this.eventBindings.add(output.name);
+      this.visitExpression(output.handler);
+    });
+  }
+
+  private visitExpression(ast: any): void {
+    ast?.visit(this.expressions);
+  }
+}
+
+// Collects pipes and the component members an expression reads or calls. Only reads on the
+// implicit receiver (`foo`, `this.foo`) refer to the component; `foo.bar` only references foo.
+class ExpressionCollector extends RecursiveAstVisitor {
+  constructor(private collector: TemplateCollector) {
+    super();
+  }
+
+  visitPipe(ast: any, context: any): any {
+    this.collector.pipes.add(ast.name);
+    return super.visitPipe(ast, context);
+  }
+
+  visitPropertyRead(ast: any, context: any): any {
+    if (ast.receiver instanceof ImplicitReceiver) {
+      this.collector.propertyReads.add(ast.name);
+    }
+    return super.visitPropertyRead(ast, context);
+  }
+
+  visitPropertyWrite(ast: any, context: any): any {
+    if (ast.receiver instanceof ImplicitReceiver) {
+      this.collector.propertyReads.add(ast.name);
+    }
+    return super.visitPropertyWrite(ast, context);
+  }
+
+  visitCall(ast: any, context: any): any {
+    if (ast.receiver instanceof PropertyRead && ast.receiver.receiver instanceof ImplicitReceiver) {
+      this.collector.methodCalls.add(ast.receiver.name);
+    }
+    return super.visitCall(ast, context);
+  }
+}
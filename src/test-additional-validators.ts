@@ -4,15 +4,10 @@ import { config } from 'dotenv';
 config();
 
 import { HallucinationDetector } from './hallucination-detector.js';
-import { ParsedCodebase } from './codebase-parser.js';
+import { KnowledgeGraph, createEmptyKnowledgeGraph } from './knowledge-graph.js';
 
 // Mock codebase
-const mockCodebase: ParsedCodebase = {
-  components: [],
-  services: [],
-  interfaces: [],
-  models: []
-};
+const mockCodebase: KnowledgeGraph = createEmptyKnowledgeGraph();
 
 const additionalTestCases = [
   {
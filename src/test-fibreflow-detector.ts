@@ -4,10 +4,11 @@ import { config } from 'dotenv';
 config();
 
 import { HallucinationDetector } from './hallucination-detector.js';
-import { ParsedCodebase } from './codebase-parser.js';
+import { KnowledgeGraph, createEmptyKnowledgeGraph } from './knowledge-graph.js';
 
 // Mock FibreFlow codebase
-const mockCodebase: ParsedCodebase = {
+const mockCodebase: KnowledgeGraph = {
+  ...createEmptyKnowledgeGraph(),
   components: [],
   services: [
     {
@@ -27,9 +28,7 @@ const mockCodebase: ParsedCodebase = {
       dependencies: ['Firestore'],
       filePath: 'src/app/core/services/project.service.ts'
     }
-  ],
-  interfaces: [],
-  models: []
+  ]
 };
 
 const fibreflowTestCases = [
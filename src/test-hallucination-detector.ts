@@ -4,10 +4,11 @@ import { config } from 'dotenv';
 config();
 
 import { HallucinationDetector } from './hallucination-detector.js';
-import { ParsedCodebase } from './codebase-parser.js';
+import { KnowledgeGraph, createEmptyKnowledgeGraph } from './knowledge-graph.js';
 
 // Mock FibreFlow codebase structure for testing
-const mockCodebase: ParsedCodebase = {
+const mockCodebase: KnowledgeGraph = {
+  ...createEmptyKnowledgeGraph(),
   components: [
     {
       name: 'ProjectListComponent',
@@ -100,9 +101,7 @@ const mockCodebase: ParsedCodebase = {
       dependencies: ['AngularFireAuth'],
       filePath: 'src/app/core/services/auth.service.ts'
     }
-  ],
-  interfaces: [],
-  models: []
+  ]
 };
 
 // Test cases
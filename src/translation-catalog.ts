@@ -0,0 +1,99 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree';
+import { basename, dirname, relative, sep } from 'path';
+import { KnowledgeGraph, TranslationCatalog } from './knowledge-graph.js';
+
+// XLIFF 1.2 `<trans-unit id>` and XLIFF 2.0 `<unit id>`
+const XLIFF_UNIT = /<(?:trans-unit|unit)\b[^>]*\bid="([^"]+)"/g;
+// The target language names the locale; the source file (messages.xlf) only has a source language
+const XLIFF_TARGET_LOCALE = /\b(?:target-language|trgLang)="([^"]+)"/;
+const XLIFF_SOURCE_LOCALE = /\b(?:source-language|srcLang)="([^"]+)"/;
+
+// messages.xlf, messages.fr.xlf, messages.xliff
+export function isXliffFile(filePath: string): boolean {
+  return /\.(xlf|xliff|xlf2)$/.test(filePath);
+}
+
+// ngx-translate and Transloco keep one JSON file per locale under an i18n directory, usually
+// src/assets/i18n/en.json; Transloco scopes live in subdirectories (i18n/admin/en.json)
+export function isTranslationJsonFile(filePath: string): boolean {
+  return /[\\/]i18n[\\/](.+[\\/])?[\w-]+\.json$/.test(filePath);
+}
+
+export function parseTranslationFile(filePath: string, content: string): TranslationCatalog | undefined {
+  if (isXliffFile(filePath)) {
+    const keys = [...content.matchAll(XLIFF_UNIT)].map(match => match[1]);
+    return { format: 'xliff', locale: (content.match(XLIFF_TARGET_LOCALE) ?? content.match(XLIFF_SOURCE_LOCALE))?.[1], keys: [...new Set(keys)], filePath };
+  }
+
+  if (isTranslationJsonFile(filePath)) {
+    // A scope directory prefixes its keys: i18n/admin/en.json -> admin.title
+    const i18nDir = filePath.slice(0, filePath.lastIndexOf(`${sep}i18n${sep}`) + `${sep}i18n`.length);
+    const scope = relative(i18nDir, dirname(filePath)).split(sep).filter(Boolean).join('.');
+    const keys = flattenKeys(JSON.parse(content), scope ? `${scope}.` : '');
+    return { format: 'json', locale: basename(filePath, '.json'), keys, filePath };
+  }
+
+  return undefined;
+}
+
+// { "home": { "title": "..." } } -> home.title
+function flattenKeys(value: any, prefix: string, keys: string[] = []): string[] {
+  for (const [key, child] of Object.entries(value ?? {})) {
+    if (child && typeof child === 'object' && !Array.isArray(child)) {
+      flattenKeys(child, `${prefix}${key}.`, keys);
+    } else {
+      keys.push(`${prefix}${key}`);
+    }
+  }
+  return keys;
+}
+
+// The custom id of a `$localize` tagged template, if it has one
+export function getLocalizeId(node: any): string | undefined {
+  if (node?.type !== AST_NODE_TYPES.TaggedTemplateExpression ||
+      node.tag.type !== AST_NODE_TYPES.Identifier ||
+      node.tag.name !== '$localize') {
+    return undefined;
+  }
+
+  const metadata = node.quasi.quasis[0]?.value.cooked?.match(/^:([^:]*):/)?.[1];
+  return metadata?.match(/@@([\w.-]+)/)?.[1];
+}
+
+// Every key of the given formats across all locales
+export function getTranslationKeys(graph: KnowledgeGraph, formats: TranslationCatalog['format'][]): Set<string> {
+  return new Set(graph.translations
+    .filter(catalog => formats.includes(catalog.format))
+    .flatMap(catalog => catalog.keys));
+}
+
+// The existing key with the smallest edit distance, if it is close enough to be a typo or a
+// near-guess rather than an unrelated key
+export function findClosestKey(keys: Iterable<string>, key: string): string | undefined {
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+  for (const candidate of keys) {
+    const distance = editDistance(candidate.toLowerCase(), key.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closestDistance <= Math.max(2, Math.floor(key.length / 3)) ? closest : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
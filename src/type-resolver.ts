@@ -0,0 +1,217 @@
+import ts from 'typescript';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import winston from 'winston';
+import {
+  KnowledgeGraph,
+  MemberOwner,
+  MethodInfo,
+  MethodSignature,
+  ParameterInfo,
+  PropertyInfo,
+  getCollectionEntities
+} from './knowledge-graph.js';
+import { readProjectConfig } from './module-resolver.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+// Keep aliases and generics as written and never elide long types with "..."
+const TYPE_FORMAT_FLAGS = ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+// Collections whose entities are classes or interfaces with members to resolve
+const MEMBER_COLLECTIONS = [
+  'components',
+  'services',
+  'directives',
+  'pipes',
+  'guards',
+  'resolvers',
+  'interceptors',
+  'interfaces',
+  'models',
+  'abstractClasses'
+] as const;
+
+// Resolves member types with the TypeScript TypeChecker for the project's tsconfig.json.
+// The syntactic extractors only see annotations as written; this fills in the resolvedType /
+// resolvedReturnType fields with what the compiler infers, including imported types.
+export class TypeResolver {
+  private program: ts.Program;
+  private checker: ts.TypeChecker;
+
+  private constructor(
+    private rootNames: string[],
+    private compilerOptions: ts.CompilerOptions,
+    private configFiles: boolean,
+    private rootPath: string,
+    private tsconfigPath?: string
+  ) {
+    this.program = ts.createProgram({ rootNames, options: compilerOptions });
+    this.checker = this.program.getTypeChecker();
+  }
+
+  // Loads the tsconfig.json at or above rootPath (or the given one). Projects whose
+  // tsconfig.json only holds references fall back to the supplied source files.
+  static fromProject(rootPath: string, sourceFiles: string[], tsconfigPath?: string): TypeResolver | null {
+    const config = readProjectConfig(rootPath, tsconfigPath);
+    if (!config) {
+      logger.warn(`No usable tsconfig.json found for ${rootPath}; skipping type resolution`);
+      return null;
+    }
+
+    const { configPath, parsed } = config;
+    const configFiles = parsed.fileNames.length > 0;
+    const rootNames = configFiles
+      ? parsed.fileNames
+      : sourceFiles.map(file => resolve(file));
+
+    logger.info(`Resolving types with ${configPath} (${rootNames.length} root files)`);
+    return new TypeResolver(rootNames, { ...parsed.options, noEmit: true }, configFiles, rootPath, tsconfigPath);
+  }
+
+  // Rebuilds the program after files changed on disk, re-using unchanged source files. The root
+  // files are collected again so files created since the last build are part of the program.
+  refresh(changedFiles: string[] = []): void {
+    if (this.configFiles) {
+      this.rootNames = readProjectConfig(this.rootPath, this.tsconfigPath)?.parsed.fileNames ?? this.rootNames;
+    } else {
+      const rootNames = new Set([...this.rootNames, ...changedFiles.map(file => resolve(file))]);
+      this.rootNames = [...rootNames].filter(file => existsSync(file));
+    }
+
+    this.program = ts.createProgram({
+      rootNames: this.rootNames,
+      options: this.compilerOptions,
+      oldProgram: this.program
+    });
+    this.checker = this.program.getTypeChecker();
+  }
+
+  // Adds resolved types to the entities a file fragment declares
+  annotate(filePath: string, fragment: KnowledgeGraph): void {
+    const sourceFile = this.program.getSourceFile(resolve(filePath));
+    if (!sourceFile) return;
+
+    const declarations = this.collectDeclarations(sourceFile);
+
+    for (const collection of MEMBER_COLLECTIONS) {
+      const entities: MemberOwner[] = getCollectionEntities(fragment, collection);
+      for (const entity of entities) {
+        const declaration = declarations.get(entity.name);
+        if (!declaration || !(ts.isClassDeclaration(declaration) || ts.isInterfaceDeclaration(declaration))) continue;
+
+        const instanceType = this.checker.getTypeAtLocation(declaration);
+        const symbol = this.checker.getSymbolAtLocation(declaration.name!);
+        const staticType = ts.isClassDeclaration(declaration) && symbol
+          ? this.checker.getTypeOfSymbolAtLocation(symbol, declaration)
+          : undefined;
+
+        entity.methods?.forEach(method => this.annotateMethod(method, instanceType, declaration));
+        entity.staticMethods?.forEach(method => staticType && this.annotateMethod(method, staticType, declaration));
+        entity.properties?.forEach(property => {
+          const type = property.isStatic ? staticType : instanceType;
+          const member = type?.getProperty(property.name);
+          if (member) {
+            property.resolvedType = this.typeToString(this.checker.getTypeOfSymbolAtLocation(member, declaration), declaration);
+          }
+        });
+      }
+    }
+
+    for (const fn of fragment.utilityFunctions) {
+      const declaration = declarations.get(fn.name);
+      if (!declaration) continue;
+
+      // The last declaration of an overloaded function is its implementation
+      const signature = ts.isFunctionDeclaration(declaration)
+        ? this.checker.getSignatureFromDeclaration(declaration)
+        : this.checker.getTypeAtLocation(declaration).getCallSignatures()[0];
+      if (signature) {
+        this.annotateSignature(fn, signature, declaration);
+      }
+    }
+  }
+
+  private annotateMethod(method: MethodInfo, ownerType: ts.Type, owner: ts.ClassDeclaration | ts.InterfaceDeclaration): void {
+    const member = ownerType.getProperty(method.name);
+    if (!member) return;
+
+    const accessorKind = method.accessor === 'get' ? ts.SyntaxKind.GetAccessor
+      : method.accessor === 'set' ? ts.SyntaxKind.SetAccessor
+      : undefined;
+    const declarations = (member.getDeclarations() ?? []).filter((declaration): declaration is ts.SignatureDeclaration =>
+      declaration.parent === owner && (accessorKind !== undefined
+        ? declaration.kind === accessorKind
+        : ts.isMethodDeclaration(declaration) || ts.isMethodSignature(declaration)));
+
+    // Fields holding a function are called through the field's type
+    if (declarations.length === 0) {
+      const signature = this.checker.getTypeOfSymbolAtLocation(member, owner).getCallSignatures()[0];
+      if (signature) this.annotateSignature(method, signature, owner);
+      return;
+    }
+
+    // The method itself is the implementation; without one, interfaces record their first
+    // signature and ambient or abstract classes their last
+    const implementation = declarations.find(declaration => (declaration as ts.MethodDeclaration).body);
+    const own = implementation ?? (ts.isInterfaceDeclaration(owner) ? declarations[0] : declarations[declarations.length - 1]);
+    const signature = this.checker.getSignatureFromDeclaration(own);
+    if (signature) this.annotateSignature(method, signature, owner);
+
+    const overloads = declarations.filter(declaration => declaration !== implementation);
+    if (method.overloads?.length === overloads.length) {
+      method.overloads.forEach((overload, index) => {
+        const overloadSignature = this.checker.getSignatureFromDeclaration(overloads[index]);
+        if (overloadSignature) this.annotateSignature(overload, overloadSignature, owner);
+      });
+    }
+  }
+
+  private annotateSignature(target: MethodSignature, signature: ts.Signature, location: ts.Node): void {
+    target.resolvedReturnType = this.typeToString(signature.getReturnType(), location);
+    this.annotateParameters(target.parameters, signature, location);
+  }
+
+  private annotateParameters(parameters: ParameterInfo[], signature: ts.Signature, location: ts.Node): void {
+    parameters.forEach((parameter, index) => {
+      // Destructured parameters have no name of their own, so they are matched by position
+      const symbol = parameter.destructured
+        ? signature.getParameters()[index]
+        : signature.getParameters().find(p => p.getName() === parameter.name);
+      if (symbol) {
+        parameter.resolvedType = this.typeToString(this.checker.getTypeOfSymbolAtLocation(symbol, location), location);
+      }
+    });
+  }
+
+  private typeToString(type: ts.Type, location: ts.Node): string {
+    return this.checker.typeToString(type, location, TYPE_FORMAT_FLAGS);
+  }
+
+  // Top-level classes, interfaces and functions (including `const fn = () => ...`) by name
+  private collectDeclarations(sourceFile: ts.SourceFile): Map<string, ts.Node> {
+    const declarations = new Map<string, ts.Node>();
+
+    for (const statement of sourceFile.statements) {
+      if ((ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isFunctionDeclaration(statement)) && statement.name) {
+        declarations.set(statement.name.text, statement);
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) {
+            declarations.set(declaration.name.text, declaration);
+          }
+        }
+      }
+    }
+    return declarations;
+  }
+}
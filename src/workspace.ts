@@ -0,0 +1,219 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import winston from 'winston';
+import {
+  KnowledgeGraph,
+  KNOWLEDGE_GRAPH_COLLECTIONS,
+  WorkspaceProject,
+  getCollectionEntities,
+  setCollectionEntities
+} from './knowledge-graph.js';
+import { WorkspaceManifest } from './parse-manifest.js';
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console()
+  ]
+});
+
+const WORKSPACE_FILES = ['angular.json', 'nx.json', 'workspace.json'];
+
+// Nearest directory at or above startPath with an Angular CLI or Nx workspace file
+export function findWorkspaceRoot(startPath: string): string | null {
+  let dir = resolve(startPath);
+  while (!WORKSPACE_FILES.some(file => existsSync(join(dir, file)))) {
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+  return dir;
+}
+
+// The projects of the workspace containing rootPath: those listed in angular.json (or an older
+// Nx workspace.json) and, in Nx workspaces, those of the given project.json files. The parser
+// finds those while collecting source files, so excluded and git-ignored directories are never
+// searched; a workspace root above rootPath contributes only its own workspace files. Paths are
+// joined onto rootPath like entity file paths, so the graph can be matched against them.
+export function readWorkspaceProjects(rootPath: string, projectJsonFiles: string[]): WorkspaceProject[] {
+  const workspaceRoot = findWorkspaceRoot(rootPath);
+  if (!workspaceRoot) return [];
+
+  const toGraphPath = (path: string) => join(rootPath, relative(resolve(rootPath), resolve(workspaceRoot, path)));
+  const projects = new Map<string, WorkspaceProject>();
+
+  const addProject = (name: string, config: any, configPath: string, root: string) => {
+    projects.set(name, {
+      name,
+      type: config.projectType === 'application' ? 'application' : 'library',
+      root: toGraphPath(root),
+      sourceRoot: config.sourceRoot ? toGraphPath(config.sourceRoot) : undefined,
+      prefix: config.prefix,
+      tags: config.tags?.length ? config.tags : undefined,
+      dependencies: [],
+      implicitDependencies: config.implicitDependencies?.length ? config.implicitDependencies : undefined,
+      filePath: toGraphPath(configPath)
+    });
+  };
+
+  const readProjectJson = (projectJsonPath: string) => {
+    const config = readJson(projectJsonPath);
+    if (!config) return;
+    const root = relative(workspaceRoot, dirname(projectJsonPath));
+    // Nx names unnamed projects after their directory
+    addProject(config.name ?? basename(dirname(projectJsonPath)), config, projectJsonPath, root);
+  };
+
+  for (const file of ['angular.json', 'workspace.json']) {
+    const workspace = readJson(join(workspaceRoot, file));
+    for (const [name, config] of Object.entries<any>(workspace?.projects ?? {})) {
+      // Nx workspace.json v2 may point at a project directory instead of inlining its config
+      if (typeof config === 'string') {
+        readProjectJson(join(workspaceRoot, config, 'project.json'));
+      } else {
+        addProject(name, config, join(workspaceRoot, file), config.root ?? '');
+      }
+    }
+  }
+
+  if (existsSync(join(workspaceRoot, 'nx.json'))) {
+    projectJsonFiles
+      .map(path => resolve(path))
+      .filter(path => ![...projects.values()].some(project => resolve(project.filePath) === path))
+      .forEach(readProjectJson);
+  }
+
+  return [...projects.values()];
+}
+
+function readJson(filePath: string): any {
+  if (!existsSync(filePath)) return undefined;
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    logger.warn(`Failed to read ${filePath}: ${error}`);
+    return undefined;
+  }
+}
+
+// The previous workspace projects while no workspace file changed, appeared or went away,
+// otherwise the projects read again
+export function loadWorkspaceProjects(rootPath: string, projectJsonFiles: string[], previous?: WorkspaceManifest): WorkspaceManifest {
+  const files = getWorkspaceFileTimes(rootPath, projectJsonFiles);
+  const previousFiles = previous?.files ?? {};
+  const unchanged = previous &&
+    Object.keys(files).length === Object.keys(previousFiles).length &&
+    Object.entries(files).every(([path, mtimeMs]) => previousFiles[path] === mtimeMs);
+
+  return unchanged ? previous : { files, projects: readWorkspaceProjects(rootPath, projectJsonFiles) };
+}
+
+// Modification times of the workspace files at the workspace root and of the project.json files,
+// keyed by path relative to rootPath
+function getWorkspaceFileTimes(rootPath: string, projectJsonFiles: string[]): Record<string, number> {
+  const workspaceRoot = findWorkspaceRoot(rootPath);
+  if (!workspaceRoot) return {};
+
+  const times: Record<string, number> = {};
+  [...WORKSPACE_FILES.map(file => join(workspaceRoot, file)), ...projectJsonFiles]
+    .filter(path => existsSync(path))
+    .forEach(path => times[relative(rootPath, path)] = statSync(path).mtimeMs);
+  return times;
+}
+
+// The project whose directory contains the file; with nested projects (an Angular CLI
+// application at the workspace root, libraries below it) the innermost one
+export function getOwningProject(projects: WorkspaceProject[], filePath: string): WorkspaceProject | undefined {
+  const path = resolve(filePath);
+  let owner: WorkspaceProject | undefined;
+  for (const project of projects) {
+    const root = resolve(project.root);
+    if ((path === root || path.startsWith(root + sep)) && (!owner || root.length > resolve(owner.root).length)) {
+      owner = project;
+    }
+  }
+  return owner;
+}
+
+// Records which workspace projects each project imports from, through aliased imports and
+// re-exports of its files. Runs after resolveModuleExports(), which resolves the re-exports.
+export function linkWorkspaceProjects(graph: KnowledgeGraph): KnowledgeGraph {
+  const projects = graph.workspaceProjects;
+  const dependencies = new Map(projects.map(project => [project, new Set(project.implicitDependencies)]));
+
+  for (const module of graph.modules) {
+    const owner = getOwningProject(projects, module.filePath);
+    if (!owner) continue;
+
+    const targets = [...(module.imports || []), ...module.reExports.map(reExport => reExport.resolvedPath)];
+    targets.forEach(path => {
+      const target = path && getOwningProject(projects, path);
+      if (target && target !== owner) {
+        dependencies.get(owner)!.add(target.name);
+      }
+    });
+  }
+
+  projects.forEach(project => {
+    project.dependencies = [...dependencies.get(project)!].sort();
+  });
+  return graph;
+}
+
+// The part of the graph a file's project can use: its own entities, those of the libraries it
+// may import and those outside every project. Applications are never imported, and a library
+// that already depends on the project would create a cycle. Returns the graph itself when the
+// file is not in a workspace project.
+export function getProjectScope(graph: KnowledgeGraph, filePath: string): KnowledgeGraph {
+  const project = getOwningProject(graph.workspaceProjects, filePath);
+  if (!project) return graph;
+
+  const dependents = getDependents(graph.workspaceProjects, project.name);
+  return filterProjects(graph, owner => !owner || owner === project ||
+    (owner.type === 'library' && !dependents.has(owner.name)));
+}
+
+// The graph of a single application or library
+export function getProjectGraph(graph: KnowledgeGraph, projectName: string): KnowledgeGraph {
+  return filterProjects(graph, owner => owner?.name === projectName);
+}
+
+// Projects that depend on the given one, directly or through other projects
+function getDependents(projects: WorkspaceProject[], projectName: string): Set<string> {
+  const dependents = new Set<string>();
+  const queue = [projectName];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    projects
+      .filter(project => project.dependencies.includes(name) && !dependents.has(project.name))
+      .forEach(project => {
+        dependents.add(project.name);
+        queue.push(project.name);
+      });
+  }
+  return dependents;
+}
+
+// A copy of the graph with the entities whose owning project passes the filter. Installed
+// packages and the workspace projects themselves are kept.
+function filterProjects(graph: KnowledgeGraph, include: (owner: WorkspaceProject | undefined) => boolean): KnowledgeGraph {
+  const owners = new Map<string, WorkspaceProject | undefined>();
+  const isIncluded = (filePath: string) => {
+    if (!owners.has(filePath)) {
+      owners.set(filePath, getOwningProject(graph.workspaceProjects, filePath));
+    }
+    return include(owners.get(filePath));
+  };
+
+  const scoped = { ...graph };
+  for (const collection of KNOWLEDGE_GRAPH_COLLECTIONS) {
+    if (collection === 'workspaceProjects') continue;
+    setCollectionEntities(scoped, collection, getCollectionEntities(graph, collection)
+      .filter(entity => !('filePath' in entity) || isIncluded(entity.filePath)));
+  }
+  return scoped;
+}
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { findUnusedMembers, findUsages } from '../src/call-graph.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/projects/project.service.ts': `import { Injectable } from '@angular/core';
+import { BaseStore } from '../shared/base-store';
+@Injectable({ providedIn: 'root' })
+export class ProjectService extends BaseStore {
+  getAll() { return []; }
+  archive() {}
+}
+`,
+  'src/app/admin/project.service.ts': `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  getAll() { return []; }
+  archive() {}
+}
+`,
+  'src/app/shared/base-store.ts': `export abstract class BaseStore {
+  reset() {}
+}
+`,
+  'src/app/admin/base-store.ts': `export abstract class BaseStore {
+  reset() {}
+}
+`,
+  'src/app/shared/format.ts': `export function formatDate(date: Date) { return date.toISOString(); }
+`,
+  'src/app/admin/format.ts': `export function formatDate(date: Date) { return date.toDateString(); }
+`,
+  'src/app/projects/index.ts': `export * from './project.service';
+`,
+  'src/app/projects/project-list.component.ts': `import { Component, inject } from '@angular/core';
+import { ProjectService as Projects } from './index';
+import { formatDate } from '../shared/format';
+@Component({ selector: 'app-project-list', standalone: true, imports: [], template: '' })
+export class ProjectListComponent {
+  private projects = inject(Projects);
+  load() {
+    this.projects.reset();
+    return this.projects.getAll().map(() => formatDate(new Date()));
+  }
+}
+`
+};
+
+describe('call graph', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const usageCounts = (collection: 'services' | 'abstractClasses', name: string, member: string) =>
+    Object.fromEntries(graph[collection]
+      .filter(entity => entity.name === name)
+      .map(entity => [entity.filePath.slice(rootPath.length), entity.methods.find(m => m.name === member)?.usageCount]));
+
+  it('records aliased imports under the exported name', () => {
+    const site = graph.callSites.find(call => call.member === 'getAll');
+
+    assert.equal(site?.callee, 'ProjectService.getAll');
+    assert.deepEqual(site?.calleeImport, { from: './index', name: 'ProjectService' });
+    assert.equal(site?.resolved, true);
+  });
+
+  it('counts usages on the class the import resolves to, not on others of the same name', () => {
+    assert.deepEqual(usageCounts('services', 'ProjectService', 'getAll'), {
+      '/src/app/projects/project.service.ts': 1,
+      '/src/app/admin/project.service.ts': undefined
+    });
+    assert.deepEqual(usageCounts('abstractClasses', 'BaseStore', 'reset'), {
+      '/src/app/shared/base-store.ts': 1,
+      '/src/app/admin/base-store.ts': undefined
+    });
+    assert.deepEqual(Object.fromEntries(graph.utilityFunctions.map(fn => [fn.filePath.slice(rootPath.length), fn.usageCount])), {
+      '/src/app/shared/format.ts': 1,
+      '/src/app/admin/format.ts': undefined
+    });
+  });
+
+  it('finds usages of inherited methods through the declaring class', () => {
+    assert.deepEqual(findUsages(graph, 'BaseStore.reset').map(site => site.code), ['this.projects.reset()']);
+  });
+
+  it('reports members of the same-named classes and functions that are never called', () => {
+    assert.deepEqual(findUnusedMembers(graph).sort(), [
+      'BaseStore.reset',
+      'ProjectListComponent.load',
+      'ProjectService.archive',
+      'ProjectService.archive',
+      'ProjectService.getAll',
+      'formatDate'
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { CodebaseWatcher } from '../src/codebase-watcher.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject, writeProjectFile } from './helpers.js';
+
+const SERVICE = `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  list() { return []; }
+}
+`;
+
+const COMPONENT = `import { Component } from '@angular/core';
+@Component({ selector: 'app-projects', standalone: true, imports: [], templateUrl: './projects.component.html' })
+export class ProjectsComponent {
+  refresh() {}
+  archive() {}
+}
+`;
+
+// Resolves once an update leaves the graph in the expected state; changes can arrive in more
+// than one batch
+function waitForGraph(watcher: CodebaseWatcher, predicate: (graph: KnowledgeGraph) => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      watcher.off('updated', onUpdated);
+      reject(new Error('Timed out waiting for the watcher to update the graph'));
+    }, 5000);
+    const onUpdated = () => {
+      if (!predicate(watcher.getGraph())) return;
+      clearTimeout(timer);
+      watcher.off('updated', onUpdated);
+      resolve();
+    };
+    watcher.on('updated', onUpdated);
+  });
+}
+
+describe('CodebaseWatcher', () => {
+  let rootPath: string;
+  let watcher: CodebaseWatcher;
+
+  beforeEach(async () => {
+    rootPath = createProject({
+      'src/app/project.service.ts': SERVICE,
+      'src/app/projects/projects.component.ts': COMPONENT,
+      'src/app/projects/projects.component.html': '<button (click)="refresh()">Refresh</button>'
+    });
+    const parser = new CodebaseParser({ workers: 0, indexPackages: false });
+    const { graph, manifest } = await parser.parseCodebaseIncremental(rootPath);
+    watcher = new CodebaseWatcher(parser, { graph, manifest }, { debounceMs: 50 });
+    watcher.start();
+    // Give the watchers a moment to attach before files change
+    await delay(200);
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    removeProject(rootPath);
+  });
+
+  const findService = (graph: KnowledgeGraph, name: string) => graph.services.find(service => service.name === name);
+
+  it('re-parses a changed source file', async () => {
+    const updated = waitForGraph(watcher, graph =>
+      !!findService(graph, 'ProjectService')?.methods.some(method => method.name === 'archive'));
+    writeProjectFile(rootPath, 'src/app/project.service.ts', SERVICE.replace('  list()', '  archive() {}\n  list()'));
+
+    await updated;
+  });
+
+  it('re-parses the component whose template changed', async () => {
+    const updated = waitForGraph(watcher, graph =>
+      !!graph.components[0].template?.referencedMethods.includes('archive'));
+    writeProjectFile(rootPath, 'src/app/projects/projects.component.html', '<button (click)="archive()">Archive</button>');
+
+    await updated;
+  });
+
+  it('picks up files in new directories and drops them when the directory is removed', async () => {
+    const added = waitForGraph(watcher, graph => !!findService(graph, 'UserService'));
+    writeProjectFile(rootPath, 'src/app/users/user.service.ts', `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class UserService { current() { return null; } }
+`);
+    await added;
+
+    const removed = waitForGraph(watcher, graph => !findService(graph, 'UserService'));
+    rmSync(join(rootPath, 'src/app/users'), { recursive: true });
+    await removed;
+  });
+});
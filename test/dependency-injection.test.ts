@@ -0,0 +1,145 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { getProviderRegistrations, isProvidedApplicationWide } from '../src/dependency-injection.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const injectable = (name: string) => `import { Injectable } from '@angular/core';
+@Injectable()
+export class ${name} { run() {} }
+`;
+
+const FILES = {
+  'src/app/app.config.ts': `import { ApplicationConfig, importProvidersFrom } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { routes } from './app.routes';
+import { ReportService } from './core/report.service';
+import { SharedModule } from './core/shared.module';
+export const appConfig: ApplicationConfig = {
+  providers: [provideRouter(routes), ReportService, importProvidersFrom(SharedModule)]
+};
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+export const routes: Routes = [
+  { path: 'admin', loadChildren: () => import('./admin/admin.module').then(m => m.AdminModule) }
+];
+`,
+  'src/app/admin/admin.module.ts': `import { NgModule } from '@angular/core';
+import { AdminService } from './admin.service';
+@NgModule({ providers: [AdminService] })
+export class AdminModule {}
+`,
+  'src/app/admin/admin.service.ts': injectable('AdminService'),
+  'src/app/core/report.service.ts': injectable('ReportService'),
+  'src/app/core/shared.module.ts': `import { NgModule } from '@angular/core';
+import { SharedService } from './shared.service';
+@NgModule({ providers: [SharedService] })
+export class SharedModule {}
+`,
+  'src/app/core/shared.service.ts': injectable('SharedService'),
+  'src/app/core/panel.service.ts': injectable('PanelService'),
+  'src/app/core/panel.component.ts': `import { Component } from '@angular/core';
+import { PanelService } from './panel.service';
+@Component({ selector: 'app-panel', standalone: true, imports: [], template: '', providers: [PanelService] })
+export class PanelComponent {}
+`,
+  'src/app/core/hidden.service.ts': injectable('HiddenService'),
+  'src/app/core/tokens.ts': `import { InjectionToken } from '@angular/core';
+export const API_URL = new InjectionToken<string>('API_URL', { providedIn: 'root', factory: () => '/api' });
+`
+};
+
+const consumer = (...tokens: string[]) => `import { Component, inject } from '@angular/core';
+@Component({ selector: 'app-consumer', standalone: true, imports: [], template: '' })
+export class ConsumerComponent {
+${tokens.map((token, index) => `  dependency${index} = inject(${token});`).join('\n')}
+}`;
+
+describe('dependency injection scopes', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const scopesOf = (token: string) =>
+    getProviderRegistrations(graph, token).map(registration => `${registration.scope}:${registration.owner ?? ''}`);
+  const providedApplicationWide = (token: string) => isProvidedApplicationWide(graph, getProviderRegistrations(graph, token));
+
+  it('records where each token is provided', () => {
+    assert.deepEqual(scopesOf('ReportService'), ['environment:']);
+    assert.deepEqual(scopesOf('SharedService'), ['module:SharedModule']);
+    assert.deepEqual(scopesOf('AdminService'), ['module:AdminModule']);
+    assert.deepEqual(scopesOf('PanelService'), ['component:PanelComponent']);
+    assert.deepEqual(scopesOf('API_URL'), ['root:']);
+    assert.deepEqual(scopesOf('HiddenService'), []);
+  });
+
+  it('records provider calls it cannot see into as opaque', () => {
+    const opaque = graph.providerRegistrations.filter(registration => registration.provider === 'opaque');
+    assert.deepEqual(opaque.map(registration => registration.token), ['importProvidersFrom']);
+  });
+
+  it('treats eager modules as application wide, but not lazy modules and components', () => {
+    assert.equal(providedApplicationWide('ReportService'), true);
+    assert.equal(providedApplicationWide('SharedService'), true);
+    assert.equal(providedApplicationWide('API_URL'), true);
+    assert.equal(providedApplicationWide('AdminService'), false);
+    assert.equal(providedApplicationWide('PanelService'), false);
+  });
+
+  it('accepts injections of application wide providers', async () => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(consumer('ReportService', 'SharedService', 'API_URL'));
+
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('warns about injections outside the injector that provides them', async () => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(consumer('AdminService', 'PanelService'));
+
+    assert.deepEqual(result.issues.map(issue => [issue.severity, issue.description]), [
+      ['warning', 'AdminService is only provided by AdminModule (module), so ConsumerComponent can only inject it below those'],
+      ['warning', 'PanelService is only provided by PanelComponent (component), so ConsumerComponent can only inject it below those']
+    ]);
+  });
+
+  it('only warns about unprovided tokens when opaque provider calls could provide them', async () => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(consumer('HiddenService'));
+
+    assert.equal(result.issues.length, 1);
+    assert.equal(result.issues[0].severity, 'warning');
+    assert.match(result.issues[0].description, /^HiddenService is injected into ConsumerComponent but no provider was found/);
+  });
+});
+
+describe('dependency injection without opaque providers', () => {
+  let rootPath: string;
+
+  before(() => {
+    rootPath = createProject({
+      'src/app/app.config.ts': `import { ApplicationConfig } from '@angular/core';
+import { ReportService } from './report.service';
+export const appConfig: ApplicationConfig = { providers: [ReportService] };
+`,
+      'src/app/report.service.ts': injectable('ReportService'),
+      'src/app/hidden.service.ts': injectable('HiddenService')
+    });
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('reports tokens that are provided nowhere as errors', async () => {
+    const graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+    const result = await new HallucinationDetector(graph).detectHallucinations(consumer('ReportService', 'HiddenService'));
+
+    assert.equal(result.issues.length, 1);
+    assert.equal(result.issues[0].severity, 'error');
+    assert.match(result.issues[0].description, /^HiddenService/);
+  });
+});
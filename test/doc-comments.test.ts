@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/project.service.ts': `import { Injectable } from '@angular/core';
+
+/**
+ * Loads and saves projects.
+ *
+ * Backed by Firestore.
+ */
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  /** Projects loaded so far */
+  cache: string[] = [];
+
+  /**
+   * Finds a project.
+   * @param id - The project id
+   * @returns The project, or null
+   */
+  find(id: string): string | null { return null; }
+
+  /**
+   * @deprecated Use {@link ProjectService.find} instead.
+   */
+  get(id: string): string | null { return null; }
+
+  /** @internal */
+  reset(): void {}
+}
+`,
+  'src/app/dates.ts': `/**
+ * Formats a date the old way.
+ * @deprecated Use formatDate instead
+ */
+export function formatLegacyDate(date: Date): string { return ''; }
+export function formatDate(date: Date): string { return ''; }
+`
+};
+
+describe('doc comments', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (body: string, rules?: Record<string, boolean>): Promise<Array<[string, string | undefined]>> => {
+    const code = `import { Component, inject } from '@angular/core';
+import { ProjectService } from './project.service';
+import { formatLegacyDate } from './dates';
+@Component({ selector: 'app-report', standalone: true, imports: [], template: '' })
+export class ReportComponent {
+  private projects = inject(ProjectService);
+${body}
+}`;
+    const result = await new HallucinationDetector(graph, rules).detectHallucinations(code, undefined, [], `${rootPath}/src/app/report.component.ts`);
+    return result.issues.map(issue => [issue.description, issue.suggestion]);
+  };
+
+  it('stores the summary, @param and @returns text of classes, methods and properties', () => {
+    const service = graph.services[0];
+
+    assert.equal(service.docs?.summary, 'Loads and saves projects.\n\nBacked by Firestore.');
+    assert.deepEqual(service.properties.find(property => property.name === 'cache')?.docs, { summary: 'Projects loaded so far' });
+    assert.deepEqual(service.methods.find(method => method.name === 'find')?.docs, {
+      summary: 'Finds a project.',
+      params: { id: 'The project id' },
+      returns: 'The project, or null'
+    });
+  });
+
+  it('stores @deprecated with the replacement it names, and @internal', () => {
+    const service = graph.services[0];
+
+    assert.deepEqual(service.methods.find(method => method.name === 'get')?.docs?.deprecated, {
+      message: 'Use {@link ProjectService.find} instead.',
+      replacement: 'ProjectService.find'
+    });
+    assert.deepEqual(service.methods.find(method => method.name === 'reset')?.docs, { internal: true });
+    assert.deepEqual(graph.utilityFunctions.find(fn => fn.name === 'formatLegacyDate')?.docs?.deprecated, {
+      message: 'Use formatDate instead',
+      replacement: 'formatDate'
+    });
+  });
+
+  it('warns about calls of deprecated methods and functions and names the replacement', async () => {
+    assert.deepEqual(await detect(`  go() { this.projects.get('1'); return formatLegacyDate(new Date()); }`), [
+      ['ProjectService.get() is deprecated: Use {@link ProjectService.find} instead.', 'Use ProjectService.find instead'],
+      ['formatLegacyDate() is deprecated: Use formatDate instead', 'Use formatDate instead']
+    ]);
+    assert.deepEqual(await detect(`  go() { this.projects.find('1'); }`), []);
+  });
+
+  it('leaves deprecated function calls alone with the deprecations rule off', async () => {
+    assert.deepEqual(await detect(`  go() { return formatLegacyDate(new Date()); }`, { deprecations: false }), []);
+  });
+});
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { KnowledgeGraphWriter } from '../src/knowledge-graph-writer.js';
+import { createProject, removeProject, writeProjectFile } from './helpers.js';
+
+const configService = (key: string) => `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class ConfigService {
+  get(name: string) { return '${key}' + name; }
+}
+`;
+
+const ROUTES = `import { Routes } from '@angular/router';
+export const routes: Routes = [
+  { path: '', children: [{ path: 'list', children: [] }] },
+  { path: 'admin', children: [{ path: 'list', children: [] }] },
+  { path: 'help', children: [] },
+  { path: 'help', outlet: 'aside', children: [] }
+];
+`;
+
+const FILES = {
+  'src/app/billing/config.service.ts': configService('billing'),
+  'src/app/shop/config.service.ts': configService('shop'),
+  'src/app/shop/helpers.ts': `export function formatPrice(value: number) { return value.toFixed(2); }
+function round(value: number) { return Math.round(value); }
+export const total = (values: number[]) => round(values.reduce((sum, value) => sum + value, 0));
+`,
+  'src/app/app.routes.ts': ROUTES
+};
+
+describe('entity ids', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('keys entities by file and name so same-named classes coexist', () => {
+    assert.deepEqual(graph.services.map(service => service.id).sort(), [
+      'src/app/billing/config.service.ts#ConfigService',
+      'src/app/shop/config.service.ts#ConfigService'
+    ]);
+  });
+
+  it('records the source range and export status of declarations', () => {
+    const fns = graph.utilityFunctions.map(({ name, location, exported }) => ({ name, location, exported }));
+
+    assert.deepEqual(fns, [
+      { name: 'formatPrice', location: { start: { line: 1, column: 7 }, end: { line: 1, column: 71 } }, exported: true },
+      { name: 'round', location: { start: { line: 2, column: 0 }, end: { line: 2, column: 59 } }, exported: false },
+      { name: 'total', location: { start: { line: 3, column: 13 }, end: { line: 3, column: 95 } }, exported: true }
+    ]);
+  });
+
+  it('keys routes by their full URL and outlet', () => {
+    assert.deepEqual(graph.routes.map(route => route.id), [
+      'src/app/app.routes.ts#/',
+      'src/app/app.routes.ts#/admin',
+      'src/app/app.routes.ts#/help',
+      'src/app/app.routes.ts#/help(aside)'
+    ]);
+  });
+
+  it('keeps ids when declarations move within their file', async () => {
+    writeProjectFile(rootPath, 'src/app/app.routes.ts', `// Application routes\n\n${ROUTES}`);
+    writeProjectFile(rootPath, 'src/app/shop/config.service.ts', `// Shop settings\n${configService('shop')}`);
+    const reparsed = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+
+    assert.deepEqual(reparsed.routes.map(route => route.id).sort(), graph.routes.map(route => route.id).sort());
+    assert.deepEqual(reparsed.services.map(service => service.id).sort(), graph.services.map(service => service.id).sort());
+  });
+
+  it('lists every same-named entity in the chunk lookup', () => {
+    const index = new KnowledgeGraphWriter(join(rootPath, 'knowledge-graphs')).write(graph);
+
+    assert.deepEqual(Object.keys(index.quickLookup.services ?? {}).sort(), [
+      'src/app/billing/config.service.ts#ConfigService',
+      'src/app/shop/config.service.ts#ConfigService'
+    ]);
+  });
+});
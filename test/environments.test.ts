@@ -0,0 +1,94 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/environments/environment.ts': `const firebase = { projectId: 'demo', apiKey: 'key' };
+export const environment = {
+  production: false,
+  apiUrl: \`http://localhost:3000\`,
+  retries: 3,
+  firebase,
+  features: { search: true, tags: ['beta'] }
+};
+`,
+  'src/environments/environment.prod.ts': `export const environment = {
+  production: true,
+  apiUrl: 'https://api.example.com',
+  retries: 5,
+  firebase: { projectId: 'prod', apiKey: 'key' }
+} as const;
+`
+};
+
+describe('environment keys', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (expression: string): Promise<Array<[string, string]>> => {
+    const code = `import { environment } from '../environments/environment';
+export const value = ${expression};`;
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, [], `${rootPath}/src/app/config.ts`);
+    return result.issues.map(issue => [issue.severity, issue.description]);
+  };
+
+  it('records the nested key tree of every environment file', () => {
+    const byVariant = Object.fromEntries(graph.environments.map(environment =>
+      [environment.variant, environment.keys.map(key => `${key.path}: ${key.type}`)]));
+
+    assert.deepEqual(byVariant, {
+      default: [
+        'production: boolean',
+        'apiUrl: string',
+        'retries: number',
+        'firebase: object',
+        'firebase.projectId: string',
+        'firebase.apiKey: string',
+        'features: object',
+        'features.search: boolean',
+        'features.tags: array'
+      ],
+      prod: [
+        'production: boolean',
+        'apiUrl: string',
+        'retries: number',
+        'firebase: object',
+        'firebase.projectId: string',
+        'firebase.apiKey: string'
+      ]
+    });
+  });
+
+  it('records the keys an environment file lacks', () => {
+    const missing = Object.fromEntries(graph.environments.map(environment => [environment.variant, environment.missingKeys]));
+
+    assert.deepEqual(missing, { default: undefined, prod: ['features', 'features.search', 'features.tags'] });
+  });
+
+  it('accepts defined keys and members of their values', async () => {
+    assert.deepEqual(await detect('[environment.apiUrl.length, environment.firebase.projectId, environment.production]'), []);
+  });
+
+  it('reports keys no environment file defines, once per chain', async () => {
+    assert.deepEqual(await detect('[environment.apiBaseUrl, environment.firebase.functionsRegion.trim()]'), [
+      ['error', `'environment.apiBaseUrl' does not exist in the environment files`],
+      ['error', `'environment.firebase.functionsRegion' does not exist in the environment files`]
+    ]);
+  });
+
+  it('warns about keys some environment files lack', async () => {
+    assert.deepEqual(await detect('environment.features.search'), [
+      ['warning', `'environment.features' is not defined in environment.prod.ts`]
+    ]);
+  });
+});
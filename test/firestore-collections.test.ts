@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { FirestoreCollectionRef, KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/models.ts': `export interface Project { name: string }
+export interface Task { title: string }
+export interface Member { role: string }
+`,
+  'src/app/project.service.ts': `import { Injectable, inject } from '@angular/core';
+import { Firestore, CollectionReference, collection, collectionData, collectionGroup, doc, docData } from '@angular/fire/firestore';
+import { Project, Task } from './models';
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  private firestore = inject(Firestore);
+  private projects = collection(this.firestore, 'projects') as CollectionReference<Project>;
+
+  tasks(projectId: string) {
+    return collectionData(collection(this.firestore, \`projects/\${projectId}/tasks\`));
+  }
+
+  task(projectId: string, taskId: string) {
+    return docData(doc(this.firestore, 'projects', projectId, 'tasks', taskId));
+  }
+
+  allTasks() {
+    return collectionData(collectionGroup(this.firestore, 'tasks'));
+  }
+
+  typedTasks(projectId: string) {
+    return collection(this.firestore, \`projects/\${projectId}/tasks\`) as CollectionReference<Task>;
+  }
+}
+`,
+  'functions/src/members.ts': `import { getFirestore } from 'firebase-admin/firestore';
+import { Member } from '../../src/app/models';
+const db = getFirestore();
+export async function addMember(projectId: string, member: Member) {
+  await db.collection('projects').doc(projectId).collection('members').add(member);
+}
+`
+};
+
+describe('Firestore collection catalog', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const find = (file: string, path: string): FirestoreCollectionRef | undefined =>
+    graph.firestoreCollections.find(ref => ref.id === `${file}#${path}`);
+
+  it('records one entry per collection path and file, with {id} document segments', () => {
+    assert.deepEqual(graph.firestoreCollections.map(ref => ref.id).sort(), [
+      'functions/src/members.ts#projects',
+      'functions/src/members.ts#projects/{id}/members',
+      'src/app/project.service.ts#projects',
+      'src/app/project.service.ts#projects/{id}/tasks',
+      'src/app/project.service.ts#tasks'
+    ]);
+  });
+
+  it('records subcollection templates with their parent document and the accessors used', () => {
+    const tasks = find('src/app/project.service.ts', 'projects/{id}/tasks');
+    assert.equal(tasks?.collectionId, 'tasks');
+    assert.equal(tasks?.parentPath, 'projects/{id}');
+    assert.deepEqual(tasks?.accessors, ['collection', 'doc']);
+
+    const members = find('functions/src/members.ts', 'projects/{id}/members');
+    assert.equal(members?.parentPath, 'projects/{id}');
+    assert.deepEqual(find('functions/src/members.ts', 'projects')?.accessors, ['doc', 'collection']);
+  });
+
+  it('records collectionGroup() queries by collection id', () => {
+    const group = find('src/app/project.service.ts', 'tasks');
+    assert.equal(group?.group, true);
+    assert.deepEqual(group?.accessors, ['collectionGroup']);
+  });
+
+  it('links collections to their document interfaces, inferring them for untyped references', () => {
+    const typed = find('src/app/project.service.ts', 'projects');
+    assert.equal(typed?.documentType, 'Project');
+    assert.equal(typed?.documentTypeInferred, undefined);
+    assert.ok(typed?.documentTypeFilePath?.endsWith('src/app/models.ts'));
+
+    assert.equal(find('src/app/project.service.ts', 'projects/{id}/tasks')?.documentType, 'Task');
+    assert.equal(find('functions/src/members.ts', 'projects')?.documentType, 'Project');
+    assert.equal(find('functions/src/members.ts', 'projects')?.documentTypeInferred, true);
+    assert.equal(find('src/app/project.service.ts', 'tasks')?.documentType, 'Task');
+    assert.equal(find('src/app/project.service.ts', 'tasks')?.documentTypeInferred, true);
+    assert.equal(find('functions/src/members.ts', 'projects/{id}/members')?.documentType, undefined);
+  });
+});
@@ -0,0 +1,79 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { findUnusedMembers } from '../src/call-graph.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/auth.ts': `import { CanActivateFn, CanMatchFn, ResolveFn } from '@angular/router';
+import { HttpInterceptorFn } from '@angular/common/http';
+export const authGuard: CanActivateFn = () => true;
+export const adminMatch: CanMatchFn = function () { return true; };
+export function roleGuard(role: string): CanActivateFn {
+  return () => role === 'admin';
+}
+export const userResolver: ResolveFn<string> = () => 'user';
+export const authInterceptor: HttpInterceptorFn = (req, next) => next(req);
+export const formatRole = (role: string) => role.toUpperCase();
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+import { authGuard, adminMatch, roleGuard, userResolver } from './auth';
+export const routes: Routes = [
+  { path: 'admin', canActivate: [authGuard, roleGuard('admin')], canMatch: [adminMatch], resolve: { user: userResolver }, children: [] }
+];
+`,
+  'src/app/app.config.ts': `import { ApplicationConfig } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { authInterceptor } from './auth';
+import { routes } from './app.routes';
+export const appConfig: ApplicationConfig = {
+  providers: [provideRouter(routes), provideHttpClient(withInterceptors([authInterceptor]))]
+};
+`
+};
+
+describe('functional guards, resolvers and interceptors', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('records typed function constants and factories with their kind', () => {
+    const guards = graph.guards.map(({ name, type, guardType, kinds, factory }) => ({ name, type, guardType, kinds, factory }));
+
+    assert.deepEqual(guards, [
+      { name: 'authGuard', type: 'function', guardType: 'CanActivateFn', kinds: ['canActivate'], factory: undefined },
+      { name: 'adminMatch', type: 'function', guardType: 'CanMatchFn', kinds: ['canMatch'], factory: undefined },
+      { name: 'roleGuard', type: 'function', guardType: 'CanActivateFn', kinds: ['canActivate'], factory: true }
+    ]);
+    assert.deepEqual(graph.resolvers.map(({ name, type, resolvedType }) => ({ name, type, resolvedType })), [
+      { name: 'userResolver', type: 'function', resolvedType: 'string' }
+    ]);
+    assert.deepEqual(graph.interceptors.map(({ name, type }) => ({ name, type })), [{ name: 'authInterceptor', type: 'function' }]);
+  });
+
+  it('leaves them out of the utility functions', () => {
+    assert.deepEqual(graph.utilityFunctions.map(fn => fn.name), ['formatRole']);
+  });
+
+  it('links them to the routes and provideHttpClient() calls that register them', () => {
+    const byName = Object.fromEntries([...graph.guards, ...graph.resolvers].map(entity => [entity.name, entity.usedBy]));
+
+    assert.deepEqual(byName, { authGuard: ['/admin'], adminMatch: ['/admin'], roleGuard: ['/admin'], userResolver: ['/admin'] });
+    assert.deepEqual(graph.interceptors[0].registeredIn?.map(filePath => filePath.slice(rootPath.length)), ['/src/app/app.config.ts']);
+  });
+
+  it('resolves calls of guard factories and never reports them as unused', () => {
+    const site = graph.callSites.find(call => call.member === 'roleGuard');
+
+    assert.equal(site?.resolved, true);
+    assert.deepEqual(findUnusedMembers(graph), ['formatRole']);
+  });
+});
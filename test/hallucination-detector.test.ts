@@ -0,0 +1,122 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector, HallucinationIssue } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/core/base-store.ts': `export abstract class BaseStore<T> {
+  load(): T[] { return []; }
+}
+`,
+  'src/app/core/project.service.ts': `import { Injectable } from '@angular/core';
+import { BaseStore } from './base-store';
+export interface Project { id: string; name: string }
+@Injectable({ providedIn: 'root' })
+export class ProjectService extends BaseStore<Project> {
+  get count(): number { return 0; }
+  find(id: string): Project;
+  find(id: string, deep: boolean): Project[];
+  find(id: string, deep?: boolean): Project | Project[] { return []; }
+  save(project: Project, ...tags: string[]): void {}
+}
+`,
+  'src/environments/environment.ts': `export const environment = { production: false, firebase: { projectId: 'demo' } };
+`
+};
+
+const component = (body: string) => `import { Component, inject } from '@angular/core';
+import { ProjectService } from './core/project.service';
+import { environment } from '../environments/environment';
+@Component({ selector: 'app-projects', standalone: true, imports: [], template: '' })
+export class ProjectsComponent {
+  private projects = inject(ProjectService);
+${body}
+}`;
+
+describe('HallucinationDetector', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (code: string, rules?: Record<string, boolean>): Promise<Array<[HallucinationIssue['severity'], string]>> => {
+    const result = await new HallucinationDetector(graph, rules).detectHallucinations(code, undefined, [], `${rootPath}/src/app/projects.component.ts`);
+    return result.issues.map(issue => [issue.severity, issue.description]);
+  };
+
+  it('accepts calls to declared, overloaded and inherited methods', async () => {
+    const issues = await detect(component(`  go() {
+    this.projects.find('1');
+    this.projects.find('1', true);
+    this.projects.save({ id: '1', name: 'a' }, 'x', 'y');
+    return this.projects.load().length + this.projects.count;
+  }`));
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports methods the service does not declare', async () => {
+    const issues = await detect(component(`  go() { this.projects.remove('1'); }`));
+
+    assert.deepEqual(issues, [['error', `Method 'remove' does not exist on ProjectService`]]);
+  });
+
+  it('leaves services injected from packages alone', async () => {
+    const code = `import { Component, inject } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { TranslateService } from '@ngx-translate/core';
+@Component({ selector: 'app-labels', standalone: true, imports: [], template: '' })
+export class LabelsComponent {
+  private translate = inject(TranslateService);
+  constructor(private messages: MessageService) {}
+  go() {
+    this.messages.add({ summary: 'Saved' });
+    return this.translate.instant('title');
+  }
+}`;
+
+    assert.deepEqual(await detect(code), [['warning', 'Use inject() pattern instead of constructor dependency injection']]);
+  });
+
+  it('warns when a getter is called like a method', async () => {
+    const issues = await detect(component(`  go() { return this.projects.count(); }`));
+
+    assert.deepEqual(issues, [['warning', `'count' is a getter on ProjectService, not a method`]]);
+  });
+
+  it('reports environment keys the environment files do not define', async () => {
+    const issues = await detect(component(`  go() { return [environment.firebase.projectId, environment.firebase.apiKey]; }`));
+
+    assert.deepEqual(issues, [['error', `'environment.firebase.apiKey' does not exist in the environment files`]]);
+  });
+
+  it('reports misspelled lifecycle hooks', async () => {
+    const issues = await detect(component(`  ngOnInt() {}`));
+
+    assert.equal(issues.length, 1);
+    assert.match(issues[0][1], /ngOnInt/);
+  });
+
+  it('skips the checks of disabled rules', async () => {
+    const issues = await detect(component(`  go() { this.projects.remove('1'); return environment.firebase.apiKey; }`), {
+      services: false,
+      environment: false
+    });
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports code it cannot parse', async () => {
+    const result = await new HallucinationDetector(graph).detectHallucinations('const broken = ;');
+
+    assert.equal(result.confidence, 0);
+    assert.deepEqual(result.issues.map(issue => issue.description), ['Failed to parse code - possible syntax error']);
+  });
+});
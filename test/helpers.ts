@@ -0,0 +1,38 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { Identified, KnowledgeGraph } from '../src/knowledge-graph.js';
+
+// Shared fixtures for the test suites: throwaway projects written to the system temp directory
+
+// Writes the files (relative path -> content) under a new temporary directory and returns its path
+export function createProject(files: Record<string, string>): string {
+  const rootPath = mkdtempSync(join(tmpdir(), 'antihall-test-'));
+  Object.entries(files).forEach(([relativePath, content]) => writeProjectFile(rootPath, relativePath, content));
+  return rootPath;
+}
+
+export function writeProjectFile(rootPath: string, relativePath: string, content: string): string {
+  const filePath = join(rootPath, relativePath);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+export function removeProject(rootPath: string): void {
+  rmSync(rootPath, { recursive: true, force: true });
+}
+
+// The graph with its timestamp cleared and every collection sorted by id. Incremental parses
+// append the entities of re-parsed files, so only the order differs from a full parse.
+export function normalizeGraph(graph: KnowledgeGraph): Record<string, unknown> {
+  return Object.fromEntries(Object.entries({ ...graph, generatedAt: '' }).map(([key, value]) => [
+    key,
+    Array.isArray(value) ? [...value].sort(compareIds) : value
+  ]));
+}
+
+function compareIds(a: Identified, b: Identified): number {
+  const [idA, idB] = [a.id ?? '', b.id ?? ''];
+  return idA < idB ? -1 : idA > idB ? 1 : 0;
+}
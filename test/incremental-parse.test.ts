@@ -0,0 +1,103 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { CodebaseParser, IncrementalParseResult } from '../src/codebase-parser.js';
+import { createProject, normalizeGraph, removeProject, writeProjectFile } from './helpers.js';
+
+const FILES = {
+  'src/app/core/project.service.ts': `import { Injectable } from '@angular/core';
+export interface Project { id: string; name: string }
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  list(): Project[] { return []; }
+  load() { return this.list(); }
+}
+`,
+  'src/app/core/index.ts': `export * from './project.service';
+`,
+  'src/app/projects/project-list.component.ts': `import { Component, inject } from '@angular/core';
+import { ProjectService } from '../core';
+@Component({
+  selector: 'app-project-list',
+  standalone: true,
+  imports: [],
+  template: '<ul><li *ngFor="let p of projects">{{ p.name }}</li></ul>'
+})
+export class ProjectListComponent {
+  private projectService = inject(ProjectService);
+  projects = this.projectService.list();
+}
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+import { ProjectListComponent } from './projects/project-list.component';
+export const routes: Routes = [{ path: 'projects', component: ProjectListComponent }];
+`
+};
+
+describe('incremental parsing', () => {
+  let rootPath: string;
+  let parser: CodebaseParser;
+  let first: IncrementalParseResult;
+
+  beforeEach(async () => {
+    if (rootPath) removeProject(rootPath);
+    rootPath = createProject(FILES);
+    parser = new CodebaseParser({ workers: 0, indexPackages: false });
+    first = await parser.parseCodebaseIncremental(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const fullParse = () => new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebaseIncremental(rootPath);
+
+  const changeFiles = () => {
+    writeProjectFile(rootPath, 'src/app/core/project.service.ts', FILES['src/app/core/project.service.ts']
+      .replace('  load()', '  archive(id: string): void {}\n  load()'));
+    writeProjectFile(rootPath, 'src/app/core/user.service.ts', `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class UserService { current() { return null; } }
+`);
+    writeProjectFile(rootPath, 'src/app/core/index.ts', `export * from './project.service';
+export * from './user.service';
+`);
+    rmSync(join(rootPath, 'src/app/app.routes.ts'));
+  };
+
+  it('reports nothing to do when no file changed', async () => {
+    const second = await parser.parseCodebaseIncremental(rootPath, first);
+
+    assert.equal(second.incremental, true);
+    assert.deepEqual(second.changes, { added: [], changed: [], deleted: [], unchanged: Object.keys(FILES).length });
+    assert.deepEqual(normalizeGraph(second.graph), normalizeGraph((await fullParse()).graph));
+  });
+
+  it('produces the same graph as a full parse after files are added, changed and deleted', async () => {
+    changeFiles();
+    const second = await parser.parseCodebaseIncremental(rootPath, first);
+
+    assert.deepEqual(second.changes.added, ['src/app/core/user.service.ts']);
+    assert.deepEqual(second.changes.changed.sort(), ['src/app/core/index.ts', 'src/app/core/project.service.ts']);
+    assert.deepEqual(second.changes.deleted, ['src/app/app.routes.ts']);
+    assert.equal(second.graph.routes.length, 0);
+    assert.deepEqual(normalizeGraph(second.graph), normalizeGraph((await fullParse()).graph));
+  });
+
+  it('produces the same graph as a full parse when the changed files are given', async () => {
+    changeFiles();
+    const second = await parser.updateFiles(first, [
+      'src/app/core/project.service.ts',
+      'src/app/core/user.service.ts',
+      'src/app/core/index.ts',
+      'src/app/app.routes.ts'
+    ].map(file => join(rootPath, file)));
+
+    assert.deepEqual(normalizeGraph(second.graph), normalizeGraph((await fullParse()).graph));
+  });
+
+  it('produces the same graph on worker threads as in process', async () => {
+    const pooled = await new CodebaseParser({ workers: 2, indexPackages: false }).parseCodebaseIncremental(rootPath);
+
+    assert.deepEqual(normalizeGraph(pooled.graph), normalizeGraph(first.graph));
+  });
+});
@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser, IncrementalParseResult } from '../src/codebase-parser.js';
+import { KnowledgeGraph, MethodInfo } from '../src/knowledge-graph.js';
+import { createProject, removeProject, writeProjectFile } from './helpers.js';
+
+const FILES = {
+  'src/app/core/entity-store.ts': `export abstract class EntityStore<T> {
+  protected items: T[] = [];
+  get(id: string): T | undefined { return undefined; }
+  save(item: T): T { return item; }
+  private reset(): void {}
+}
+`,
+  'src/app/core/cached-store.ts': `import { EntityStore } from './entity-store';
+export abstract class CachedStore<T> extends EntityStore<T> {
+  clearCache(): void {}
+  save(item: T): T { return item; }
+}
+`,
+  'src/app/core/index.ts': `export * from './cached-store';
+`,
+  'src/app/core/default-base.ts': `export default abstract class DefaultBase { describe(): string { return ''; } }
+`,
+  'src/app/projects/project.service.ts': `import { Injectable } from '@angular/core';
+import { CachedStore } from '../core';
+export interface Project { id: string }
+@Injectable({ providedIn: 'root' })
+export class ProjectService extends CachedStore<Project> {
+  archive(id: string): void {}
+}
+`,
+  'src/app/projects/described.service.ts': `import { Injectable } from '@angular/core';
+import Base from '../core/default-base';
+@Injectable({ providedIn: 'root' })
+export class DescribedService extends Base {}
+`,
+  // Same name as the core base class, but never imported by the services above
+  'src/app/legacy/cached-store.ts': `export abstract class CachedStore { legacyOnly(): void {} }
+`,
+  'src/app/legacy/package.service.ts': `import { Injectable } from '@angular/core';
+import { Base } from '@acme/data';
+@Injectable({ providedIn: 'root' })
+export class PackageService extends Base {}
+`
+};
+
+describe('inherited members', () => {
+  let rootPath: string;
+  let parser: CodebaseParser;
+  let parsed: IncrementalParseResult;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    parser = new CodebaseParser({ workers: 0, indexPackages: false });
+    parsed = await parser.parseCodebaseIncremental(rootPath);
+    graph = parsed.graph;
+  });
+
+  after(() => removeProject(rootPath));
+
+  const findService = (name: string) => graph.services.find(service => service.name === name)!;
+  const describeMethod = (method: MethodInfo) =>
+    `${method.name}(${method.parameters.map(parameter => parameter.type).join(', ')}): ${method.returnType}` +
+    (method.inheritedFrom ? ` from ${method.inheritedFrom}` : '');
+
+  it('merges members of the superclass chain with generics substituted, nearest base first', () => {
+    assert.deepEqual(findService('ProjectService').methods.map(describeMethod), [
+      'archive(string): void',
+      'clearCache(): void from CachedStore',
+      'save(Project): Project from CachedStore',
+      'get(string): Project | undefined from EntityStore'
+    ]);
+    assert.deepEqual(findService('ProjectService').properties.map(property => `${property.name}: ${property.type}`), [
+      'items: Project[]'
+    ]);
+  });
+
+  it('leaves out private members of base classes', () => {
+    assert.ok(!findService('ProjectService').methods.some(method => method.name === 'reset'));
+  });
+
+  it('finds default exported base classes', () => {
+    assert.deepEqual(findService('DescribedService').methods.map(describeMethod), ['describe(): string from DefaultBase']);
+  });
+
+  it('ignores classes of the same name that the extends clause does not import', () => {
+    assert.ok(!findService('ProjectService').methods.some(method => method.name === 'legacyOnly'));
+    assert.deepEqual(findService('PackageService').methods, []);
+  });
+
+  it('merges inherited members only once when the graph is updated', async () => {
+    writeProjectFile(rootPath, 'src/app/projects/project.service.ts',
+      FILES['src/app/projects/project.service.ts'].replace('  archive', '  restore(id: string): void {}\n  archive'));
+    const { graph: updated } = await parser.parseCodebaseIncremental(rootPath, parsed);
+
+    const names = updated.services.find(service => service.name === 'ProjectService')!.methods.map(method => method.name);
+    assert.deepEqual(names, ['restore', 'archive', 'clearCache', 'save', 'get']);
+    // Unchanged subclasses are flattened again from the members they declare themselves
+    assert.deepEqual(updated.services.find(service => service.name === 'DescribedService')!.methods.map(method => method.name), ['describe']);
+  });
+});
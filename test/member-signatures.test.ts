@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph, MethodInfo, acceptsArgumentCount, formatMethodSignature } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/project.service.ts': `import { Injectable } from '@angular/core';
+export interface Project { id: string; tags: string[] }
+@Injectable({ providedIn: 'root' })
+export class ProjectService {
+  find(id: string): Project;
+  find(ids: string[], deep?: boolean): Project[];
+  find(idOrIds: string | string[], deep = false): Project | Project[] { return []; }
+  map<T extends Project = Project, R = T>(project: T, fn: (value: T) => R): R { return fn(project); }
+  tag(project: Project, ...tags: string[]): void {}
+  update({ id, tags: [first, ...others] }: Project, { force = false } = {}): void {}
+  get count(): number { return 0; }
+  set count(value: number) {}
+  save = async (project: Project): Promise<void> => {};
+  remove = function (id: string): boolean { return true; };
+  when<F extends boolean>(flag: F): F extends true ? string : number { return null as any; }
+  pick(keys: Array<keyof Project>): { [K in keyof Project]?: Project[K] } { return {}; }
+}
+`
+};
+
+describe('member signatures', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+  let methods: Map<string, MethodInfo[]>;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+    methods = new Map();
+    graph.services[0].methods.forEach(method => methods.set(method.name, [...(methods.get(method.name) || []), method]));
+  });
+
+  after(() => removeProject(rootPath));
+
+  const method = (name: string) => methods.get(name)![0];
+
+  it('records generics, rest parameters and type syntax as written', () => {
+    assert.deepEqual(['map', 'tag', 'when', 'pick'].map(name => formatMethodSignature(name, method(name))), [
+      'map<T extends Project = Project, R = T>(project: T, fn: (value: T) => R): R',
+      'tag(project: Project, ...tags: string[]): void',
+      'when<F extends boolean>(flag: F): F extends true ? string : number',
+      'pick(keys: Array<keyof Project>): { [K in keyof Project]?: Project[K] }'
+    ]);
+  });
+
+  it('records every overload signature callers see', () => {
+    const find = method('find');
+
+    assert.deepEqual(find.overloads?.map(signature => formatMethodSignature('find', signature)), [
+      'find(id: string): Project',
+      'find(ids: string[], deep?: boolean): Project[]'
+    ]);
+    assert.equal(acceptsArgumentCount(find, 2), true);
+    assert.equal(acceptsArgumentCount(find, 3), false);
+  });
+
+  it('records the names destructured parameters bind', () => {
+    assert.deepEqual(method('update').parameters.map(({ name, destructured, optional, defaultValue }) => ({ name, destructured, optional, defaultValue })), [
+      { name: '{ id, tags: [first, ...others] }', destructured: ['id', 'first', 'others'], optional: false, defaultValue: undefined },
+      { name: '{ force }', destructured: ['force'], optional: true, defaultValue: '{}' }
+    ]);
+    assert.equal(method('find').parameters[1].defaultValue, 'false');
+  });
+
+  it('records getters and setters as accessors and function-valued fields as methods', () => {
+    assert.deepEqual(methods.get('count')!.map(member => member.accessor), ['get', 'set']);
+    assert.deepEqual(['save', 'remove'].map(name => ({ name, isField: method(name).isField, isAsync: method(name).isAsync, signature: formatMethodSignature(name, method(name)) })), [
+      { name: 'save', isField: true, isAsync: true, signature: 'save(project: Project): Promise<void>' },
+      { name: 'remove', isField: true, isAsync: false, signature: 'remove(id: string): boolean' }
+    ]);
+  });
+
+  it('validates calls of function-valued fields like methods', async () => {
+    const code = `import { Component, inject } from '@angular/core';
+import { ProjectService } from './project.service';
+@Component({ selector: 'app-projects', standalone: true, imports: [], template: '' })
+export class ProjectsComponent {
+  private projects = inject(ProjectService);
+  go() {
+    this.projects.save({ id: '1', tags: [] });
+    this.projects.remove('1');
+    this.projects.archive('1');
+  }
+}`;
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, [], `${rootPath}/src/app/projects.component.ts`);
+
+    assert.deepEqual(result.issues.map(issue => issue.description), [`Method 'archive' does not exist on ProjectService`]);
+  });
+});
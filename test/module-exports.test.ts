@@ -0,0 +1,81 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'tsconfig.json': JSON.stringify({
+    compilerOptions: {
+      baseUrl: '.',
+      paths: { '@shared': ['src/app/shared/index.ts'], '@shared/*': ['src/app/shared/*'] }
+    }
+  }),
+  'src/app/shared/index.ts': `export * from './ui';
+export { formatDate as format } from './dates';
+export { default as Logger } from './logger';
+export * from './config';
+`,
+  'src/app/shared/ui/index.ts': `export * from './button.component';
+`,
+  'src/app/shared/ui/button.component.ts': `export class ButtonComponent {}
+`,
+  'src/app/shared/dates.ts': `export function formatDate(date: Date) { return date.toISOString(); }
+export function parseDate(value: string) { return new Date(value); }
+`,
+  'src/app/shared/logger.ts': `export default class LoggerImpl { log() {} }
+`,
+  'src/app/shared/config.ts': `const config = { apiUrl: '/api', debug: false, retries: 3 };
+export const { apiUrl, debug: isDebug, ...rest } = config;
+`
+};
+
+describe('barrel exports', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const findModule = (id: string) => graph.modules.find(module => module.id === id);
+
+  it('records the names bound by destructured export declarations', () => {
+    assert.deepEqual(findModule('src/app/shared/config.ts')?.localExports, ['apiUrl', 'isDebug', 'rest']);
+  });
+
+  it('follows export * and renamed re-exports through nested barrels', () => {
+    assert.deepEqual(findModule('src/app/shared/ui/index.ts')?.exports, ['ButtonComponent']);
+    assert.deepEqual(findModule('src/app/shared/index.ts')?.exports,
+      ['ButtonComponent', 'format', 'Logger', 'apiUrl', 'isDebug', 'rest']);
+  });
+
+  it('lists the tsconfig path aliases a barrel is imported through', () => {
+    assert.deepEqual(findModule('src/app/shared/index.ts')?.aliases.sort(), ['@shared', '@shared/index']);
+  });
+
+  it('accepts imports of names a barrel re-exports', async () => {
+    const code = `import { ButtonComponent, format, Logger, apiUrl, isDebug } from '@shared';
+import { formatDate } from './shared/dates';
+export const used = [ButtonComponent, format, Logger, apiUrl, isDebug, formatDate];`;
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, [], `${rootPath}/src/app/used.ts`);
+
+    assert.deepEqual(result.issues, []);
+  });
+
+  it('reports imports of names a barrel does not export', async () => {
+    const code = `import { format, parseDate } from '@shared';
+import { formatDate, formatTime } from './shared/dates';
+export const used = [format, parseDate, formatDate, formatTime];`;
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, [], `${rootPath}/src/app/used.ts`);
+
+    assert.deepEqual(result.issues.map(issue => [issue.severity, issue.description]), [
+      ['error', `'parseDate' is not exported from '@shared'`],
+      ['error', `'formatTime' is not exported from './shared/dates'`]
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'package.json': JSON.stringify({
+    dependencies: { shapes: '^1.0.0', legacy: '^3.0.0' },
+    devDependencies: { testkit: '^2.0.0', '@types/legacy': '^3.0.0' }
+  }),
+  'node_modules/shapes/package.json': JSON.stringify({
+    name: 'shapes',
+    version: '1.2.0',
+    exports: {
+      '.': { types: './index.d.ts', default: './index.js' },
+      './extra': { types: './extra.d.ts', default: './extra.js' },
+      './locales/*': './locales/*.js',
+      './internal/*': null,
+      './package.json': './package.json'
+    }
+  }),
+  'node_modules/shapes/index.d.ts': 'export declare class Circle { radius: number; }\nexport type Shape = Circle;\n',
+  'node_modules/shapes/extra.d.ts': 'export declare function area(shape: unknown): number;\n',
+  'node_modules/testkit/package.json': JSON.stringify({ name: 'testkit', version: '2.0.1', types: 'main.d.ts' }),
+  'node_modules/testkit/main.d.ts': 'export declare function render(): void;\n',
+  'node_modules/legacy/package.json': JSON.stringify({ name: 'legacy', version: '3.1.0' }),
+  'node_modules/@types/legacy/package.json': JSON.stringify({ name: '@types/legacy', version: '3.0.4' }),
+  'node_modules/@types/legacy/index.d.ts': 'export declare const VERSION: string;\n',
+  'src/app/app.ts': `export const app = 1;\n`
+};
+
+describe('package export tables', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0 }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (code: string): Promise<string[]> => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, [], `${rootPath}/src/app/app.ts`);
+    return result.issues.filter(issue => issue.type === 'import').map(issue => issue.description);
+  };
+
+  it('indexes the dependencies and dev dependencies, reading @types for untyped packages', () => {
+    const packages = Object.fromEntries(graph.packages.map(pkg => [pkg.name, pkg]));
+
+    assert.deepEqual(Object.keys(packages).sort(), ['legacy', 'shapes', 'testkit']);
+    assert.deepEqual(packages.shapes.entryPoints, [
+      { specifier: 'shapes', exports: ['Circle', 'Shape'] },
+      { specifier: 'shapes/extra', exports: ['area'] }
+    ]);
+    assert.equal(packages.shapes.version, '1.2.0');
+    assert.equal(packages.shapes.restrictsSubpaths, true);
+    assert.deepEqual(packages.testkit.entryPoints, [{ specifier: 'testkit', exports: ['render'] }]);
+    assert.deepEqual(packages.legacy.entryPoints, [{ specifier: 'legacy', exports: ['VERSION'] }]);
+  });
+
+  it('records wildcard and file subpaths of the exports map, but not hidden ones', () => {
+    const shapes = graph.packages.find(pkg => pkg.name === 'shapes');
+
+    assert.deepEqual(shapes?.unindexedSubpaths, ['shapes/locales/*', 'shapes/package.json']);
+  });
+
+  it('checks imported names against the entry point they are imported from', async () => {
+    assert.deepEqual(await detect(`import { Circle, Shape } from 'shapes';
+import { area } from 'shapes/extra';
+import { render } from 'testkit';`), []);
+
+    assert.deepEqual(await detect(`import { Square } from 'shapes';
+import { Circle } from 'shapes/extra';`), [
+      `'Square' is not exported from shapes (shapes@1.2.0)`,
+      `'Circle' is not exported from shapes/extra (shapes@1.2.0)`
+    ]);
+  });
+
+  it('accepts wildcard subpaths and deep imports of packages without an exports map', async () => {
+    assert.deepEqual(await detect(`import { en } from 'shapes/locales/en';
+import { de } from 'shapes/locales/de/formal';
+import { helpers } from 'testkit/dist/helpers';`), []);
+  });
+
+  it('rejects subpaths the exports map does not export', async () => {
+    assert.deepEqual(await detect(`import { draw } from 'shapes/draw';
+import { cache } from 'shapes/internal/cache';`), [
+      `'shapes/draw' is not an entry point of shapes@1.2.0`,
+      `'shapes/internal/cache' is not an entry point of shapes@1.2.0`
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, normalizeGraph, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/core/base-store.ts': `export abstract class BaseStore<T> {
+  items: T[] = [];
+  reset() { this.items = []; }
+}
+`,
+  'src/app/core/project.service.ts': `import { Injectable } from '@angular/core';
+import { BaseStore } from './base-store';
+export interface Project { id: string }
+@Injectable({ providedIn: 'root' })
+export class ProjectService extends BaseStore<Project> {
+  load(): Project[] { this.reset(); return this.items; }
+}
+`,
+  'src/app/projects/project-list.component.ts': `import { Component, inject } from '@angular/core';
+import { ProjectService } from '../core/project.service';
+import { formatTitle } from '../shared/format';
+@Component({ selector: 'app-project-list', standalone: true, imports: [], template: '<h1>{{ title }}</h1>' })
+export class ProjectListComponent {
+  private projects = inject(ProjectService);
+  title = formatTitle(String(this.projects.load().length));
+}
+`,
+  'src/app/shared/format.ts': `export const formatTitle = (title: string) => title.toUpperCase();
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+import { ProjectListComponent } from './projects/project-list.component';
+export const routes: Routes = [{ path: 'projects', component: ProjectListComponent }];
+`,
+  'src/app/broken.ts': `export const broken = ;
+`,
+  'src/assets/i18n/en.json': JSON.stringify({ title: 'Projects' }),
+  'src/styles.scss': `:root { --primary-color: blue; }
+`
+};
+
+describe('parallel parsing', () => {
+  let rootPath: string;
+  let serial: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    serial = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('builds the same graph on worker threads as on the main thread', async () => {
+    const parallel = await new CodebaseParser({ workers: 2, indexPackages: false }).parseCodebase(rootPath);
+
+    assert.ok(serial.callSites.length > 0 && serial.diagnostics.length > 0);
+    assert.deepEqual(normalizeGraph(parallel), normalizeGraph(serial));
+  });
+
+  it('runs only the extractors the project config leaves on', async () => {
+    const config = { include: ['**/*'], exclude: [], gitignore: false, extensions: [], extractors: { callSites: false }, rules: {} };
+    const parallel = await new CodebaseParser({ workers: 2, indexPackages: false, config }).parseCodebase(rootPath);
+
+    assert.deepEqual(parallel.callSites, []);
+    assert.deepEqual(parallel.services.map(service => service.name), ['ProjectService']);
+  });
+});
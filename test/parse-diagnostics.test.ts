@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { KnowledgeGraphWriter } from '../src/knowledge-graph-writer.js';
+import { createParseDiagnosticsReport, formatParseDiagnostics } from '../src/parse-diagnostics.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/broken.ts': `export class Broken {
+  method( {
+}
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+import { adminRoutes } from './admin.routes';
+export const routes: Routes = [
+  { path: 'home', redirectTo: () => 'start' },
+  ...adminRoutes
+];
+`,
+  'src/app/anonymous.ts': `import { Injectable } from '@angular/core';
+export default @Injectable({ providedIn: 'root' }) class {}
+`,
+  'src/app/project.service.ts': `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class ProjectService {}
+`
+};
+
+describe('parse diagnostics', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    const parser = new CodebaseParser({ workers: 0, indexPackages: false });
+    // An extractor that fails on the service file
+    parser.registerExtractor({
+      name: 'failing',
+      extract({ filePath }) {
+        if (filePath.endsWith('project.service.ts')) throw new Error('boom');
+      }
+    });
+    graph = await parser.parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const summarize = (g: KnowledgeGraph) => g.diagnostics
+    .map(({ kind, extractor, line, filePath }) => `${filePath.slice(rootPath.length)}:${line ?? '-'} ${kind}${extractor ? ` (${extractor})` : ''}`)
+    .sort();
+
+  it('records failed files, unsupported constructs, skipped entities and extractor errors', () => {
+    assert.deepEqual(summarize(graph), [
+      '/src/app/anonymous.ts:2 skipped (services)',
+      '/src/app/app.routes.ts:4 unsupported (routes)',
+      '/src/app/app.routes.ts:5 unsupported (routes)',
+      '/src/app/broken.ts:4 parse-error',
+      '/src/app/project.service.ts:- extractor-error (failing)'
+    ]);
+  });
+
+  it('keeps what the other extractors found in a file an extractor failed on', () => {
+    assert.deepEqual(graph.services.map(service => service.name), ['ProjectService']);
+  });
+
+  it('reports counts by kind and the files missing from the graph', () => {
+    const report = createParseDiagnosticsReport(graph);
+
+    assert.equal(report.total, 5);
+    assert.deepEqual(report.byKind, { 'parse-error': 1, skipped: 1, unsupported: 2, 'extractor-error': 1 });
+    assert.deepEqual(report.failedFiles.map(file => file.filePath.slice(rootPath.length)), ['/src/app/broken.ts']);
+
+    const text = formatParseDiagnostics(report);
+    assert.match(text, /\*\*Files missing from the graph:\*\*\n- src\/app\/broken\.ts: '\)' expected\./);
+    assert.match(text, /- src\/app\/app\.routes\.ts:5 \[unsupported, routes\]: Route entry of type SpreadElement cannot be resolved statically/);
+  });
+
+  it('writes diagnostics.json and a summary of it next to summary.json', () => {
+    const outputDir = join(rootPath, 'knowledge-graphs');
+    const writer = new KnowledgeGraphWriter(outputDir);
+    writer.write(graph);
+
+    const summary = JSON.parse(readFileSync(join(outputDir, 'summary.json'), 'utf-8'));
+    assert.deepEqual(summary.diagnostics.failedFiles.map((filePath: string) => filePath.slice(rootPath.length)), ['/src/app/broken.ts']);
+    assert.deepEqual(writer.loadDiagnostics()?.diagnostics, JSON.parse(JSON.stringify(graph.diagnostics)));
+  });
+});
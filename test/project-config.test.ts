@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { loadProjectConfig } from '../src/project-config.js';
+import { createProject, removeProject, writeProjectFile } from './helpers.js';
+
+const service = (name: string) => `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class ${name} {}
+`;
+
+const FILES = {
+  '.antihallrc.yaml': `root: app
+projectName: shop
+include: ['src/**']
+exclude: ['**/legacy/**']
+extensions: [mts]
+extractors:
+  environments: false
+rules:
+  fibreflow: false
+`,
+  'app/.gitignore': 'generated/\n*.local.ts\n',
+  'app/src/app/cart.service.ts': service('CartService'),
+  'app/src/app/cart.service.spec.ts': service('CartServiceStub'),
+  'app/src/app/pricing.service.mts': service('PricingService'),
+  'app/src/app/legacy/old.service.ts': service('OldService'),
+  'app/src/app/generated/api.service.ts': service('ApiService'),
+  'app/src/app/debug.local.ts': service('DebugService'),
+  'app/tools/build.service.ts': service('BuildService'),
+  'app/src/environments/environment.ts': `export const environment = { production: false };
+`
+};
+
+describe('project config', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(join(rootPath, 'app'));
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('reads the nearest config file and fills in defaults', () => {
+    const config = loadProjectConfig(join(rootPath, 'app/src/app'));
+
+    assert.deepEqual({ ...config, configPath: config.configPath?.slice(rootPath.length), root: config.root?.slice(rootPath.length) }, {
+      configPath: '/.antihallrc.yaml',
+      root: '/app',
+      projectName: 'shop',
+      include: ['src/**'],
+      exclude: ['**/legacy/**'],
+      gitignore: true,
+      extensions: ['.mts'],
+      extractors: { environments: false },
+      rules: { fibreflow: false }
+    });
+  });
+
+  it('rejects settings of the wrong type', () => {
+    const otherRoot = createProject({ '.antihallrc': JSON.stringify({ exclude: 'dist' }) });
+    try {
+      assert.throws(() => loadProjectConfig(otherRoot), /'exclude' must be a list of strings/);
+    } finally {
+      removeProject(otherRoot);
+    }
+  });
+
+  it('parses the files the globs, .gitignore and extensions select', () => {
+    assert.deepEqual(graph.services.map(s => s.name).sort(), ['CartService', 'CartServiceStub', 'PricingService']);
+  });
+
+  it('skips the extractors the config switches off', () => {
+    assert.deepEqual(graph.environments, []);
+  });
+
+  it('picks up config edits on the next parse', async () => {
+    writeProjectFile(rootPath, '.antihallrc.yaml', `include: ['src/**']
+gitignore: false
+`);
+    const reparsed = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(join(rootPath, 'app'));
+
+    assert.deepEqual(reparsed.services.map(s => s.name).sort(), ['ApiService', 'CartService', 'DebugService', 'OldService']);
+    assert.equal(reparsed.environments.length, 1);
+  });
+});
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { KnowledgeGraph, RouteConfig } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/app.config.ts': `import { ApplicationConfig } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { routes } from './app.routes';
+export const appConfig: ApplicationConfig = { providers: [provideRouter(routes)] };
+`,
+  'src/app/app.routes.ts': `import { Routes } from '@angular/router';
+import { DashboardComponent } from './dashboard.component';
+import { authGuard } from './auth.guard';
+export const routes: Routes = [
+  { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
+  { path: 'dashboard', component: DashboardComponent, title: 'Dashboard' },
+  { path: 'admin', canActivate: [authGuard], loadChildren: () => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES) },
+  { path: 'reports', loadChildren: () => import('./reports/reports.module').then(m => m.ReportsModule) },
+  { path: 'settings', loadComponent: () => import('./settings.component') }
+];
+`,
+  'src/app/dashboard.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-dashboard', template: '' })
+export class DashboardComponent {}
+`,
+  'src/app/settings.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-settings', template: '' })
+export default class SettingsComponent {}
+`,
+  'src/app/auth.guard.ts': `import { CanActivateFn } from '@angular/router';
+export const authGuard: CanActivateFn = () => true;
+`,
+  'src/app/admin/admin.routes.ts': `import { Routes } from '@angular/router';
+import { UserEditComponent } from './user-edit.component';
+import { userResolver } from './user.resolver';
+export const ADMIN_ROUTES: Routes = [
+  { path: 'users', children: [
+    { path: ':userId/edit', component: UserEditComponent, resolve: { user: userResolver } },
+    { path: 'old/:userId', redirectTo: ':userId/edit' }
+  ] }
+];
+`,
+  'src/app/admin/user-edit.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-user-edit', template: '' })
+export class UserEditComponent {}
+`,
+  'src/app/admin/user.resolver.ts': `import { ResolveFn } from '@angular/router';
+export const userResolver: ResolveFn<string> = () => 'user';
+`,
+  'src/app/reports/reports.module.ts': `import { NgModule } from '@angular/core';
+import { RouterModule, Routes } from '@angular/router';
+import { ReportListComponent } from './report-list.component';
+const routes: Routes = [{ path: ':year', component: ReportListComponent }];
+@NgModule({ imports: [RouterModule.forChild(routes)] })
+export class ReportsModule {}
+`,
+  'src/app/reports/report-list.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-report-list', template: '' })
+export class ReportListComponent {}
+`
+};
+
+describe('route tree', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  // Every route in the tree, children included, by absolute URL
+  const routesByUrl = (): Map<string, RouteConfig> => {
+    const routes = new Map<string, RouteConfig>();
+    const visit = (route: RouteConfig) => {
+      routes.set(route.fullPath!, route);
+      route.children?.forEach(visit);
+    };
+    graph.routes.forEach(visit);
+    return routes;
+  };
+
+  it('computes absolute URLs through loadChildren route files and lazy NgModules', () => {
+    assert.deepEqual([...routesByUrl().keys()].sort(), [
+      '/',
+      '/admin',
+      '/admin/users',
+      '/admin/users/:userId/edit',
+      '/admin/users/old/:userId',
+      '/dashboard',
+      '/reports',
+      '/reports/:year',
+      '/settings'
+    ]);
+  });
+
+  it('records route params and the absolute targets of redirects', () => {
+    const routes = routesByUrl();
+
+    assert.equal(routes.get('/')?.redirectsTo, '/dashboard');
+    assert.deepEqual(routes.get('/admin/users/:userId/edit')?.params, ['userId']);
+    assert.equal(routes.get('/admin/users/old/:userId')?.redirectsTo, '/admin/users/:userId/edit');
+    assert.deepEqual(routes.get('/reports/:year')?.params, ['year']);
+    assert.equal(routes.get('/reports/:year')?.registeredWith, 'forChild');
+  });
+
+  it('resolves lazy targets and attaches components, guards and resolvers', () => {
+    const routes = routesByUrl();
+
+    assert.equal(routes.get('/dashboard')?.component, 'DashboardComponent');
+    assert.deepEqual(routes.get('/admin')?.canActivate, ['authGuard']);
+    assert.equal(routes.get('/admin')?.loadChildren?.exportName, 'ADMIN_ROUTES');
+    assert.ok(routes.get('/admin')?.loadChildren?.resolvedPath?.endsWith('src/app/admin/admin.routes.ts'));
+    assert.ok(routes.get('/settings')?.loadComponent?.resolvedPath?.endsWith('src/app/settings.component.ts'));
+    assert.deepEqual(routes.get('/admin/users/:userId/edit')?.resolve, { user: 'userResolver' });
+
+    assert.deepEqual(graph.guards.find(guard => guard.name === 'authGuard')?.usedBy, ['/admin']);
+    assert.deepEqual(graph.resolvers.find(resolver => resolver.name === 'userResolver')?.usedBy, ['/admin/users/:userId/edit']);
+  });
+
+  it('follows the routes handed to provideRouter() in another file', () => {
+    assert.equal(graph.routerRegistrations.length, 1);
+    assert.equal(graph.routerRegistrations[0].kind, 'provideRouter');
+    assert.ok(graph.routerRegistrations[0].resolvedPath?.endsWith('src/app/app.routes.ts'));
+  });
+});
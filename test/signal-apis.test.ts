@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { AngularComponent, KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/task-list.component.ts': `import { Component, ElementRef, EventEmitter, Input, Output, ViewChild, contentChildren, input, model, output, viewChild } from '@angular/core';
+import { outputFromObservable } from '@angular/core/rxjs-interop';
+import { Subject } from 'rxjs';
+import { TaskComponent } from './task.component';
+@Component({ selector: 'app-task-list', template: '<input #filter>' })
+export class TaskListComponent {
+  projectId = input.required<string>();
+  pageSize = input(20, { alias: 'size' });
+  selected = model<string | null>(null);
+  removed = output<string>();
+  refreshed = outputFromObservable(new Subject<void>(), { alias: 'reload' });
+  filter = viewChild.required<ElementRef>('filter');
+  tasks = contentChildren(TaskComponent);
+  @Input() title = '';
+  @Input({ required: true, alias: 'owner' }) ownerId!: string;
+  @Output() closed = new EventEmitter<boolean>();
+  @ViewChild(TaskComponent) firstTask?: TaskComponent;
+}
+`
+};
+
+describe('signal component APIs', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const getComponent = (): AngularComponent => graph.components.find(component => component.name === 'TaskListComponent')!;
+  // Details by name, without the fields left undefined
+  const byName = <T extends { name: string }>(details: T[] = []) =>
+    JSON.parse(JSON.stringify(Object.fromEntries(details.map(({ name, ...rest }) => [name, rest]))));
+
+  it('lists signal and decorator inputs and outputs, with the change output of model()', () => {
+    const component = getComponent();
+
+    assert.deepEqual(component.inputs, ['projectId', 'pageSize', 'selected', 'title', 'ownerId']);
+    assert.deepEqual(component.outputs, ['selectedChange', 'removed', 'refreshed', 'closed']);
+  });
+
+  it('records the generic types, required flags and aliases of inputs', () => {
+    const inputs = byName(getComponent().inputDetails);
+
+    assert.deepEqual(inputs.projectId, { type: 'string', required: true, signal: true, model: false });
+    assert.deepEqual(inputs.pageSize, { alias: 'size', required: false, signal: true, model: false });
+    assert.deepEqual(inputs.selected, { type: 'string | null', required: false, signal: true, model: true });
+    assert.deepEqual(inputs.ownerId, { alias: 'owner', type: 'string', required: true, signal: false, model: false });
+  });
+
+  it('records the types and aliases of outputs', () => {
+    const outputs = byName(getComponent().outputDetails);
+
+    assert.deepEqual(outputs.selectedChange, { type: 'string | null', signal: true });
+    assert.deepEqual(outputs.removed, { type: 'string', signal: true });
+    assert.deepEqual(outputs.refreshed, { alias: 'reload', signal: true });
+    assert.deepEqual(outputs.closed, { type: 'boolean', signal: false });
+  });
+
+  it('records signal and decorator queries with their locators', () => {
+    assert.deepEqual(getComponent().queries, [
+      { name: 'filter', kind: 'viewChild', locator: 'filter', type: 'ElementRef', required: true, signal: true },
+      { name: 'tasks', kind: 'contentChildren', locator: 'TaskComponent', type: 'TaskComponent', required: false, signal: true },
+      { name: 'firstTask', kind: 'viewChild', locator: 'TaskComponent', type: 'TaskComponent', required: false, signal: false }
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/state/projects.actions.ts': `import { createAction, createActionGroup, emptyProps, props } from '@ngrx/store';
+export const ProjectsActions = createActionGroup({
+  source: 'Projects',
+  events: {
+    'Load Projects': emptyProps(),
+    'Load Projects Success': props<{ ids: string[] }>()
+  }
+});
+export const resetProjects = createAction('[Projects] Reset');
+`,
+  'src/app/state/projects.feature.ts': `import { createFeature, createReducer, createSelector } from '@ngrx/store';
+const initialState = { ids: [], loading: false };
+export const projectsFeature = createFeature({
+  name: 'projects',
+  reducer: createReducer(initialState),
+  extraSelectors: ({ selectIds }) => ({ selectCount: createSelector(selectIds, ids => ids.length) })
+});
+export const selectFirstId = createSelector(projectsFeature.selectIds, ids => ids[0]);
+`,
+  'src/app/state/projects.effects.ts': `import { Injectable, inject } from '@angular/core';
+import { Actions, createEffect, ofType } from '@ngrx/effects';
+import { tap } from 'rxjs';
+import { ProjectsActions, resetProjects } from './projects.actions';
+@Injectable()
+export class ProjectsEffects {
+  private actions$ = inject(Actions);
+  load$ = createEffect(() => this.actions$.pipe(ofType(ProjectsActions.loadProjects)));
+}
+export const logReset = createEffect((actions$ = inject(Actions)) => actions$.pipe(ofType(resetProjects), tap(() => {})),
+  { functional: true, dispatch: false });
+`,
+  'src/app/state/todos.store.ts': `import { computed } from '@angular/core';
+import { signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+export const TodosStore = signalStore(
+  { providedIn: 'root' },
+  withState({ todos: [] as string[], filter: 'all' }),
+  withComputed(({ todos }) => ({ count: computed(() => todos().length) })),
+  withMethods(store => ({ add(todo: string) {}, clear() {} }))
+);
+`
+};
+
+const component = (body: string) => `import { Component, inject } from '@angular/core';
+import { Store } from '@ngrx/store';
+import { ProjectsActions } from './state/projects.actions';
+import { projectsFeature } from './state/projects.feature';
+import { TodosStore } from './state/todos.store';
+@Component({ selector: 'app-projects', standalone: true, imports: [], template: '' })
+export class ProjectsComponent {
+  private store = inject(Store);
+  private todos = inject(TodosStore);
+${body}
+}`;
+
+describe('NgRx and signal stores', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (body: string): Promise<string[]> => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(component(body), undefined, [], `${rootPath}/src/app/projects.component.ts`);
+    return result.issues.map(issue => issue.description);
+  };
+
+  it('records actions of action groups and createAction()', () => {
+    assert.deepEqual(graph.ngrxActions.map(({ name, type, group, props }) => ({ name, type, group, props })), [
+      { name: 'ProjectsActions.loadProjects', type: '[Projects] Load Projects', group: 'ProjectsActions', props: undefined },
+      { name: 'ProjectsActions.loadProjectsSuccess', type: '[Projects] Load Projects Success', group: 'ProjectsActions', props: '{ ids: string[] }' },
+      { name: 'resetProjects', type: '[Projects] Reset', group: undefined, props: undefined }
+    ]);
+  });
+
+  it('records the selectors createFeature() generates and createSelector() declares', () => {
+    assert.deepEqual(graph.ngrxSelectors.map(({ name, inputs }) => inputs ? `${name}(${inputs.join(', ')})` : name), [
+      'selectProjectsState',
+      'selectIds',
+      'selectLoading',
+      'selectCount',
+      'selectFirstId(projectsFeature.selectIds)'
+    ]);
+  });
+
+  it('records class and functional effects with the actions they handle', () => {
+    assert.deepEqual(graph.ngrxEffects.map(({ name, className, functional, ofType, dispatch }) => ({ name, className, functional, ofType, dispatch })), [
+      { name: 'load$', className: 'ProjectsEffects', functional: false, ofType: ['ProjectsActions.loadProjects'], dispatch: true },
+      { name: 'logReset', className: undefined, functional: true, ofType: ['resetProjects'], dispatch: false }
+    ]);
+  });
+
+  it('records the state, computed signals and methods of signal stores', () => {
+    const [store] = graph.signalStores;
+
+    assert.deepEqual({ name: store.name, state: store.state, computed: store.computed, methods: store.methods, providedIn: store.providedIn }, {
+      name: 'TodosStore',
+      state: ['todos', 'filter'],
+      computed: ['count'],
+      methods: ['add', 'clear'],
+      providedIn: 'root'
+    });
+  });
+
+  it('accepts declared actions, selectors and store members', async () => {
+    const issues = await detect(`  go() {
+    this.store.dispatch(ProjectsActions.loadProjects());
+    this.store.selectSignal(projectsFeature.selectCount);
+    this.todos.add('write tests');
+    return this.todos.count();
+  }`);
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports hallucinated actions, selectors and store members', async () => {
+    const issues = await detect(`  go() {
+    this.store.dispatch(ProjectsActions.deleteProject());
+    this.store.select(projectsFeature.selectArchived);
+    this.store.getState();
+    this.todos.remove('write tests');
+  }`);
+
+    assert.deepEqual(issues, [
+      `Method 'getState' does not exist on the NgRx Store`,
+      `'remove' does not exist on signal store TodosStore`,
+      `Action 'ProjectsActions.deleteProject' does not exist`,
+      `Selector 'projectsFeature.selectArchived' does not exist`
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/styles/_theme.scss': `// Project theme
+$primary: #1976d2;
+$spacing-unit: 8px;
+@mixin card-elevation($level: 1) {
+  $shadow: 0 0 $level * 2px rgba(0, 0, 0, 0.2);
+  box-shadow: $shadow;
+}
+@function spacing($factor) {
+  @return $factor * $spacing-unit;
+}
+`,
+  'src/styles.scss': `:root {
+  --primary-color: #1976d2;
+  --surface-color: white;
+}
+`,
+  'src/app/empty.scss': `.host { display: block; }
+`
+};
+
+const component = (styles: string) => `import { Component } from '@angular/core';
+@Component({ selector: 'app-card', standalone: true, imports: [], template: '', styles: \`${styles}\` })
+export class CardComponent {}`;
+
+describe('stylesheets', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (code: string, stylesheets: string[] = []): Promise<Array<[string, string | undefined]>> => {
+    const result = await new HallucinationDetector(graph).detectHallucinations(code, undefined, stylesheets, `${rootPath}/src/app/card.component.ts`);
+    return result.issues.filter(issue => issue.type === 'style').map(issue => [issue.description, issue.suggestion]);
+  };
+
+  it('records the mixins, functions, top-level variables and custom properties of project stylesheets', () => {
+    const sheets = graph.stylesheets
+      .map(({ filePath, mixins, functions, variables, customProperties }) => ({ file: filePath.slice(rootPath.length), mixins, functions, variables, customProperties }))
+      .sort((a, b) => a.file.localeCompare(b.file));
+
+    assert.deepEqual(sheets, [
+      { file: '/src/styles.scss', mixins: [], functions: [], variables: [], customProperties: ['--primary-color', '--surface-color'] },
+      { file: '/src/styles/_theme.scss', mixins: ['card-elevation'], functions: ['spacing'], variables: ['primary', 'spacing-unit'], customProperties: [] }
+    ]);
+  });
+
+  it('accepts references to the theme through @use namespaces and globals', async () => {
+    const issues = await detect(component(`@use 'styles/theme' as theme;
+:host { @include theme.card-elevation(2); color: theme.$primary; background: var(--surface-color); }`));
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports mixins, variables and custom properties the theme does not declare', async () => {
+    const issues = await detect(component(`@use 'styles/theme' as theme;
+:host { @include theme.card-elevaton(2); color: theme.$secondary; background: var(--surface-colour); }`));
+
+    assert.deepEqual(issues, [
+      ['Unknown mixin: theme.card-elevaton', `Did you mean 'card-elevation'?`],
+      ['Unknown variable: theme.$secondary', 'Declared variables: $primary, $spacing-unit'],
+      ['Unknown custom property: --surface-colour', `Did you mean '--surface-color'?`]
+    ]);
+  });
+
+  it('checks the contents of styleUrls files like inline styles', async () => {
+    const issues = await detect(`import { Component } from '@angular/core';
+@Component({ selector: 'app-card', standalone: true, imports: [], template: '', styleUrls: ['./card.component.scss'] })
+export class CardComponent {}`, [`@import 'styles/theme';
+.card { @include shadow-lg; padding: $spacing-unit; }`]);
+
+    assert.deepEqual(issues, [['Unknown mixin: shadow-lg', 'Declared mixins: card-elevation']]);
+  });
+});
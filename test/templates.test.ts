@@ -0,0 +1,91 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { AngularComponent, KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/app/projects/projects.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-projects', templateUrl: './projects.component.html' })
+export class ProjectsComponent {
+  projects: string[] = [];
+  filter = '';
+  select(project: string, event: Event) {}
+  trackById(index: number) { return index; }
+  isVisible() { return true; }
+}
+`,
+  'src/app/projects/projects.component.html': `<app-project-card *ngFor="let project of projects" [project]="project" (selected)="select(project, $event)"></app-project-card>
+@if (isVisible()) {
+  <input #search [value]="filter" (input)="filter = search.value">
+}
+@for (project of projects; track trackById($index)) {
+  <span>{{ project | uppercase }}</span>
+}
+<button (click)="$any(undefinedHandler)()">Go</button>
+`,
+  'src/app/projects/project-card.component.ts': `import { Component, Input } from '@angular/core';
+@Component({
+  selector: 'app-project-card',
+  template: \`<div [class.active]="active">{{ project | titlecase }}</div>\`
+})
+export class ProjectCardComponent {
+  @Input() project = '';
+  active = false;
+}
+`,
+  'src/app/broken/broken.component.ts': `import { Component } from '@angular/core';
+@Component({ selector: 'app-broken', template: '<div (click)="go(">' })
+export class BrokenComponent {}
+`
+};
+
+describe('template parsing', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const getComponent = (name: string): AngularComponent => graph.components.find(component => component.name === name)!;
+
+  it('records what a templateUrl template uses', () => {
+    const { template } = getComponent('ProjectsComponent');
+
+    assert.equal(template?.inline, false);
+    assert.deepEqual(template?.elements, ['app-project-card', 'input', 'span', 'button']);
+    assert.deepEqual(template?.propertyBindings, ['project', 'value']);
+    assert.deepEqual(template?.eventBindings, ['selected', 'input', 'click']);
+    assert.deepEqual(template?.pipes, ['uppercase']);
+    assert.deepEqual(template?.structuralDirectives, ['ngFor']);
+    assert.deepEqual(template?.controlFlowBlocks, ['if', 'for']);
+  });
+
+  it('leaves template variables, references and $event/$any out of the member references', () => {
+    const { template } = getComponent('ProjectsComponent');
+
+    assert.deepEqual(template?.referencedMethods.sort(), ['isVisible', 'select', 'trackById']);
+    assert.deepEqual(template?.referencedProperties.sort(), ['filter', 'projects', 'undefinedHandler']);
+  });
+
+  it('parses inline templates and links the components that render each other', () => {
+    const card = getComponent('ProjectCardComponent');
+
+    assert.equal(card.template?.inline, true);
+    assert.deepEqual(card.template?.pipes, ['titlecase']);
+    assert.deepEqual(card.template?.referencedProperties.sort(), ['active', 'project']);
+    assert.deepEqual(card.renderedBy, ['ProjectsComponent']);
+    assert.deepEqual(getComponent('ProjectsComponent').renderedBy, []);
+  });
+
+  it('records template syntax errors on the component', () => {
+    const { template } = getComponent('BrokenComponent');
+
+    assert.ok(template?.errors?.some(error => error.includes('Missing expected )')));
+    assert.deepEqual(template?.referencedMethods, ['go']);
+  });
+});
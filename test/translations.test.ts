@@ -0,0 +1,88 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodebaseParser } from '../src/codebase-parser.js';
+import { HallucinationDetector } from '../src/hallucination-detector.js';
+import { KnowledgeGraph } from '../src/knowledge-graph.js';
+import { createProject, removeProject } from './helpers.js';
+
+const FILES = {
+  'src/assets/i18n/en.json': JSON.stringify({ home: { title: 'Home', subtitle: 'Welcome' }, save: 'Save' }),
+  'src/assets/i18n/fr.json': JSON.stringify({ home: { title: 'Accueil' } }),
+  'src/assets/i18n/admin/en.json': JSON.stringify({ users: 'Users' }),
+  'src/locale/messages.fr.xlf': `<?xml version="1.0" encoding="UTF-8" ?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="fr" datatype="plaintext" original="ng2.template">
+    <body>
+      <trans-unit id="welcome.title" datatype="html"><source>Welcome</source><target>Bienvenue</target></trans-unit>
+      <trans-unit id="logout.label" datatype="html"><source>Log out</source><target>Déconnexion</target></trans-unit>
+    </body>
+  </file>
+</xliff>
+`,
+  'src/app/title.ts': `export const title = $localize\`:site header@@welcome.title:Welcome\`;
+export const untitled = $localize\`No id\`;
+`
+};
+
+describe('translations', () => {
+  let rootPath: string;
+  let graph: KnowledgeGraph;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    graph = await new CodebaseParser({ workers: 0, indexPackages: false }).parseCodebase(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  const detect = async (code: string): Promise<Array<[string, string, string | undefined]>> => {
+    // The FibreFlow currency check takes the $ of $localize for a dollar sign
+    const result = await new HallucinationDetector(graph, { fibreflow: false }).detectHallucinations(code, undefined, [], `${rootPath}/src/app/x.ts`);
+    return result.issues.map(issue => [issue.severity, issue.description, issue.suggestion]);
+  };
+
+  it('records JSON, XLIFF and $localize catalogs', () => {
+    const catalogs = graph.translations
+      .map(({ format, locale, keys, filePath }) => ({ format, locale, keys, file: filePath.slice(rootPath.length) }))
+      .sort((a, b) => a.file.localeCompare(b.file));
+
+    assert.deepEqual(catalogs, [
+      { format: 'localize', locale: undefined, keys: ['welcome.title'], file: '/src/app/title.ts' },
+      { format: 'json', locale: 'en', keys: ['admin.users'], file: '/src/assets/i18n/admin/en.json' },
+      { format: 'json', locale: 'en', keys: ['home.title', 'home.subtitle', 'save'], file: '/src/assets/i18n/en.json' },
+      { format: 'json', locale: 'fr', keys: ['home.title'], file: '/src/assets/i18n/fr.json' },
+      { format: 'xliff', locale: 'fr', keys: ['welcome.title', 'logout.label'], file: '/src/locale/messages.fr.xlf' }
+    ]);
+  });
+
+  it('accepts keys of any locale and scope', async () => {
+    const issues = await detect(`import { Component, inject } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+@Component({ selector: 'app-home', standalone: true, imports: [], template: \`<h1>{{ 'home.title' | translate }}</h1>\` })
+export class HomeComponent {
+  private translate = inject(TranslateService);
+  label = this.translate.instant('admin.users');
+  logout = $localize\`:@@logout.label:Log out\`;
+}`);
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('reports unknown keys in pipes, translate calls and $localize ids with the closest key', async () => {
+    const issues = await detect(`import { Component, inject } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+@Component({ selector: 'app-home', standalone: true, imports: [], template: \`<h1>{{ 'home.titel' | translate }}</h1>\` })
+export class HomeComponent {
+  private translate = inject(TranslateService);
+  label = this.translate.instant('dashboard.heading');
+  logout = $localize\`:@@logout.labl:Log out\`;
+}`);
+
+    assert.deepEqual(issues, [
+      ['error', `Translation key 'dashboard.heading' does not exist in the translation files`, 'Add the key to every locale file under assets/i18n'],
+      ['warning', `$localize id 'logout.labl' is not in the XLIFF translation files`,
+        `Did you mean 'logout.label'? For a new message, run ng extract-i18n and translate it`],
+      ['error', `Translation key 'home.titel' does not exist in the translation files`, `Did you mean 'home.title'?`]
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { utimesSync } from 'fs';
+import { join } from 'path';
+import { CodebaseParser, IncrementalParseResult } from '../src/codebase-parser.js';
+import { getProjectGraph, getProjectScope } from '../src/workspace.js';
+import { createProject, removeProject, writeProjectFile } from './helpers.js';
+
+const projectJson = (name: string, projectType: string, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ name, projectType, sourceRoot: `${projectType === 'application' ? 'apps' : 'libs'}/${name}/src`, ...extra });
+
+const FILES = {
+  'nx.json': '{}',
+  '.antihallrc': JSON.stringify({ exclude: ['**/node_modules/**', '**/dist/**', '**/.*/**', '**/fixtures/**'] }),
+  '.gitignore': 'generated/\n',
+  'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@org/ui': ['libs/ui/src/format.ts'] } } }),
+  'apps/shop/project.json': projectJson('shop', 'application', { tags: ['scope:shop'] }),
+  'apps/shop/src/app/cart.service.ts': `import { Injectable } from '@angular/core';
+import { formatPrice } from '@org/ui';
+@Injectable({ providedIn: 'root' })
+export class CartService {
+  total() { return formatPrice(0); }
+}
+`,
+  'apps/admin/project.json': projectJson('admin', 'application', { implicitDependencies: ['ui'] }),
+  'apps/admin/src/app/users.service.ts': `import { Injectable } from '@angular/core';
+@Injectable({ providedIn: 'root' })
+export class UsersService {
+  list() { return []; }
+}
+`,
+  'libs/ui/project.json': projectJson('ui', 'library'),
+  'libs/ui/src/format.ts': `export function formatPrice(value: number) { return value.toFixed(2); }
+`,
+  // Neither an excluded nor a git-ignored directory is searched for project.json files
+  'libs/fixtures/project.json': projectJson('fixtures', 'library'),
+  'generated/project.json': projectJson('generated', 'library')
+};
+
+describe('workspace projects', () => {
+  let rootPath: string;
+  let parser: CodebaseParser;
+  let first: IncrementalParseResult;
+
+  before(async () => {
+    rootPath = createProject(FILES);
+    parser = new CodebaseParser({ workers: 0, indexPackages: false });
+    first = await parser.parseCodebaseIncremental(rootPath);
+  });
+
+  after(() => removeProject(rootPath));
+
+  it('records the projects of every project.json outside excluded and git-ignored directories', () => {
+    const projects = first.graph.workspaceProjects.map(({ name, type, root, tags, dependencies }) =>
+      ({ name, type, root: root.slice(rootPath.length), tags, dependencies }));
+
+    assert.deepEqual(projects.sort((a, b) => a.name.localeCompare(b.name)), [
+      { name: 'admin', type: 'application', root: '/apps/admin', tags: undefined, dependencies: ['ui'] },
+      { name: 'shop', type: 'application', root: '/apps/shop', tags: ['scope:shop'], dependencies: ['ui'] },
+      { name: 'ui', type: 'library', root: '/libs/ui', tags: undefined, dependencies: [] }
+    ]);
+  });
+
+  it('scopes the graph to a project and the libraries it may import', () => {
+    const scope = getProjectScope(first.graph, join(rootPath, 'apps/shop/src/app/checkout.ts'));
+
+    assert.deepEqual(scope.services.map(service => service.name), ['CartService']);
+    assert.deepEqual(scope.utilityFunctions.map(fn => fn.name), ['formatPrice']);
+    assert.deepEqual(getProjectGraph(first.graph, 'admin').services.map(service => service.name), ['UsersService']);
+  });
+
+  it('keeps the project list in the manifest while no workspace file changes', async () => {
+    const second = await parser.parseCodebaseIncremental(rootPath, first);
+
+    assert.equal(second.manifest.workspace, first.manifest.workspace);
+    assert.deepEqual(Object.keys(second.manifest.workspace!.files).sort(), [
+      'apps/admin/project.json',
+      'apps/shop/project.json',
+      'libs/ui/project.json',
+      'nx.json'
+    ]);
+  });
+
+  it('reads the projects again when a project.json changes or appears', async () => {
+    const shopJson = writeProjectFile(rootPath, 'apps/shop/project.json', projectJson('shop', 'application', { tags: ['scope:store'] }));
+    utimesSync(shopJson, new Date(), new Date(Date.now() + 10_000));
+    const changed = await parser.parseCodebaseIncremental(rootPath, first);
+
+    assert.deepEqual(changed.graph.workspaceProjects.find(project => project.name === 'shop')?.tags, ['scope:store']);
+
+    writeProjectFile(rootPath, 'libs/data/project.json', projectJson('data', 'library'));
+    const added = await parser.parseCodebaseIncremental(rootPath, changed);
+
+    assert.deepEqual(added.graph.workspaceProjects.map(project => project.name).sort(), ['admin', 'data', 'shop', 'ui']);
+  });
+});